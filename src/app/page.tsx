@@ -1,8 +1,8 @@
 
 "use client";
 
-import { useState, useRef, useTransition, useCallback, useEffect, type ElementRef } from 'react';
-import { FileDown, Network } from 'lucide-react';
+import { useState, useRef, useTransition, useEffect, type ElementRef } from 'react';
+import { FileCode, FileDown, Network } from 'lucide-react';
 
 async function geminiCallCloudflare(prompt: string): Promise<string> {
   console.log('[Gemini] Sending prompt to /api/gemini-call:', prompt);
@@ -81,7 +81,13 @@ import AIProcessingDialog from '@/components/AIProcessingDialog';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import { useMermaidValidator } from '@/hooks/use-mermaid-validator';
+import { useScrollSync } from '@/hooks/use-scroll-sync';
 import ArchimateGeneratorDialog from '@/components/ArchimateGeneratorDialog';
+import ArchimateRegenerateDialog from '@/components/ArchimateRegenerateDialog';
+import ArchimateDiffDialog from '@/components/ArchimateDiffDialog';
+import { convertMermaidToExchangeXML } from '@/lib/mermaid-archimate-converter';
+import type { SourceRange } from '@/lib/preview-source';
+import { exportMarkdownToHtml, fetchImageAsDataUri } from '@/lib/html-export';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -409,6 +415,17 @@ Solution Architecture Document
 
 `;
 
+// Save generated content as a file through a temporary link
+function downloadFile(content: string, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right after the click can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 export default function Home() {
   const [markdown, setMarkdown] = useState(defaultMarkdown);
   const [isPending, startTransition] = useTransition();
@@ -416,6 +433,8 @@ export default function Home() {
 
   const [editorWidth, setEditorWidth] = useState(50);
   const [isArchimateDialogOpen, setIsArchimateDialogOpen] = useState(false);
+  const [isArchimateDiffOpen, setIsArchimateDiffOpen] = useState(false);
+  const [regenerateBlock, setRegenerateBlock] = useState<{ from: number; to: number; script: string } | null>(null);
   const [isGutterMenuOpen, setGutterMenuOpen] = useState(false);
   const [gutterMenuPosition, setGutterMenuPosition] = useState({ x: 0, y: 0 });
   const [gutterLineContent, setGutterLineContent] = useState('');
@@ -427,19 +446,14 @@ export default function Home() {
   const previewWrapperRef = useRef<ElementRef<'div'>>(null);
   const mainContainerRef = useRef<ElementRef<'main'>>(null);
 
-  const { mermaidError } = useMermaidValidator(markdown);
+  const { mermaidErrors } = useMermaidValidator(markdown);
   const [isDescribeProcessing, setIsDescribeProcessing] = useState(false);
   
-  // Track scroll positions and which pane is being actively scrolled
-  const lastEditorScrollRef = useRef(0);
-  const lastPreviewScrollRef = useRef(0);
-  const userScrollSourceRef = useRef<'editor' | 'preview' | null>(null);
-  const scrollMonitorRef = useRef<number | null>(null);
-  
-  // Lock semantics: if syncing FROM editor TO preview, lock = 'editor'
-  // This prevents preview scroll events from being interpreted as new user input
-  const isSyncingRef = useRef<'editor' | 'preview' | null>(null);
-  const syncLockTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Keep editor and preview aligned on the source lines the preview was rendered from
+  const { handleEditorScroll, handlePreviewScroll: syncPreviewScroll, acquireLock } = useScrollSync(
+    editorRef,
+    previewWrapperRef
+  );
 
   const handleMouseDownOnResizer = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -509,6 +523,38 @@ export default function Home() {
     });
   };
 
+  const handleRegenerateMermaid = (script: string) => {
+    if (!regenerateBlock) return;
+    setMarkdown(
+      markdown.substring(0, regenerateBlock.from) +
+      '```mermaid\n' + script + '\n```' +
+      markdown.substring(regenerateBlock.to)
+    );
+    setRegenerateBlock(null);
+    toast({
+      title: "✅ Diagram regenerated",
+      description: "The diagram was updated from the new model.",
+    });
+  };
+
+  const handleExportMermaid = (script: string) => {
+    try {
+      const xml = convertMermaidToExchangeXML(script, { name: 'Mermaid Diagram' });
+      downloadFile(xml, 'application/xml', 'mermaid-diagram.xml');
+      toast({
+        title: "✅ Diagram exported",
+        description: "The flowchart was saved as Archimate exchange XML.",
+      });
+    } catch (error: unknown) {
+      console.error('Mermaid export error:', error);
+      toast({
+        variant: "destructive",
+        title: "❌ Export failed",
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
   const handleInsertMermaidTemplate = (template?: string) => {
     if (template) {
       editorRef.current?.insertText(template);
@@ -536,107 +582,38 @@ export default function Home() {
     window.print();
   };
 
-  // Continuous scroll synchronization monitor
-  const monitorScrollSync = useCallback(() => {
-    const editorView = editorRef.current?.getView();
-    const previewEl = previewWrapperRef.current;
-    
-    if (!editorView || !previewEl) {
-      if (scrollMonitorRef.current !== null) {
-        cancelAnimationFrame(scrollMonitorRef.current);
-        scrollMonitorRef.current = null;
-      }
-      return;
-    }
-
-    const editorScrollEl = editorView.scrollDOM;
-    const currentEditorScroll = editorScrollEl.scrollTop;
-    const currentPreviewScroll = previewEl.scrollTop;
-    
-    const editorDelta = currentEditorScroll - lastEditorScrollRef.current;
-    const previewDelta = currentPreviewScroll - lastPreviewScrollRef.current;
-    
-    // Update positions
-    lastEditorScrollRef.current = currentEditorScroll;
-    lastPreviewScrollRef.current = currentPreviewScroll;
-    
-    // CRITICAL: Sync whenever user source is set, AS LONG AS we're not in the opposite sync direction
-    // This allows continuous scrolling to keep syncing
-    
-    // Case 1: User is scrolling editor
-    // Only prevent sync if we're currently syncing FROM preview TO editor
-    if (userScrollSourceRef.current === 'editor' && editorDelta !== 0 && isSyncingRef.current !== 'preview') {
-      const scrollPercentage = currentEditorScroll / (editorScrollEl.scrollHeight - editorScrollEl.clientHeight);
-      const targetPreviewScroll = scrollPercentage * (previewEl.scrollHeight - previewEl.clientHeight);
-      
-      // Mark that we're syncing FROM editor TO preview
-      isSyncingRef.current = 'editor';
-      if (syncLockTimeoutRef.current) clearTimeout(syncLockTimeoutRef.current);
-      syncLockTimeoutRef.current = setTimeout(() => {
-        isSyncingRef.current = null;
-        userScrollSourceRef.current = null;
-      }, 600);
-      
-      previewEl.scrollTo({
-        top: targetPreviewScroll,
-        behavior: 'smooth'
+  const handleExportHtml = async () => {
+    try {
+      const html = await exportMarkdownToHtml(markdown, {
+        renderMermaid: typeof window.mermaid !== 'undefined' ? (id, script) => window.mermaid.render(id, script) : undefined,
+        loadImage: fetchImageAsDataUri,
       });
-    }
-    // Case 2: User is scrolling preview
-    // Only prevent sync if we're currently syncing FROM editor TO preview
-    else if (userScrollSourceRef.current === 'preview' && previewDelta !== 0 && isSyncingRef.current !== 'editor') {
-      const scrollPercentage = currentPreviewScroll / (previewEl.scrollHeight - previewEl.clientHeight);
-      const targetEditorScroll = scrollPercentage * (editorScrollEl.scrollHeight - editorScrollEl.clientHeight);
-      
-      // Mark that we're syncing FROM preview TO editor
-      isSyncingRef.current = 'preview';
-      if (syncLockTimeoutRef.current) clearTimeout(syncLockTimeoutRef.current);
-      syncLockTimeoutRef.current = setTimeout(() => {
-        isSyncingRef.current = null;
-        userScrollSourceRef.current = null;
-      }, 600);
-      
-      editorScrollEl.scrollTo({
-        top: targetEditorScroll,
-        behavior: 'smooth'
+      downloadFile(html, 'text/html', 'document.html');
+      toast({
+        title: "✅ Document exported",
+        description: "The document was saved as a standalone HTML file.",
+      });
+    } catch (error: unknown) {
+      console.error('HTML export error:', error);
+      toast({
+        variant: "destructive",
+        title: "❌ Export failed",
+        description: error instanceof Error ? error.message : String(error),
       });
     }
-    
-    // Continue monitoring
-    scrollMonitorRef.current = requestAnimationFrame(monitorScrollSync);
-  }, []);
+  };
 
-  // Start monitoring on mount
   useEffect(() => {
-    scrollMonitorRef.current = requestAnimationFrame(monitorScrollSync);
     return () => {
-      if (scrollMonitorRef.current !== null) {
-        cancelAnimationFrame(scrollMonitorRef.current);
-      }
-      if (syncLockTimeoutRef.current) {
-        clearTimeout(syncLockTimeoutRef.current);
-      }
       if (previewScrollTimeoutRef.current) {
         clearTimeout(previewScrollTimeoutRef.current);
       }
     };
-  }, [monitorScrollSync]);
-
-  const handleEditorScroll = () => {
-    // Only set source if we're not currently syncing FROM preview TO editor
-    // If isSyncingRef === 'preview', that means preview was scrolled and triggered editor sync
-    if (isSyncingRef.current !== 'preview') {
-      userScrollSourceRef.current = 'editor';
-    }
-  };
+  }, []);
 
   const handlePreviewScroll = () => {
-    // Only set source if we're not currently syncing FROM editor TO preview
-    // If isSyncingRef === 'editor', that means editor was scrolled and triggered preview sync
-    if (isSyncingRef.current !== 'editor') {
-      userScrollSourceRef.current = 'preview';
-    }
-    
+    syncPreviewScroll();
+
     // Hide formatting island when preview is scrolled
     setIsPreviewScrolling(true);
     if (previewScrollTimeoutRef.current) {
@@ -647,6 +624,17 @@ export default function Home() {
     }, 300);
   }
 
+  const handlePreviewLineClick = (line: number) => {
+    // The editor scrolls to the line; the preview stays where it was clicked
+    acquireLock('preview');
+    editorRef.current?.goToLine(line);
+  };
+
+  const handlePreviewSourceSelect = ({ from, to }: SourceRange) => {
+    acquireLock('preview');
+    editorRef.current?.selectRange(from, to);
+  };
+
 
   return (
     <>
@@ -691,6 +679,9 @@ export default function Home() {
                 <DropdownMenuItem onClick={() => handleInsertMermaidTemplate()}>
                   Generate from Archimate...
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setIsArchimateDiffOpen(true)}>
+                  Compare Archimate Models...
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => handleInsertMermaidTemplate('```mermaid\ngraph TD\n    A[Start] --> B{Decision?};\n    B -- Yes --> C[Do This];\n    B -- No --> D[Do That];\n```')}>
                   Flowchart
                 </DropdownMenuItem>
@@ -701,6 +692,10 @@ export default function Home() {
             </DropdownMenu>
 
             {/* 'Enhance with AI' removed — only Describe with AI for Mermaid is supported now */}
+            <Button onClick={handleExportHtml} variant="ghost" size="sm">
+              <FileCode className="mr-2 h-4 w-4" />
+              Export to HTML
+            </Button>
             <Button onClick={handlePrint} variant="ghost" size="sm">
               <FileDown className="mr-2 h-4 w-4" />
               Export to PDF
@@ -716,9 +711,11 @@ export default function Home() {
               ref={editorRef}
               value={markdown}
               onChange={setMarkdown}
-              mermaidError={mermaidError}
+              mermaidErrors={mermaidErrors}
               onPlusClick={handleGutterPlusClick}
               onDescribeMermaid={handleDescribeMermaid}
+              onRegenerateMermaid={setRegenerateBlock}
+              onExportMermaid={handleExportMermaid}
               onScroll={handleEditorScroll}
               isExternalScrolling={isPreviewScrolling}
               isDescribeProcessing={isDescribeProcessing}
@@ -734,7 +731,11 @@ export default function Home() {
               className="h-full overflow-y-auto bg-card flex-grow"
               onScroll={handlePreviewScroll}
           >
-            <MarkdownPreview markdown={markdown} />
+            <MarkdownPreview
+              markdown={markdown}
+              onLineClick={handlePreviewLineClick}
+              onSourceSelect={handlePreviewSourceSelect}
+            />
           </div>
         </main>
       </div>
@@ -749,6 +750,22 @@ export default function Home() {
           setIsArchimateDialogOpen(false);
         }}
       />
+
+      <ArchimateDiffDialog
+        open={isArchimateDiffOpen}
+        onOpenChange={setIsArchimateDiffOpen}
+        onInsert={(content) => {
+          editorRef.current?.insertText(content);
+          setIsArchimateDiffOpen(false);
+        }}
+      />
+
+      <ArchimateRegenerateDialog
+        open={regenerateBlock !== null}
+        onOpenChange={(open) => !open && setRegenerateBlock(null)}
+        script={regenerateBlock?.script ?? null}
+        onRegenerate={handleRegenerateMermaid}
+      />
     </>
   );
 }
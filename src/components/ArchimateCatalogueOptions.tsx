@@ -0,0 +1,74 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  catalogueColumnLabel,
+  propertyColumn,
+  type CatalogueColumn,
+  type CatalogueOptions,
+} from '@/lib/markdown-catalogue-generator';
+
+interface ArchimateCatalogueOptionsProps {
+  /** Property keys used by the selected elements */
+  propertyKeys: string[];
+  options: Required<CatalogueOptions>;
+  onOptionsChange: (options: Required<CatalogueOptions>) => void;
+}
+
+const BUILT_IN_COLUMNS: CatalogueColumn[] = ['name', 'type', 'documentation'];
+
+export default function ArchimateCatalogueOptions({
+  propertyKeys,
+  options,
+  onOptionsChange,
+}: ArchimateCatalogueOptionsProps) {
+  const availableColumns = [...BUILT_IN_COLUMNS, ...propertyKeys.map(propertyColumn)];
+
+  // Columns keep the order they are offered in, whatever order they are ticked in
+  const toggleColumn = (column: CatalogueColumn, checked: boolean) => {
+    const columns = availableColumns.filter(candidate =>
+      candidate === column ? checked : options.columns.includes(candidate)
+    );
+    onOptionsChange({ ...options, columns });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <h4 className="font-medium">Columns</h4>
+        <div className="grid grid-cols-2 gap-2">
+          {availableColumns.map(column => (
+            <div key={column} className="flex items-center space-x-2">
+              <Checkbox
+                id={`catalogue-${column}`}
+                checked={options.columns.includes(column)}
+                onCheckedChange={checked => toggleColumn(column, !!checked)}
+              />
+              <Label htmlFor={`catalogue-${column}`} className="font-normal cursor-pointer truncate">
+                {catalogueColumnLabel(column)}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="catalogue-group-by-type"
+          checked={options.groupByType}
+          onCheckedChange={checked => onOptionsChange({ ...options, groupByType: !!checked })}
+        />
+        <Label htmlFor="catalogue-group-by-type" className="font-normal cursor-pointer">One table per element type</Label>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="catalogue-relationships"
+          checked={options.includeRelationships}
+          onCheckedChange={checked => onOptionsChange({ ...options, includeRelationships: !!checked })}
+        />
+        <Label htmlFor="catalogue-relationships" className="font-normal cursor-pointer">
+          Add a table of relationships (e.g. integration points)
+        </Label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {
+  MermaidDiagramFormat,
+  MermaidDirection,
+  MermaidEdgeLabel,
+  MermaidGeneratorOptions,
+  MermaidNotation,
+} from '@/lib/mermaid-generator';
+
+interface ArchimateDiagramOptionsProps {
+  options: Required<MermaidGeneratorOptions>;
+  onOptionsChange: (options: Required<MermaidGeneratorOptions>) => void;
+}
+
+const FORMATS: { value: MermaidDiagramFormat; label: string }[] = [
+  { value: 'flowchart', label: 'Flowchart' },
+  { value: 'c4Context', label: 'C4 Context' },
+  { value: 'c4Container', label: 'C4 Container' },
+  { value: 'class', label: 'Class diagram (business and data objects)' },
+];
+
+const DIRECTIONS: { value: MermaidDirection; label: string }[] = [
+  { value: 'TD', label: 'Top to bottom' },
+  { value: 'LR', label: 'Left to right' },
+  { value: 'BT', label: 'Bottom to top' },
+  { value: 'RL', label: 'Right to left' },
+];
+
+const EDGE_LABELS: { value: MermaidEdgeLabel; label: string }[] = [
+  { value: 'type', label: 'Relationship type' },
+  { value: 'name', label: 'Relationship name' },
+  { value: 'both', label: 'Name and type' },
+  { value: 'none', label: 'No labels' },
+];
+
+export default function ArchimateDiagramOptions({ options, onOptionsChange }: ArchimateDiagramOptionsProps) {
+  const update = <K extends keyof MermaidGeneratorOptions>(key: K, value: Required<MermaidGeneratorOptions>[K]) => {
+    onOptionsChange({ ...options, [key]: value });
+  };
+
+  const isFlowchart = options.format === 'flowchart';
+  const isC4 = options.format === 'c4Context' || options.format === 'c4Container';
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="diagram-format" className="font-medium">Diagram type</Label>
+        <Select value={options.format} onValueChange={value => update('format', value as MermaidDiagramFormat)}>
+          <SelectTrigger id="diagram-format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FORMATS.map(format => (
+              <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isFlowchart && (
+        <div className="flex flex-col gap-2">
+          <h4 className="font-medium">Notation</h4>
+          <RadioGroup value={options.notation} onValueChange={value => update('notation', value as MermaidNotation)}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="plain" id="notation-plain" />
+              <Label htmlFor="notation-plain" className="font-normal cursor-pointer">Plain boxes</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="archimate" id="notation-archimate" />
+              <Label htmlFor="notation-archimate" className="font-normal cursor-pointer">
+                ArchiMate layers and notation
+              </Label>
+            </div>
+          </RadioGroup>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="diagram-direction" className="font-medium">Direction</Label>
+          <Select
+            value={options.direction}
+            onValueChange={value => update('direction', value as MermaidDirection)}
+            disabled={isC4}
+          >
+            <SelectTrigger id="diagram-direction">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIRECTIONS.map(direction => (
+                <SelectItem key={direction.value} value={direction.value}>{direction.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="diagram-edge-labels" className="font-medium">Edge labels</Label>
+          <Select value={options.edgeLabels} onValueChange={value => update('edgeLabels', value as MermaidEdgeLabel)}>
+            <SelectTrigger id="diagram-edge-labels">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EDGE_LABELS.map(edgeLabel => (
+                <SelectItem key={edgeLabel.value} value={edgeLabel.value}>{edgeLabel.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isFlowchart && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="diagram-show-type"
+            checked={options.showElementType}
+            onCheckedChange={checked => update('showElementType', !!checked)}
+          />
+          <Label htmlFor="diagram-show-type" className="font-normal cursor-pointer">Show element type in node labels</Label>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="diagram-max-label" className="font-medium">Truncate labels after</Label>
+        <Input
+          id="diagram-max-label"
+          type="number"
+          min={0}
+          placeholder="No limit"
+          value={options.maxLabelLength || ''}
+          onChange={event => update('maxLabelLength', Math.max(0, parseInt(event.target.value, 10) || 0))}
+        />
+      </div>
+    </div>
+  );
+}
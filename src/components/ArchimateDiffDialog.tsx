@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { useArchimateModel } from '@/hooks/use-archimate-model';
+import { useModelLibrary } from '@/hooks/use-model-library';
+import {
+  diffArchimateModels,
+  generateMermaidDiff,
+  modelDiffToMarkdown,
+  summarizeModelDiff,
+} from '@/lib/archimate-diff';
+import ArchimateModelLibrary from './ArchimateModelLibrary';
+import MermaidDiagramPreview from './MermaidDiagramPreview';
+
+interface ArchimateDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInsert: (content: string) => void;
+}
+
+export default function ArchimateDiffDialog({ open, onOpenChange, onInsert }: ArchimateDiffDialogProps) {
+  const { models: storedModels } = useModelLibrary();
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const { model: before, error: beforeError } = useArchimateModel(beforeId);
+  const { model: after, error: afterError } = useArchimateModel(afterId);
+
+  // Default to comparing the two most recent uploads, newest as the new version
+  useEffect(() => {
+    if (!open) return;
+    setAfterId(current => current ?? storedModels[0]?.id ?? null);
+    setBeforeId(current => current ?? storedModels[1]?.id ?? null);
+  }, [open, storedModels]);
+
+  const comparison = useMemo(() => {
+    if (!before || !after) return null;
+    const diff = diffArchimateModels(before, after);
+    return {
+      summary: summarizeModelDiff(diff),
+      mermaid: generateMermaidDiff(before, after, diff),
+      markdown: modelDiffToMarkdown(before, after, diff),
+    };
+  }, [before, after]);
+
+  const modelSelect = (id: string, label: string, value: string | null, onChange: (value: string) => void) => (
+    <div className="flex flex-col gap-2 flex-1">
+      <Label htmlFor={id} className="font-medium">{label}</Label>
+      <Select value={value ?? undefined} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Pick a model" />
+        </SelectTrigger>
+        <SelectContent>
+          {storedModels.map(stored => (
+            <SelectItem key={stored.id} value={stored.id}>
+              {stored.name} ({stored.fileName})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Compare Archimate Models</DialogTitle>
+          <DialogDescription>
+            See what changed between two versions of a model, and insert the changes as a diagram or as a summary for
+            the version history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4">
+          {modelSelect('diff-before', 'Previous version', beforeId, setBeforeId)}
+          {modelSelect('diff-after', 'New version', afterId, setAfterId)}
+        </div>
+        {(beforeError || afterError) && (
+          <p className="text-sm text-destructive">{(beforeError ?? afterError)?.message}</p>
+        )}
+
+        <Tabs defaultValue="summary" className="flex-grow min-h-0 flex flex-col">
+          <TabsList className="self-start">
+            <TabsTrigger value="summary">Summary</TabsTrigger>
+            <TabsTrigger value="diagram">Diagram</TabsTrigger>
+            <TabsTrigger value="library">Library</TabsTrigger>
+          </TabsList>
+          <TabsContent value="summary" className="flex-grow min-h-0 flex flex-col gap-2">
+            {comparison ? (
+              <>
+                <p className="text-sm font-medium">{comparison.summary}</p>
+                <Textarea
+                  readOnly
+                  value={comparison.markdown}
+                  className="font-code text-xs flex-grow"
+                  aria-label="Change summary in Markdown"
+                />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Pick the two versions to compare.</p>
+            )}
+          </TabsContent>
+          <TabsContent value="diagram" className="flex-grow min-h-0">
+            <ScrollArea className="h-full border rounded-lg p-2 bg-card">
+              {comparison ? (
+                <MermaidDiagramPreview source={comparison.mermaid} />
+              ) : (
+                <p className="text-sm text-muted-foreground p-2">Pick the two versions to compare.</p>
+              )}
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="library" className="flex-grow min-h-0">
+            <ScrollArea className="h-full">
+              <div className="pr-4">
+                <ArchimateModelLibrary selectedModelId={afterId} onSelectModel={setAfterId} />
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="shrink-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => comparison && onInsert(comparison.markdown + '\n')}
+            disabled={!comparison}
+          >
+            Insert Summary
+          </Button>
+          <Button
+            onClick={() => comparison && onInsert('```mermaid\n' + comparison.mermaid + '\n```')}
+            disabled={!comparison}
+          >
+            Insert Diagram
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { searchElements } from '@/lib/archimate-neighborhood';
+import type { ArchimateModel } from '@/lib/archimate-parser';
+
+interface ArchimateElementPickerProps {
+  model: ArchimateModel;
+  selectedElements: string[];
+  onSelectedElementsChange: (elementIds: string[]) => void;
+}
+
+// Long result lists are cut off; the search box narrows them down
+const MAX_RESULTS = 50;
+
+export default function ArchimateElementPicker({
+  model,
+  selectedElements,
+  onSelectedElementsChange,
+}: ArchimateElementPickerProps) {
+  const [query, setQuery] = useState('');
+
+  const results = useMemo(
+    () => searchElements(model.elements.values(), query, MAX_RESULTS),
+    [model, query]
+  );
+
+  const toggle = (elementId: string, checked: boolean) => {
+    onSelectedElementsChange(
+      checked ? [...selectedElements, elementId] : selectedElements.filter(id => id !== elementId)
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {selectedElements.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selectedElements.map(elementId => (
+            <Badge key={elementId} variant="secondary" className="gap-1 font-normal">
+              {model.elements.get(elementId)?.name ?? elementId}
+              <button
+                type="button"
+                aria-label="Remove element"
+                onClick={() => toggle(elementId, false)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          placeholder="Search elements by name or type"
+          className="pl-8"
+        />
+      </div>
+
+      <div className="max-h-48 overflow-y-auto space-y-2 pr-1">
+        {results.map(element => (
+          <div key={element.identifier} className="flex items-center space-x-2">
+            <Checkbox
+              id={`element-${element.identifier}`}
+              checked={selectedElements.includes(element.identifier)}
+              onCheckedChange={checked => toggle(element.identifier, !!checked)}
+            />
+            <Label htmlFor={`element-${element.identifier}`} className="font-normal cursor-pointer">
+              {element.name} <span className="text-muted-foreground">({element.type})</span>
+            </Label>
+          </div>
+        ))}
+        {results.length === 0 && <p className="text-sm text-muted-foreground">No matching elements.</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ExpansionDirection, NeighborhoodOptions } from '@/lib/archimate-neighborhood';
+
+interface ArchimateExpansionOptionsProps {
+  /** Relationship types present in the model */
+  relationshipTypes: string[];
+  options: NeighborhoodOptions;
+  onOptionsChange: (options: NeighborhoodOptions) => void;
+}
+
+const DIRECTIONS: { value: ExpansionDirection; label: string }[] = [
+  { value: 'incoming', label: 'Incoming (e.g. what serves it)' },
+  { value: 'outgoing', label: 'Outgoing (e.g. what it serves)' },
+  { value: 'both', label: 'Both directions' },
+];
+
+export default function ArchimateExpansionOptions({
+  relationshipTypes,
+  options,
+  onOptionsChange,
+}: ArchimateExpansionOptionsProps) {
+  const toggleType = (type: string, checked: boolean) => {
+    onOptionsChange({
+      ...options,
+      relationshipTypes: checked
+        ? [...options.relationshipTypes, type]
+        : options.relationshipTypes.filter(item => item !== type),
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="expansion-hops" className="font-medium">Hops</Label>
+          <Input
+            id="expansion-hops"
+            type="number"
+            min={0}
+            value={options.hops}
+            onChange={event => onOptionsChange({ ...options, hops: Math.max(0, parseInt(event.target.value, 10) || 0) })}
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="expansion-direction" className="font-medium">Direction</Label>
+          <Select
+            value={options.direction}
+            onValueChange={value => onOptionsChange({ ...options, direction: value as ExpansionDirection })}
+          >
+            <SelectTrigger id="expansion-direction">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIRECTIONS.map(direction => (
+                <SelectItem key={direction.value} value={direction.value}>{direction.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <h4 className="font-medium">Follow Relationship Types</h4>
+        <div className="space-y-2">
+          {relationshipTypes.map(type => (
+            <div key={type} className="flex items-center space-x-2">
+              <Checkbox
+                id={`expand-${type}`}
+                checked={options.relationshipTypes.includes(type)}
+                onCheckedChange={checked => toggleType(type, !!checked)}
+              />
+              <Label htmlFor={`expand-${type}`} className="font-normal cursor-pointer">{type}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
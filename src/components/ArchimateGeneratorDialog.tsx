@@ -8,13 +8,43 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { UploadCloud } from 'lucide-react';
+import { AlertTriangle, ClipboardCheck } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
-import { parseArchimateXML } from '@/lib/archimate-parser';
-import { generateMermaidFromArchimate } from '@/lib/mermaid-generator';
-import type { ArchimateElement, ArchimateRelationship, ArchimateModel } from '@/lib/archimate-parser';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { DEFAULT_NEIGHBORHOOD_OPTIONS, type NeighborhoodOptions } from '@/lib/archimate-neighborhood';
+import {
+  generateLinkedScript,
+  selectArchimateDiagram,
+  type ArchimateDiagramSettings,
+} from '@/lib/archimate-diagram-link';
+import {
+  DEFAULT_GENERATOR_OPTIONS,
+  type MermaidGeneratorOptions,
+} from '@/lib/mermaid-generator';
+import {
+  DEFAULT_CATALOGUE_OPTIONS,
+  cataloguePropertyKeys,
+  generateMarkdownCatalogue,
+  type CatalogueOptions,
+} from '@/lib/markdown-catalogue-generator';
+import { validateArchimateModel, validationReportToMarkdown } from '@/lib/archimate-validator';
+import { useArchimateModel } from '@/hooks/use-archimate-model';
+import { useModelLibrary } from '@/hooks/use-model-library';
 import { ScrollArea } from './ui/scroll-area';
+import ArchimateViewTree from './ArchimateViewTree';
+import ArchimateModelLibrary from './ArchimateModelLibrary';
+import ArchimateDiagramOptions from './ArchimateDiagramOptions';
+import ArchimateElementPicker from './ArchimateElementPicker';
+import ArchimateExpansionOptions from './ArchimateExpansionOptions';
+import MermaidDiagramPreview from './MermaidDiagramPreview';
+import ArchimateValidationReport from './ArchimateValidationReport';
+import ArchimateCatalogueOptions from './ArchimateCatalogueOptions';
+
+// Beyond this many elements Mermaid layouts become hard to read
+const MAX_LEGIBLE_ELEMENTS = 50;
 
 interface ArchimateGeneratorDialogProps {
   open: boolean;
@@ -27,36 +57,19 @@ export default function ArchimateGeneratorDialog({
   onOpenChange,
   onInsert,
 }: ArchimateGeneratorDialogProps) {
-  const [model, setModel] = useState<ArchimateModel | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [selectedModelId, setSelectedModelId] = useState<string | null>(null);
+  const { model, isLoading: isModelLoading, error: modelError } = useArchimateModel(selectedModelId);
+  const { models: storedModels } = useModelLibrary();
   const [selectedViews, setSelectedViews] = useState<string[]>([]);
   const [selectedEntityTypes, setSelectedEntityTypes] = useState<string[]>([]);
   const [selectedRelationshipTypes, setSelectedRelationshipTypes] = useState<string[]>([]);
+  const [selectedElements, setSelectedElements] = useState<string[]>([]);
+  const [neighborhoodOptions, setNeighborhoodOptions] = useState<NeighborhoodOptions>(DEFAULT_NEIGHBORHOOD_OPTIONS);
+  const [generatorOptions, setGeneratorOptions] = useState<Required<MermaidGeneratorOptions>>(DEFAULT_GENERATOR_OPTIONS);
+  const [catalogueOptions, setCatalogueOptions] = useState<Required<CatalogueOptions>>(DEFAULT_CATALOGUE_OPTIONS);
+  const [showValidation, setShowValidation] = useState(false);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) {
-      setError('No file selected.');
-      return;
-    }
-
-    const reader = new FileReader();
-    reader.onload = () => {
-      try {
-        const xmlContent = reader.result as string;
-        const parsedModel = parseArchimateXML(xmlContent);
-        setModel(parsedModel);
-        setError(null);
-      } catch (err) {
-        console.error('Parsing error:', err);
-        setError('Failed to parse the XML file. Please check the file content.');
-      }
-    };
-    reader.onerror = () => {
-      setError('Error reading the file.');
-    };
-    reader.readAsText(file);
-  };
+  const selectedModelName = storedModels.find(stored => stored.id === selectedModelId)?.name ?? 'the selected model';
 
   const availableFilters = useMemo(() => {
     if (!model) return { entityTypes: [], relationshipTypes: [] };
@@ -94,6 +107,12 @@ export default function ArchimateGeneratorDialog({
     };
   }, [model, selectedViews]);
 
+  // Expansion may leave the selected views, so it offers every relationship type of the model
+  const modelRelationshipTypes = useMemo(
+    () => (model ? Array.from(new Set(model.relationships.map(rel => rel.type))).sort() : []),
+    [model]
+  );
+
   // Update selected types when available filters change
   React.useEffect(() => {
     setSelectedEntityTypes(prev => prev.filter(t => availableFilters.entityTypes.includes(t)));
@@ -101,54 +120,35 @@ export default function ArchimateGeneratorDialog({
   }, [availableFilters]);
 
 
+  // The selection as stored in linked diagram blocks
+  const diagramSettings: ArchimateDiagramSettings = useMemo(() => ({
+    views: selectedViews,
+    entityTypes: selectedEntityTypes,
+    relationshipTypes: selectedRelationshipTypes,
+    elements: selectedElements,
+    neighborhood: neighborhoodOptions,
+    options: generatorOptions,
+  }), [selectedViews, selectedEntityTypes, selectedRelationshipTypes, selectedElements, neighborhoodOptions, generatorOptions]);
+
   // Memoize the final filtered results for the preview
   const filteredResult = useMemo(() => {
-    if (!model) return { entities: [], relationships: [], entityCounts: {}, relationshipCounts: {} };
+    if (!model) return { entities: [], relationships: [], views: [], entityCounts: {}, relationshipCounts: {} };
 
-    // 1. Get all entities from selected views (or all entities if no view is selected)
-    let entitiesInViews: ArchimateElement[] = [];
-    if (selectedViews.length > 0) {
-      const elementIdsInViews = new Set<string>();
-      selectedViews.forEach(viewId => {
-        model.views.get(viewId)?.elementRefs.forEach(id => elementIdsInViews.add(id));
-      });
-      entitiesInViews = Array.from(elementIdsInViews)
-        .map(id => model.elements.get(id))
-        .filter((el): el is ArchimateElement => !!el);
-    } else {
-      entitiesInViews = Array.from(model.elements.values());
-    }
+    const selection = selectArchimateDiagram(model, diagramSettings);
 
-    // 2. Filter those entities by the selected entity types
-    const filteredEntities = entitiesInViews.filter(entity =>
-      selectedEntityTypes.includes(entity.type)
-    );
-    const filteredEntityIds = new Set(filteredEntities.map(e => e.identifier));
-
-    // 3. Filter relationships where both source and target are in the filtered entities list
-    const relationshipsInScope = model.relationships.filter(
-      rel => filteredEntityIds.has(rel.source) && filteredEntityIds.has(rel.target)
-    );
-
-    // 4. Further filter relationships by selected relationship types
-    const filteredRelationships = relationshipsInScope.filter(rel =>
-      selectedRelationshipTypes.includes(rel.type)
-    );
-    
-    // 5. Calculate counts for the summary
-    const entityCounts = filteredEntities.reduce((acc, curr) => {
+    // Calculate counts for the summary
+    const entityCounts = selection.entities.reduce((acc, curr) => {
         acc[curr.type] = (acc[curr.type] || 0) + 1;
         return acc;
     }, {} as Record<string, number>);
 
-    const relationshipCounts = filteredRelationships.reduce((acc, curr) => {
+    const relationshipCounts = selection.relationships.reduce((acc, curr) => {
         acc[curr.type] = (acc[curr.type] || 0) + 1;
         return acc;
     }, {} as Record<string, number>);
 
-
-    return { entities: filteredEntities, relationships: filteredRelationships, entityCounts, relationshipCounts };
-  }, [model, selectedViews, selectedEntityTypes, selectedRelationshipTypes]);
+    return { ...selection, entityCounts, relationshipCounts };
+  }, [model, diagramSettings]);
 
 
   const handleCheckboxChange = (
@@ -164,15 +164,36 @@ export default function ArchimateGeneratorDialog({
     }
   };
   
-  const handleInsert = () => {
-    if (!model) return;
+  // The generated diagram, kept in sync with the filters for the live preview
+  const mermaidScript = useMemo(() => {
+    if (!model) return '';
 
-    const { entities, relationships } = filteredResult;
-    if (entities.length === 0) return;
+    return generateLinkedScript(filteredResult, diagramSettings);
+  }, [model, filteredResult, diagramSettings]);
 
-    const mermaidScript = generateMermaidFromArchimate(entities, relationships);
+  const handleInsert = () => {
+    if (!model || filteredResult.entities.length === 0) return;
     onInsert('```mermaid\n' + mermaidScript + '\n```');
   };
+
+  // The same selection as Markdown tables, for document catalogues
+  const catalogueMarkdown = useMemo(
+    () => (model ? generateMarkdownCatalogue(filteredResult.entities, filteredResult.relationships, catalogueOptions) : ''),
+    [model, filteredResult, catalogueOptions]
+  );
+
+  const handleInsertTable = () => {
+    if (!model || filteredResult.entities.length === 0) return;
+    onInsert(catalogueMarkdown + '\n');
+  };
+
+  // Validation covers the whole model, not just the filtered selection
+  const validationReport = useMemo(() => (model ? validateArchimateModel(model) : null), [model]);
+
+  const handleInsertReport = () => {
+    if (!validationReport) return;
+    onInsert(`**Model validation: ${selectedModelName}**\n\n${validationReportToMarkdown(validationReport)}\n`);
+  };
   
   const allViews = model ? Array.from(model.views.values()).sort((a,b) => a.name.localeCompare(b.name)) : [];
 
@@ -182,92 +203,80 @@ export default function ArchimateGeneratorDialog({
         <DialogHeader>
           <DialogTitle>Generate Mermaid Diagram from Archimate Model</DialogTitle>
           <DialogDescription>
-            Upload an Archimate XML file to generate a diagram.
+            Pick a model from your library, or upload an ArchiMate exchange XML file or an Archi .archimate model, to generate a diagram.
           </DialogDescription>
         </DialogHeader>
 
-        {!model && (
-          <div className="flex flex-col items-center justify-center flex-grow border-2 border-dashed border-border rounded-lg p-6 bg-muted">
-            <UploadCloud className="w-12 h-12 text-primary mb-4" />
-            <p className="text-sm text-muted-foreground mb-2">Drag and drop your XML file here, or</p>
-            <label htmlFor="file-upload" className="cursor-pointer">
-              <Button variant="outline" onClick={() => document.getElementById('file-upload')?.click()}>
-                Browse Files
-              </Button>
-            </label>
-            <input
-              id="file-upload"
-              type="file"
-              accept=".xml"
-              className="hidden"
-              onChange={(event) => {
-                console.log('File upload triggered'); // Debugging log
-                handleFileUpload(event);
-              }}
-            />
-            {error && (
-              <div className="mt-4 p-3 border border-destructive rounded bg-red-50 text-destructive">
-                <p className="text-sm">{error}</p>
+        {!selectedModelId && (
+          <ScrollArea className="flex-grow min-h-0">
+            <div className="pr-6">
+              <ArchimateModelLibrary selectedModelId={selectedModelId} onSelectModel={setSelectedModelId} />
+            </div>
+          </ScrollArea>
+        )}
+
+        {selectedModelId && (
+          <div className="flex items-center justify-between p-4 border rounded bg-muted">
+            <p className="text-sm text-muted-foreground">
+              {isModelLoading && 'Loading model...'}
+              {modelError && <span className="text-destructive">{modelError.message}</span>}
+              {model && !isModelLoading && (
+                <>Generating from <span className="font-medium text-foreground">{selectedModelName}</span>.</>
+              )}
+            </p>
+            <div className="flex items-center gap-2">
+              {validationReport && (
                 <Button
-                  variant="outline"
+                  variant={showValidation ? 'secondary' : 'outline'}
                   size="sm"
-                  className="mt-2"
-                  onClick={() => {
-                    setError(null); // Clear the error
-                    document.getElementById('file-upload')?.click(); // Trigger file upload again
-                  }}
+                  onClick={() => setShowValidation(!showValidation)}
                 >
-                  Try Again
+                  <ClipboardCheck className="mr-2 h-4 w-4" />
+                  {showValidation
+                    ? 'Back to Diagram'
+                    : `Validation (${validationReport.errorCount} errors, ${validationReport.warningCount} warnings)`}
                 </Button>
-              </div>
-            )}
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setSelectedModelId(null); // Go back to the model library
+                  setShowValidation(false); // Start the next model on the diagram
+                  setSelectedViews([]); // Reset selected views
+                  setSelectedEntityTypes([]); // Reset selected entity types
+                  setSelectedRelationshipTypes([]); // Reset selected relationship types
+                  setSelectedElements([]); // Reset picked elements
+                  setNeighborhoodOptions(DEFAULT_NEIGHBORHOOD_OPTIONS); // Reset neighborhood expansion
+                  setCatalogueOptions(DEFAULT_CATALOGUE_OPTIONS); // Property columns belong to the old model
+                }}
+              >
+                Change Model
+              </Button>
+            </div>
           </div>
         )}
 
-        {model && (
-          <div className="flex items-center justify-between p-4 border rounded bg-muted">
-            <p className="text-sm text-muted-foreground">You can now generate a diagram.</p>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => {
-                setModel(null); // Clear the current model
-                setSelectedViews([]); // Reset selected views
-                setSelectedEntityTypes([]); // Reset selected entity types
-                setSelectedRelationshipTypes([]); // Reset selected relationship types
-              }}
-            >
-              Replace File
-            </Button>
-          </div>
+        {selectedModelId && validationReport && showValidation && (
+          <ScrollArea className="flex-grow min-h-0">
+            <div className="pr-6">
+              <ArchimateValidationReport report={validationReport} />
+            </div>
+          </ScrollArea>
         )}
 
-        {model && (
+        {selectedModelId && model && !showValidation && (
           <ScrollArea className="flex-grow min-h-0">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 pr-6">
               {/* Views Column */}
               <div className="flex flex-col gap-4 border-r pr-6">
                 <h3 className="font-semibold text-lg">1. Select Views</h3>
-                <p className="text-sm text-muted-foreground">Select one or more views to narrow down the available elements. If no view is selected, all elements will be available.</p>
-                <div className="space-y-2">
-                  {Array.from(model.views.values()).map(view => (
-                    <div key={view.identifier} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={`view-${view.identifier}`}
-                        checked={selectedViews.includes(view.identifier)}
-                        onCheckedChange={checked =>
-                          handleCheckboxChange(
-                            selectedViews,
-                            setSelectedViews,
-                            view.identifier,
-                            !!checked
-                          )
-                        }
-                      />
-                      <Label htmlFor={`view-${view.identifier}`} className="font-normal cursor-pointer">{view.name}</Label>
-                    </div>
-                  ))}
-                </div>
+                <p className="text-sm text-muted-foreground">Select one or more views, or whole folders, to narrow down the available elements. If no view is selected, all elements will be available.</p>
+                <ArchimateViewTree
+                  model={model}
+                  selectedViews={selectedViews}
+                  onSelectedViewsChange={setSelectedViews}
+                />
               </div>
 
               {/* Filters Column */}
@@ -318,12 +327,77 @@ export default function ArchimateGeneratorDialog({
                       ))}
                     </div>
                   </div>
+                  <div className="flex flex-col gap-2">
+                    <h4 className="font-medium">Elements</h4>
+                    <p className="text-sm text-muted-foreground">Pick individual elements to add them to the diagram, from any view.</p>
+                    <ArchimateElementPicker
+                      model={model}
+                      selectedElements={selectedElements}
+                      onSelectedElementsChange={setSelectedElements}
+                    />
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <h4 className="font-medium">Expand Neighborhood</h4>
+                    <p className="text-sm text-muted-foreground">Add the elements up to N relationships away from the selection, even outside the selected views.</p>
+                    <ArchimateExpansionOptions
+                      relationshipTypes={modelRelationshipTypes}
+                      options={neighborhoodOptions}
+                      onOptionsChange={setNeighborhoodOptions}
+                    />
+                  </div>
                 </div>
               </div>
 
               {/* Preview Column */}
               <div className="flex flex-col gap-4">
-                <h3 className="font-semibold text-lg">3. Preview Summary</h3>
+                <h3 className="font-semibold text-lg">3. Diagram Options</h3>
+                <ArchimateDiagramOptions options={generatorOptions} onOptionsChange={setGeneratorOptions} />
+                <h3 className="font-semibold text-lg">4. Preview</h3>
+                {filteredResult.entities.length > MAX_LEGIBLE_ELEMENTS && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Large diagram</AlertTitle>
+                    <AlertDescription>
+                      {filteredResult.entities.length} elements are selected. Diagrams with more than {MAX_LEGIBLE_ELEMENTS} elements are
+                      hard to lay out legibly; consider narrowing the selection.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <Tabs defaultValue="diagram">
+                  <TabsList>
+                    <TabsTrigger value="diagram">Diagram</TabsTrigger>
+                    <TabsTrigger value="source">Source</TabsTrigger>
+                    <TabsTrigger value="table">Table</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="diagram" className="border rounded-lg p-2 bg-card">
+                    {filteredResult.entities.length > 0 ? (
+                      <MermaidDiagramPreview source={mermaidScript} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground p-2">Select elements to see the diagram.</p>
+                    )}
+                  </TabsContent>
+                  <TabsContent value="source">
+                    <Textarea
+                      readOnly
+                      value={mermaidScript}
+                      className="font-code text-xs h-64"
+                      aria-label="Generated Mermaid source"
+                    />
+                  </TabsContent>
+                  <TabsContent value="table" className="flex flex-col gap-4">
+                    <ArchimateCatalogueOptions
+                      propertyKeys={cataloguePropertyKeys(filteredResult.entities)}
+                      options={catalogueOptions}
+                      onOptionsChange={setCatalogueOptions}
+                    />
+                    <Textarea
+                      readOnly
+                      value={catalogueMarkdown}
+                      className="font-code text-xs h-64"
+                      aria-label="Generated Markdown table"
+                    />
+                  </TabsContent>
+                </Tabs>
                 <div className="p-4 bg-muted rounded-lg text-sm space-y-4">
                   <div>
                     <h4 className="font-medium">Total Entities: {filteredResult.entities.length}</h4>
@@ -351,9 +425,20 @@ export default function ArchimateGeneratorDialog({
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleInsert} disabled={!model}>
-            Insert to Editor
-          </Button>
+          {showValidation ? (
+            <Button onClick={handleInsertReport} disabled={!validationReport}>
+              Insert Report
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleInsertTable} disabled={!model}>
+                Insert as Table
+              </Button>
+              <Button onClick={handleInsert} disabled={!model}>
+                Insert to Editor
+              </Button>
+            </>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
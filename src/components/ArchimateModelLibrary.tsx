@@ -0,0 +1,278 @@
+import React, { useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { FileUp, RefreshCw, Trash2, UploadCloud } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useModelLibrary } from '@/hooks/use-model-library';
+import {
+  describeParseError,
+  readArchimateFile,
+  type ArchimateFileContent,
+  type ParseDiagnostic,
+} from '@/lib/archimate-file';
+import {
+  addStoredModel,
+  deleteStoredModel,
+  replaceStoredModel,
+  type StoredModelSummary,
+} from '@/lib/model-library';
+import { cn } from '@/lib/utils';
+import ArchimateParseDiagnostic from './ArchimateParseDiagnostic';
+
+interface ArchimateModelLibraryProps {
+  selectedModelId: string | null;
+  onSelectModel: (modelId: string) => void;
+}
+
+interface FileDiagnostic {
+  fileName: string;
+  diagnostic: ParseDiagnostic;
+}
+
+const modelNameFromFile = (fileName: string) => fileName.replace(/\.(xml|archimate)$/i, '');
+
+const readFailure = (fileName: string, err: unknown): FileDiagnostic => ({
+  fileName,
+  diagnostic: describeParseError(err, ''),
+});
+
+export default function ArchimateModelLibrary({ selectedModelId, onSelectModel }: ArchimateModelLibraryProps) {
+  const { models, isLoading, error: libraryError } = useModelLibrary();
+  const [newModelName, setNewModelName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<FileDiagnostic[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [replaceTarget, setReplaceTarget] = useState<StoredModelSummary | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<StoredModelSummary | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+
+  // Add every model found in the files; archives may hold several, and one bad file does not stop the rest
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const failures: FileDiagnostic[] = [];
+    const added: string[] = [];
+    for (const file of files) {
+      let sources: ArchimateFileContent[];
+      try {
+        sources = await readArchimateFile(file);
+      } catch (err) {
+        console.error('Reading error:', err);
+        failures.push(readFailure(file.name, err));
+        continue;
+      }
+
+      for (const source of sources) {
+        // A typed name only makes sense for a single model
+        const name = files.length === 1 && sources.length === 1 && newModelName.trim();
+        try {
+          const stored = await addStoredModel(name || modelNameFromFile(source.fileName), source.fileName, source.content);
+          added.push(stored.id);
+        } catch (err) {
+          console.error('Parsing error:', err);
+          failures.push({ fileName: source.fileName, diagnostic: describeParseError(err, source.content) });
+        }
+      }
+    }
+
+    setDiagnostics(failures);
+    setError(null);
+    if (added.length > 0) {
+      setNewModelName('');
+      onSelectModel(added[0]);
+    }
+  };
+
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    uploadFiles(files);
+  };
+
+  const handleReplace = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !replaceTarget) return;
+
+    let source: ArchimateFileContent | undefined;
+    try {
+      const sources = await readArchimateFile(file);
+      if (sources.length > 1) {
+        throw new Error(`"${file.name}" contains ${sources.length} models. Replace with a single model file.`);
+      }
+      source = sources[0];
+      await replaceStoredModel(replaceTarget.id, source.fileName, source.content);
+      setDiagnostics([]);
+      setError(null);
+    } catch (err) {
+      console.error('Parsing error:', err);
+      setDiagnostics([
+        source
+          ? { fileName: source.fileName, diagnostic: describeParseError(err, source.content) }
+          : readFailure(file.name, err),
+      ]);
+      setError(`Failed to replace "${replaceTarget.name}".`);
+    } finally {
+      setReplaceTarget(null);
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Moving over a child element also fires dragleave on the drop zone
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    uploadFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteStoredModel(deleteTarget.id);
+    } catch (err) {
+      console.error('Delete error:', err);
+      setError(`Failed to delete "${deleteTarget.name}".`);
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div
+        className={cn(
+          'flex flex-col items-center justify-center border-2 border-dashed border-border rounded-lg p-6 bg-muted',
+          isDragging && 'border-primary bg-accent/20'
+        )}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        <UploadCloud className="w-12 h-12 text-primary mb-4" />
+        <div className="flex w-full max-w-md items-end gap-2">
+          <div className="flex flex-col gap-2 flex-grow">
+            <Label htmlFor="library-model-name" className="font-medium">Model name</Label>
+            <Input
+              id="library-model-name"
+              value={newModelName}
+              onChange={event => setNewModelName(event.target.value)}
+              placeholder="Defaults to the file name"
+            />
+          </div>
+          <Button variant="outline" onClick={() => uploadInputRef.current?.click()}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Upload Models
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground mt-2">
+          Drop ArchiMate exchange .xml, Archi .archimate or .zip files here
+        </p>
+        <input
+          ref={uploadInputRef}
+          type="file"
+          accept=".xml,.archimate,.zip"
+          multiple
+          className="hidden"
+          onChange={handleUpload}
+        />
+        <input
+          ref={replaceInputRef}
+          type="file"
+          accept=".xml,.archimate,.zip"
+          className="hidden"
+          onChange={handleReplace}
+        />
+      </div>
+
+      {(error || libraryError || diagnostics.length > 0) && (
+        <div className="flex flex-col gap-3 p-3 border border-destructive rounded bg-red-50 text-destructive">
+          {(error || libraryError) && <p className="text-sm">{error ?? libraryError?.message}</p>}
+          {diagnostics.map((failure, index) => (
+            <ArchimateParseDiagnostic key={index} fileName={failure.fileName} diagnostic={failure.diagnostic} />
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <h4 className="font-medium">Model Library</h4>
+        {!isLoading && models.length === 0 && (
+          <p className="text-sm text-muted-foreground">No models stored yet. Upload one to get started.</p>
+        )}
+        {models.map(stored => (
+          <div
+            key={stored.id}
+            className={cn(
+              'flex items-center justify-between gap-4 rounded-lg border p-3',
+              stored.id === selectedModelId && 'border-primary bg-muted'
+            )}
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">{stored.name}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {stored.fileName} · uploaded {formatDistanceToNow(stored.uploadedAt, { addSuffix: true })}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button size="sm" onClick={() => onSelectModel(stored.id)}>
+                Use
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Replace with a newer file"
+                onClick={() => {
+                  setReplaceTarget(stored);
+                  replaceInputRef.current?.click();
+                }}
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" title="Delete" onClick={() => setDeleteTarget(stored)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={open => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The model is removed from the library. Diagrams already inserted in the document are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { ParseDiagnostic } from '@/lib/archimate-file';
+
+interface ArchimateParseDiagnosticProps {
+  fileName: string;
+  diagnostic: ParseDiagnostic;
+}
+
+export default function ArchimateParseDiagnostic({ fileName, diagnostic }: ArchimateParseDiagnosticProps) {
+  return (
+    <div className="text-sm">
+      <p>
+        <span className="font-medium">{fileName}</span>
+        {diagnostic.line !== null && (
+          <span>
+            {' '}
+            — line {diagnostic.line}
+            {diagnostic.column !== null && `, column ${diagnostic.column}`}
+          </span>
+        )}
+      </p>
+      <p>{diagnostic.message}</p>
+      {diagnostic.excerpt !== null && diagnostic.excerptColumn !== null && (
+        <pre className="mt-1 overflow-x-auto rounded bg-muted p-2 font-code text-xs text-foreground">
+          {diagnostic.excerpt}
+          {'\n'}
+          {' '.repeat(diagnostic.excerptColumn)}^
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useArchimateModel } from '@/hooks/use-archimate-model';
+import {
+  diffDiagramNodes,
+  generateLinkedDiagram,
+  readDiagramSettings,
+} from '@/lib/archimate-diagram-link';
+import ArchimateModelLibrary from './ArchimateModelLibrary';
+
+interface ArchimateRegenerateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Script of the linked Mermaid block being regenerated */
+  script: string | null;
+  onRegenerate: (script: string) => void;
+}
+
+export default function ArchimateRegenerateDialog({
+  open,
+  onOpenChange,
+  script,
+  onRegenerate,
+}: ArchimateRegenerateDialogProps) {
+  const [selectedModelId, setSelectedModelId] = useState<string | null>(null);
+  const { model, error } = useArchimateModel(selectedModelId);
+
+  // Every regeneration starts by choosing the model again
+  useEffect(() => {
+    if (open) {
+      setSelectedModelId(null);
+    }
+  }, [open]);
+
+  const settings = useMemo(() => (script ? readDiagramSettings(script) : null), [script]);
+
+  const regenerated = useMemo(() => {
+    if (!model || !settings || !script) return null;
+    const newScript = generateLinkedDiagram(model, settings);
+    const missingViews = settings.views.filter(viewId => !model.views.has(viewId));
+    return { script: newScript, diff: diffDiagramNodes(script, newScript), missingViews };
+  }, [model, settings, script]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Regenerate Diagram from Archimate Model</DialogTitle>
+          <DialogDescription>
+            Pick or upload the current version of the model. The diagram is generated again with the views, filters
+            and options it was created with.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!regenerated && (
+          <ScrollArea className="max-h-96">
+            <div className="pr-4">
+              <ArchimateModelLibrary selectedModelId={selectedModelId} onSelectModel={setSelectedModelId} />
+              {error && <p className="text-sm text-destructive mt-2">{error.message}</p>}
+            </div>
+          </ScrollArea>
+        )}
+
+        {regenerated && (
+          <ScrollArea className="max-h-80">
+            <div className="flex flex-col gap-4 text-sm pr-4">
+              {regenerated.missingViews.length > 0 && (
+                <p className="text-destructive">
+                  {regenerated.missingViews.length} of the original views no longer exist in this model.
+                </p>
+              )}
+              {regenerated.diff.added.length === 0 && regenerated.diff.removed.length === 0 ? (
+                <p className="text-muted-foreground">No nodes were added or removed.</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <h4 className="font-medium">Added ({regenerated.diff.added.length})</h4>
+                    <ul className="mt-1 space-y-1 font-code text-green-600">
+                      {regenerated.diff.added.map(node => (
+                        <li key={node.id}>+ {node.label}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div>
+                    <h4 className="font-medium">Removed ({regenerated.diff.removed.length})</h4>
+                    <ul className="mt-1 space-y-1 font-code text-destructive">
+                      {regenerated.diff.removed.map(node => (
+                        <li key={node.id}>- {node.label}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {regenerated && (
+            <Button variant="outline" onClick={() => setSelectedModelId(null)}>
+              Change Model
+            </Button>
+          )}
+          <Button onClick={() => regenerated && onRegenerate(regenerated.script)} disabled={!regenerated}>
+            Replace Diagram
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
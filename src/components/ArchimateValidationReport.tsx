@@ -0,0 +1,54 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { VALIDATION_RULE_LABELS, type ValidationReport } from '@/lib/archimate-validator';
+
+interface ArchimateValidationReportProps {
+  report: ValidationReport;
+}
+
+export default function ArchimateValidationReport({ report }: ArchimateValidationReportProps) {
+  if (report.issues.length === 0) {
+    return <p className="text-sm text-muted-foreground">No validation issues found.</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-sm text-muted-foreground">
+        {report.errorCount} error{report.errorCount === 1 ? '' : 's'} and {report.warningCount} warning
+        {report.warningCount === 1 ? '' : 's'}.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Severity</TableHead>
+            <TableHead>Check</TableHead>
+            <TableHead>Subject</TableHead>
+            <TableHead>Details</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.issues.map(issue => (
+            <TableRow key={`${issue.rule}-${issue.subject}`}>
+              <TableCell>
+                <Badge variant={issue.severity === 'error' ? 'destructive' : 'secondary'}>
+                  {issue.severity === 'error' ? 'Error' : 'Warning'}
+                </Badge>
+              </TableCell>
+              <TableCell>{VALIDATION_RULE_LABELS[issue.rule]}</TableCell>
+              <TableCell className="font-medium">{issue.subjectLabel}</TableCell>
+              <TableCell className="text-muted-foreground">{issue.message}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
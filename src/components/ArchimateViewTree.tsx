@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { ChevronRight, Folder } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { ArchimateFolder, ArchimateModel, ArchimateView } from '@/lib/archimate-parser';
+
+interface ViewTreeFolder {
+  key: string;
+  label: string;
+  folders: ViewTreeFolder[];
+  views: ArchimateView[];
+  /** Identifiers of every view in this folder and its subfolders */
+  viewIds: string[];
+}
+
+interface ArchimateViewTreeProps {
+  model: ArchimateModel;
+  selectedViews: string[];
+  onSelectedViewsChange: (viewIds: string[]) => void;
+}
+
+const byName = (a: ArchimateView, b: ArchimateView) => a.name.localeCompare(b.name);
+
+/**
+ * Keep only the folders that (transitively) hold views, and record which views were filed.
+ */
+function buildViewFolders(
+  folders: ArchimateFolder[],
+  model: ArchimateModel,
+  filed: Set<string>,
+  parentKey: string
+): ViewTreeFolder[] {
+  return folders
+    .map((folder, index) => {
+      const key = folder.identifier ?? `${parentKey}/${index}`;
+      const subfolders = buildViewFolders(folder.folders, model, filed, key);
+      const views = folder.itemRefs
+        .map(ref => model.views.get(ref))
+        .filter((view): view is ArchimateView => !!view)
+        .sort(byName);
+      views.forEach(view => filed.add(view.identifier));
+      const viewIds = [
+        ...views.map(view => view.identifier),
+        ...subfolders.flatMap(subfolder => subfolder.viewIds),
+      ];
+      return { key, label: folder.label || 'Unnamed folder', folders: subfolders, views, viewIds };
+    })
+    .filter(folder => folder.viewIds.length > 0);
+}
+
+export default function ArchimateViewTree({
+  model,
+  selectedViews,
+  onSelectedViewsChange,
+}: ArchimateViewTreeProps) {
+  const tree = useMemo(() => {
+    const filed = new Set<string>();
+    const folders = buildViewFolders(model.organizations, model, filed, 'root');
+    // Views that no folder references are listed at the top level
+    const views = Array.from(model.views.values())
+      .filter(view => !filed.has(view.identifier))
+      .sort(byName);
+    return { folders, views };
+  }, [model]);
+
+  const selected = useMemo(() => new Set(selectedViews), [selectedViews]);
+
+  const toggleViews = (viewIds: string[], checked: boolean) => {
+    if (checked) {
+      onSelectedViewsChange([...selectedViews, ...viewIds.filter(id => !selected.has(id))]);
+    } else {
+      const removed = new Set(viewIds);
+      onSelectedViewsChange(selectedViews.filter(id => !removed.has(id)));
+    }
+  };
+
+  const renderView = (view: ArchimateView) => (
+    <div key={view.identifier} className="flex items-center space-x-2 pl-6">
+      <Checkbox
+        id={`view-${view.identifier}`}
+        checked={selected.has(view.identifier)}
+        onCheckedChange={checked => toggleViews([view.identifier], !!checked)}
+      />
+      <Label htmlFor={`view-${view.identifier}`} className="font-normal cursor-pointer">{view.name}</Label>
+    </div>
+  );
+
+  const renderFolder = (folder: ViewTreeFolder, depth: number) => {
+    const selectedCount = folder.viewIds.filter(id => selected.has(id)).length;
+    const checkedState =
+      selectedCount === 0 ? false : selectedCount === folder.viewIds.length ? true : 'indeterminate';
+
+    return (
+      <Collapsible key={folder.key} defaultOpen={depth === 0} className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <CollapsibleTrigger className="group flex items-center text-muted-foreground hover:text-foreground">
+            <ChevronRight className="h-4 w-4 transition-transform group-data-[state=open]:rotate-90" />
+          </CollapsibleTrigger>
+          <Checkbox
+            id={`folder-${folder.key}`}
+            checked={checkedState}
+            onCheckedChange={checked => toggleViews(folder.viewIds, checked === true)}
+          />
+          <Label htmlFor={`folder-${folder.key}`} className="flex items-center gap-1 cursor-pointer">
+            <Folder className="h-4 w-4 text-muted-foreground" />
+            {folder.label}
+            <span className="text-xs text-muted-foreground">({folder.viewIds.length})</span>
+          </Label>
+        </div>
+        <CollapsibleContent className="space-y-2 pl-4">
+          {folder.folders.map(subfolder => renderFolder(subfolder, depth + 1))}
+          {folder.views.map(renderView)}
+        </CollapsibleContent>
+      </Collapsible>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {tree.folders.map(folder => renderFolder(folder, 0))}
+      {tree.views.map(renderView)}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useRef } from 'react';
+import { render, fireEvent } from '@testing-library/react';
+import CodeMirrorEditor, { type CodeMirrorEditorRef } from './CodeMirrorEditor';
+import { useScrollSync } from '@/hooks/use-scroll-sync';
+
+// The gutters draw their icons with react-dom/server, which needs a TextEncoder jsdom lacks
+jest.mock('react-dom/server', () => ({ renderToStaticMarkup: () => '<svg></svg>' }));
+
+// Give an element the scroll geometry jsdom does not lay out
+const setScrollGeometry = (element: HTMLElement, scrollHeight: number, clientHeight: number) => {
+  Object.defineProperty(element, 'scrollHeight', { configurable: true, value: scrollHeight });
+  Object.defineProperty(element, 'clientHeight', { configurable: true, value: clientHeight });
+  let scrollTop = 0;
+  Object.defineProperty(element, 'scrollTop', {
+    configurable: true,
+    get: () => scrollTop,
+    set: (value: number) => {
+      scrollTop = value;
+    },
+  });
+};
+
+function SyncedPanes() {
+  const editorRef = useRef<CodeMirrorEditorRef>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const { handleEditorScroll } = useScrollSync(editorRef, previewRef);
+
+  return (
+    <>
+      <CodeMirrorEditor
+        ref={editorRef}
+        value={'# Title\n\nText'}
+        onChange={jest.fn()}
+        mermaidErrors={[]}
+        onPlusClick={jest.fn()}
+        onDescribeMermaid={jest.fn()}
+        onRegenerateMermaid={jest.fn()}
+        onExportMermaid={jest.fn()}
+        onScroll={handleEditorScroll}
+      />
+      <div data-testid="preview" ref={previewRef}>
+        <h1 data-line-number="1" data-line-end="1">Title</h1>
+        <p data-line-number="3" data-line-end="3">Text</p>
+      </div>
+    </>
+  );
+}
+
+describe('CodeMirrorEditor', () => {
+  test('scrolls the preview along when the editor scrolls', () => {
+    const { container, getByTestId } = render(<SyncedPanes />);
+    const scroller = container.querySelector<HTMLElement>('.cm-scroller')!;
+    const preview = getByTestId('preview');
+    setScrollGeometry(scroller, 1000, 200);
+    setScrollGeometry(preview, 3000, 500);
+
+    scroller.scrollTop = 800;
+    fireEvent.scroll(scroller);
+
+    expect(preview.scrollTop).toBe(2500);
+  });
+});
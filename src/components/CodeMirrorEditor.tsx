@@ -18,20 +18,29 @@ import { markdown } from '@codemirror/lang-markdown';
 import { history, defaultKeymap, historyKeymap } from '@codemirror/commands';
 import { keymap } from '@codemirror/view';
 
-import { useCodeMirrorGutters, type OnPlusClickCallback } from '@/hooks/use-codemirror-gutters';
+import {
+  useCodeMirrorGutters,
+  type OnPlusClickCallback,
+  type OnRegenerateMermaidCallback,
+  type OnExportMermaidCallback,
+} from '@/hooks/use-codemirror-gutters';
+import { useMermaidLint } from '@/hooks/use-mermaid-lint';
 import { useSelectionPosition } from '@/hooks/use-selection-position';
 import { useFormattingIslandPosition } from '@/hooks/use-selection-with-mouse-tracking';
 import { useTextFormatting } from '@/hooks/use-text-formatting';
 import { useCursorStability } from '@/hooks/use-cursor-stability';
 import TextFormattingIsland from '@/components/TextFormattingIsland';
+import { mermaidLanguageDescription } from '@/lib/mermaid-language';
 import type { MermaidError } from '@/hooks/use-mermaid-validator';
 
 export interface CodeMirrorEditorProps {
   value: string;
   onChange: (value: string) => void;
-  mermaidError: MermaidError | null;
+  mermaidErrors: MermaidError[];
   onPlusClick: OnPlusClickCallback;
   onDescribeMermaid: (script: string, startIndex: number) => void;
+  onRegenerateMermaid: OnRegenerateMermaidCallback;
+  onExportMermaid: OnExportMermaidCallback;
   onScroll: () => void;
   isExternalScrolling?: boolean; // Hide formatting island when any external scroll happens
   isDescribeProcessing?: boolean; // show processing state on gutter describe icon
@@ -40,6 +49,10 @@ export interface CodeMirrorEditorProps {
 export interface CodeMirrorEditorRef {
   insertText: (text: string) => void;
   getView: () => EditorViewType | null;
+  /** Put the cursor at the start of a line (from 1) and scroll it into view */
+  goToLine: (line: number) => void;
+  /** Select a range of the document, scroll it into view and focus the editor */
+  selectRange: (from: number, to: number) => void;
 }
 
 const CodeMirrorEditor = forwardRef<
@@ -50,9 +63,11 @@ const CodeMirrorEditor = forwardRef<
     {
       value,
       onChange,
-      mermaidError,
+      mermaidErrors,
       onPlusClick,
       onDescribeMermaid,
+      onRegenerateMermaid,
+      onExportMermaid,
       onScroll,
       isExternalScrolling = false,
       isDescribeProcessing = false,
@@ -86,13 +101,14 @@ const CodeMirrorEditor = forwardRef<
 
     const { formatState, hasSelection, toggleFormat } = useTextFormatting(editorView);
 
-    const updateListener = EditorView.updateListener.of(update => {
-      // Call onScroll on any view change - the parent will determine
-      // if it's an actual scroll based on viewport position
-      if (update.view) {
+    // Updates only follow viewport changes, so listen to the scroller itself
+    const scrollListener = EditorView.domEventHandlers({
+      scroll: () => {
         onScroll();
-      }
-      
+      },
+    });
+
+    const updateListener = EditorView.updateListener.of(update => {
       // Detect scrolling and hide the formatting island
       // Island will not reappear until cursor/selection moves again
       if (update.viewportChanged) {
@@ -137,12 +153,16 @@ const CodeMirrorEditor = forwardRef<
     }, []);
 
     const { customGutterExtension } = useCodeMirrorGutters(
-      mermaidError,
+      mermaidErrors,
       onPlusClick,
       onDescribeMermaid,
+      onRegenerateMermaid,
+      onExportMermaid,
       isDescribeProcessing
     );
 
+    const { mermaidLintExtension } = useMermaidLint(editorView, mermaidErrors);
+
     useImperativeHandle(ref, () => ({
       insertText: (text: string) => {
         const view = editorRef.current?.view;
@@ -156,6 +176,31 @@ const CodeMirrorEditor = forwardRef<
         }
       },
       getView: () => editorRef.current?.view || null,
+      goToLine: (line: number) => {
+        const view = editorRef.current?.view;
+        if (view) {
+          const { doc } = view.state;
+          const { from } = doc.line(Math.min(Math.max(line, 1), doc.lines));
+          view.dispatch({
+            selection: { anchor: from },
+            effects: EditorView.scrollIntoView(from, { y: 'center' }),
+          });
+          view.focus();
+        }
+      },
+      selectRange: (from: number, to: number) => {
+        const view = editorRef.current?.view;
+        if (view) {
+          const length = view.state.doc.length;
+          const anchor = Math.min(Math.max(from, 0), length);
+          const head = Math.min(Math.max(to, anchor), length);
+          view.dispatch({
+            selection: { anchor, head },
+            effects: EditorView.scrollIntoView(anchor, { y: 'center' }),
+          });
+          view.focus();
+        }
+      },
     }));
     
     // All theme related styles are now in globals.css
@@ -174,10 +219,12 @@ const CodeMirrorEditor = forwardRef<
 
     const extensions = [
       customTheme,
-      markdown(),
+      markdown({ codeLanguages: [mermaidLanguageDescription] }),
       history(),
       keymap.of([...defaultKeymap, ...historyKeymap]),
       ...customGutterExtension,
+      ...mermaidLintExtension,
+      scrollListener,
       updateListener,
       EditorView.lineWrapping,
     ];
@@ -2,15 +2,24 @@
 
 import { useEffect, useRef } from 'react';
 import { cn } from '@/lib/utils';
+import { LINE_NUMBER_ATTRIBUTE, renderMarkdown } from '@/lib/markdown-pipeline';
+import { patchPreview, renderMermaidDiagrams, type MermaidSvgCache } from '@/lib/preview-blocks';
+import { findPreviewSourceRange, type SourceRange } from '@/lib/preview-source';
 
 interface MarkdownPreviewProps {
   className?: string;
   markdown: string;
+  /** Called with the first source line (from 1) of a clicked block */
+  onLineClick?: (line: number) => void;
+  /** Called with the source range of a double-clicked element or diagram node */
+  onSourceSelect?: (range: SourceRange) => void;
 }
 
-export default function MarkdownPreview({ markdown, className }: MarkdownPreviewProps) {
+export default function MarkdownPreview({ markdown, className, onLineClick, onSourceSelect }: MarkdownPreviewProps) {
   const previewRef = useRef<HTMLDivElement>(null);
   const isInitialized = useRef(false);
+  // Rendered diagrams by source hash, so unchanged diagrams are not laid out again
+  const svgCacheRef = useRef<MermaidSvgCache>(new Map());
 
   useEffect(() => {
     if (typeof window.mermaid !== 'undefined' && !isInitialized.current) {
@@ -36,39 +45,45 @@ export default function MarkdownPreview({ markdown, className }: MarkdownPreview
   }, []);
 
   useEffect(() => {
-    if (previewRef.current && typeof window.marked !== 'undefined' && isInitialized.current) {
-      
-      const rawHtml = window.marked.parse(markdown);
-      
-      const tempDiv = document.createElement('div');
-      tempDiv.innerHTML = rawHtml;
+    const preview = previewRef.current;
+    if (!preview) return;
 
-      const codeBlocks = tempDiv.querySelectorAll('pre > code.language-mermaid');
-      codeBlocks.forEach(block => {
-        const pre = block.parentElement;
-        if (pre) {
-          const mermaidDiv = document.createElement('div');
-          mermaidDiv.className = 'mermaid';
-          mermaidDiv.textContent = block.textContent || '';
-          pre.replaceWith(mermaidDiv);
-        }
-      });
-      
-      previewRef.current.innerHTML = tempDiv.innerHTML;
-      
-      if(typeof window.mermaid !== 'undefined') {
-        try {
-            window.mermaid.run();
-        } catch(e) {
-            console.error("Error rendering mermaid diagram:", e);
-        }
-      }
+    // Only blocks whose HTML changed are replaced; mermaid fences come out as div.mermaid
+    patchPreview(preview, renderMarkdown(markdown));
+
+    if (typeof window.mermaid !== 'undefined' && isInitialized.current) {
+      renderMermaidDiagrams(preview, (id, script) => window.mermaid.render(id, script), svgCacheRef.current)
+        .then(failed => {
+          // Let Mermaid draw its error graphic into diagrams that did not render
+          if (failed.length > 0) return window.mermaid.run({ nodes: failed });
+        })
+        .catch(e => console.error("Error rendering mermaid diagram:", e));
     }
   }, [markdown]);
 
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onLineClick) return;
+    const target = event.target as Element;
+    // Following a link or selecting text is not a jump to the source
+    if (target.closest('a') || window.getSelection()?.toString()) return;
+    const block = target.closest(`[${LINE_NUMBER_ATTRIBUTE}]`);
+    if (block) onLineClick(Number(block.getAttribute(LINE_NUMBER_ATTRIBUTE)));
+  };
+
+  const handleDoubleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSourceSelect) return;
+    const range = findPreviewSourceRange(event.target as Element, markdown);
+    if (!range) return;
+    // The word the double-click selected in the preview is replaced by the source selection
+    window.getSelection()?.removeAllRanges();
+    onSourceSelect(range);
+  };
+
   return (
     <div
       ref={previewRef}
+      onClick={handleClick}
+      onDoubleClick={handleDoubleClick}
       id="printable-area"
       className={cn('prose-styles p-8 w-full max-w-none animate-in fade-in duration-300', className)}
     />
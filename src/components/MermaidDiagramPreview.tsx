@@ -0,0 +1,60 @@
+"use client";
+
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { useDebounce } from 'use-debounce';
+import { cn } from '@/lib/utils';
+import { describeMermaidError } from '@/lib/mermaid-blocks';
+
+interface MermaidDiagramPreviewProps {
+  /** Mermaid source of a single diagram */
+  source: string;
+  className?: string;
+}
+
+/**
+ * Renders one Mermaid diagram, re-rendering shortly after the source stops changing.
+ * Syntax errors are shown in place of the diagram.
+ */
+export default function MermaidDiagramPreview({ source, className }: MermaidDiagramPreviewProps) {
+  const [debouncedSource] = useDebounce(source, 300);
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const baseId = `mermaid-preview-${useId().replace(/[^A-Za-z0-9_-]/g, '')}`;
+  const renderCount = useRef(0);
+
+  useEffect(() => {
+    if (typeof window.mermaid === 'undefined') return;
+    let cancelled = false;
+
+    const render = async () => {
+      try {
+        // Mermaid needs a fresh element id for every render
+        renderCount.current += 1;
+        const { svg: rendered } = await window.mermaid.render(`${baseId}-${renderCount.current}`, debouncedSource);
+        if (cancelled) return;
+        setSvg(rendered);
+        setError(null);
+      } catch (e: unknown) {
+        if (cancelled) return;
+        setSvg(null);
+        setError(describeMermaidError(e).message);
+      }
+    };
+    render();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSource, baseId]);
+
+  if (error) {
+    return <pre className={cn('text-sm text-destructive whitespace-pre-wrap', className)}>{error}</pre>;
+  }
+
+  return (
+    <div
+      className={cn('[&>svg]:max-w-full [&>svg]:h-auto', className)}
+      dangerouslySetInnerHTML={{ __html: svg ?? '' }}
+    />
+  );
+}
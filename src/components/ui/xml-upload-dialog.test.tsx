@@ -7,20 +7,20 @@ describe('XMLUploadDialog', () => {
     expect(screen.getByText('Upload Archimate XML File')).toBeInTheDocument();
   });
 
-  test('shows error for unsupported file type', () => {
+  test('shows error for unsupported file type', async () => {
     render(<XMLUploadDialog />);
     const fileInput = screen.getByLabelText(/upload/i);
     const file = new File(['content'], 'test.txt', { type: 'text/plain' });
 
     fireEvent.change(fileInput, { target: { files: [file] } });
 
-    expect(screen.getByText('Please upload a valid XML file.')).toBeInTheDocument();
+    expect(await screen.findByText('Please upload a valid XML file.')).toBeInTheDocument();
   });
 
   test('parses valid XML file', async () => {
     render(<XMLUploadDialog />);
     const fileInput = screen.getByLabelText(/upload/i);
-    const validXML = '<root><element identifier="1" xsi:type="type1"><name>Element 1</name></element></root>';
+    const validXML = '<model xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><element identifier="1" xsi:type="type1"><name>Element 1</name></element></model>';
     const file = new File([validXML], 'test.xml', { type: 'text/xml' });
 
     fireEvent.change(fileInput, { target: { files: [file] } });
@@ -38,4 +38,41 @@ describe('XMLUploadDialog', () => {
 
     expect(await screen.findByText('Failed to parse the XML file. Please check the file content.')).toBeInTheDocument();
   });
+
+  test('accepts XML regardless of the reported MIME type', async () => {
+    render(<XMLUploadDialog />);
+    const fileInput = screen.getByLabelText(/upload/i);
+    const file = new File(['<archimate:model xmlns:archimate="http://www.archimatetool.com/archimate"/>'], 'model.archimate', { type: '' });
+
+    fireEvent.change(fileInput, { target: { files: [file] } });
+
+    expect(await screen.findByText('File uploaded and parsed successfully!')).toBeInTheDocument();
+  });
+
+  test('reports unsupported files along with the other failures', async () => {
+    render(<XMLUploadDialog />);
+    const fileInput = screen.getByLabelText(/upload/i);
+    const files = [
+      new File(['<model>\n  <elements>\n</model>'], 'broken.xml', { type: 'text/xml' }),
+      new File(['content'], 'notes.txt', { type: 'text/plain' }),
+      new File(['<model/>'], 'valid.xml', { type: 'text/xml' }),
+    ];
+
+    fireEvent.change(fileInput, { target: { files } });
+
+    expect(await screen.findByText('Failed to parse the XML file. Please check the file content.')).toBeInTheDocument();
+    expect(screen.getByText('broken.xml')).toBeInTheDocument();
+    expect(screen.getByText('notes.txt')).toBeInTheDocument();
+    expect(screen.queryByText('valid.xml')).not.toBeInTheDocument();
+  });
+
+  test('shows the line of malformed XML', async () => {
+    render(<XMLUploadDialog />);
+    const fileInput = screen.getByLabelText(/upload/i);
+    const file = new File(['<root>\n  <element>\n</root>'], 'test.xml', { type: 'text/xml' });
+
+    fireEvent.change(fileInput, { target: { files: [file] } });
+
+    expect(await screen.findByText(/line 3/)).toBeInTheDocument();
+  });
 });
\ No newline at end of file
@@ -1,49 +1,107 @@
 import React, { useState } from 'react';
-import { parseArchimateXML } from '../../lib/archimate-parser';
+import { parseArchimateModel } from '../../lib/archimate-parser';
+import { describeParseError, detectFileFormat, readArchimateFile, type ParseDiagnostic } from '../../lib/archimate-file';
+import ArchimateParseDiagnostic from '../ArchimateParseDiagnostic';
+
+interface FileDiagnostic {
+  fileName: string;
+  diagnostic: ParseDiagnostic;
+}
 
 const XMLUploadDialog: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<FileDiagnostic[]>([]);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) {
+  const uploadFiles = async (files: File[]) => {
+    setSuccessMessage(null);
+    setDiagnostics([]);
+    if (files.length === 0) {
       setError('No file selected.');
       return;
     }
 
-    if (file.type !== 'text/xml') {
-      setError('Please upload a valid XML file.');
-      return;
-    }
-
-    const reader = new FileReader();
-    reader.onload = () => {
+    const failures: FileDiagnostic[] = [];
+    let unsupportedCount = 0;
+    let parsedCount = 0;
+    for (const file of files) {
       try {
-        const xmlContent = reader.result as string;
-        const parsedData = parseArchimateXML(xmlContent);
-        console.log('Parsed Data:', parsedData);
-        setSuccessMessage('File uploaded and parsed successfully!');
-        setError(null);
+        if ((await detectFileFormat(file)) === 'unknown') {
+          unsupportedCount++;
+          failures.push({
+            fileName: file.name,
+            diagnostic: describeParseError(new Error('The file is neither XML nor a zip archive.'), ''),
+          });
+          continue;
+        }
+        for (const source of await readArchimateFile(file)) {
+          try {
+            parseArchimateModel(source.content);
+            parsedCount++;
+          } catch (err) {
+            failures.push({ fileName: source.fileName, diagnostic: describeParseError(err, source.content) });
+          }
+        }
       } catch (err) {
-        console.error('Parsing error:', err);
-        setError('Failed to parse the XML file. Please check the file content.');
+        failures.push({ fileName: file.name, diagnostic: describeParseError(err, '') });
       }
-    };
-    reader.onerror = () => {
-      setError('Error reading the file.');
-    };
-    reader.readAsText(file);
+    }
+
+    setDiagnostics(failures);
+    if (failures.length > 0) {
+      setError(
+        unsupportedCount === failures.length
+          ? 'Please upload a valid XML file.'
+          : 'Failed to parse the XML file. Please check the file content.'
+      );
+    } else {
+      setError(null);
+      setSuccessMessage(
+        parsedCount === 1 ? 'File uploaded and parsed successfully!' : `${parsedCount} models uploaded and parsed successfully!`
+      );
+    }
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    uploadFiles(Array.from(event.target.files ?? []));
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    uploadFiles(Array.from(event.dataTransfer.files));
   };
 
   return (
-    <div className="xml-upload-dialog">
+    <div
+      className={`xml-upload-dialog${isDragging ? ' dragging' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <h2>Upload Archimate XML File</h2>
-      <input type="file" accept=".xml" onChange={handleFileUpload} />
+      <label htmlFor="xml-upload-input">Drop or upload .xml, .archimate or .zip files</label>
+      <input id="xml-upload-input" type="file" accept=".xml,.archimate,.zip" multiple onChange={handleFileUpload} />
       {error && <p className="error-message">{error}</p>}
+      {diagnostics.map((failure, index) => (
+        <ArchimateParseDiagnostic key={index} fileName={failure.fileName} diagnostic={failure.diagnostic} />
+      ))}
       {successMessage && <p className="success-message">{successMessage}</p>}
     </div>
   );
 };
 
-export default XMLUploadDialog;
\ No newline at end of file
+export default XMLUploadDialog;
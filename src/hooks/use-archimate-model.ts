@@ -1,9 +1,7 @@
 
 import { useState, useEffect } from 'react';
-import {
-  parseArchimateXML,
-  type ArchimateModel,
-} from '@/lib/archimate-parser';
+import type { ArchimateModel } from '@/lib/archimate-parser';
+import { loadArchimateModel, subscribeToModelLibrary } from '@/lib/model-library';
 
 interface UseArchimateModelReturn {
   model: ArchimateModel | null;
@@ -11,33 +9,47 @@ interface UseArchimateModelReturn {
   error: Error | null;
 }
 
-export function useArchimateModel(): UseArchimateModelReturn {
+/**
+ * Load a model from the model library, reloading it when it is replaced.
+ * Pass null to load nothing.
+ */
+export function useArchimateModel(modelId: string | null): UseArchimateModelReturn {
   const [model, setModel] = useState<ArchimateModel | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<Error | null>(null);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => subscribeToModelLibrary(() => setRevision(r => r + 1)), []);
 
   useEffect(() => {
-    const fetchAndParseModel = async () => {
+    if (!modelId) {
+      setModel(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadModel = async () => {
       try {
         setIsLoading(true);
-        const response = await fetch('/archimate.xml');
-        if (!response.ok) {
-          throw new Error(`Failed to fetch archimate.xml: ${response.statusText}`);
-        }
-        const xmlString = await response.text();
-        const parsedModel = parseArchimateXML(xmlString);
-        setModel(parsedModel);
+        const loadedModel = await loadArchimateModel(modelId);
+        if (cancelled) return;
+        setModel(loadedModel);
+        setError(loadedModel ? null : new Error('The model is no longer in the library.'));
       } catch (err) {
+        if (cancelled) return;
+        setModel(null);
         setError(err instanceof Error ? err : new Error('An unknown error occurred during parsing'));
       } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsLoading(false);
       }
     };
 
-    fetchAndParseModel();
-  }, []); 
+    loadModel();
+    return () => {
+      cancelled = true;
+    };
+  }, [modelId, revision]);
 
   return { model, isLoading, error };
 }
-
-    
\ No newline at end of file
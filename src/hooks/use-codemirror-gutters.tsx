@@ -4,15 +4,17 @@
 import { useMemo } from 'react';
 import { gutter, GutterMarker, EditorView, lineNumbers } from '@codemirror/view';
 import { StateField, StateEffect, RangeSet, type Range, type EditorState } from '@codemirror/state';
-import { AlertCircle, Sparkles, Plus, type LucideProps } from 'lucide-react';
+import { AlertCircle, Sparkles, Plus, RefreshCw, Download, type LucideProps } from 'lucide-react';
 import { renderToString } from 'react-dom/server';
 import type { MermaidError } from '@/hooks/use-mermaid-validator';
+import { readDiagramSettings } from '@/lib/archimate-diagram-link';
+import { findMermaidBlockAt as findMermaidBlockInText } from '@/lib/mermaid-blocks';
 
 // --- Marker and State Effect Definitions ---
 
 export class IconMarker extends GutterMarker {
   constructor(
-    public readonly iconName: 'plus' | 'error' | 'describe',
+    public readonly iconName: 'plus' | 'error' | 'describe' | 'regenerate' | 'export',
     public readonly message: string | null,
     public readonly isProcessing: boolean = false
   ) {
@@ -34,6 +36,12 @@ export class IconMarker extends GutterMarker {
     } else if (this.iconName === 'error') {
       icon = renderToString(<AlertCircle {...iconProps} />);
       className += ' text-destructive';
+    } else if (this.iconName === 'regenerate') {
+      icon = renderToString(<RefreshCw {...iconProps} />);
+      className += ' text-muted-foreground hover:text-foreground';
+    } else if (this.iconName === 'export') {
+      icon = renderToString(<Download {...iconProps} />);
+      className += ' text-muted-foreground hover:text-foreground';
     } else { // describe
       icon = renderToString(<Sparkles {...iconProps} />);
       className += ' text-primary hover:text-primary/80';
@@ -46,6 +54,7 @@ export class IconMarker extends GutterMarker {
     const dom = document.createElement('div');
     dom.innerHTML = icon;
     dom.className = `cm-gutter-icon ${className}`;
+    dom.dataset.icon = this.iconName;
     dom.style.display = 'flex';
     dom.style.alignItems = 'center';
     dom.style.justifyContent = 'center';
@@ -58,21 +67,8 @@ export class IconMarker extends GutterMarker {
 }
 
 export const findMermaidBlockAt = (state: EditorState, pos: number) => {
-  const doc = state.doc.toString();
-  const mermaidRegex = /```mermaid\n([\s\S]*?)\n```/g;
-  let match;
-  while ((match = mermaidRegex.exec(doc)) !== null) {
-    const startIndex = match.index;
-    const endIndex = startIndex + match[0].length;
-    if (pos >= startIndex && pos <= endIndex) {
-      return {
-        from: startIndex,
-        to: endIndex,
-        script: match[1],
-      };
-    }
-  }
-  return null;
+  const block = findMermaidBlockInText(state.doc.toString(), pos);
+  return block ? { from: block.startCharIndex, to: block.endCharIndex, script: block.script } : null;
 };
 
 
@@ -87,10 +83,22 @@ export type OnPlusClickCallback = (cursorPos: {
   lineContent: string;
 }) => void;
 
+/**
+ * Callback for the regenerate icon of a Mermaid block generated from an Archimate model
+ */
+export type OnRegenerateMermaidCallback = (block: { from: number; to: number; script: string }) => void;
+
+/**
+ * Callback for the export icon of a Mermaid flowchart, which converts it to an Archimate model
+ */
+export type OnExportMermaidCallback = (script: string) => void;
+
 export const useCodeMirrorGutters = (
-  mermaidError: MermaidError | null,
+  mermaidErrors: MermaidError[],
   onPlusClick: OnPlusClickCallback,
   onDescribeMermaid: (script: string, startIndex: number) => void,
+  onRegenerateMermaid: OnRegenerateMermaidCallback,
+  onExportMermaid: OnExportMermaidCallback,
   describeProcessing: boolean = false
 ) => {
   const customGutterExtension = useMemo(() => {
@@ -107,14 +115,14 @@ export const useCodeMirrorGutters = (
 
         const newMarkers: Range<GutterMarker>[] = [];
         
-        // 1. Handle Mermaid Error Marker
-        if (mermaidError) {
+        // 1. Handle Mermaid Error Markers, one per failing block, on the line Mermaid reported
+        mermaidErrors.forEach(mermaidError => {
           try {
-            const errorLine = tr.state.doc.lineAt(mermaidError.startCharIndex);
+            const errorLine = tr.state.doc.lineAt(mermaidError.from);
             const marker = new IconMarker('error', mermaidError.message);
             newMarkers.push(marker.range(errorLine.from));
           } catch (e) {}
-        }
+        });
         
         // 2. Handle Contextual Plus/Describe Marker
         const cursorPos = tr.state.selection.main.head;
@@ -125,6 +133,14 @@ export const useCodeMirrorGutters = (
       const blockStartLine = tr.state.doc.lineAt(mermaidBlock.from);
       const marker = new IconMarker('describe', describeProcessing ? 'AI processing...' : 'Describe with AI', describeProcessing);
       newMarkers.push(marker.range(blockStartLine.from));
+      // Blocks that carry their generation settings can be regenerated from a newer model
+      if (readDiagramSettings(mermaidBlock.script)) {
+        newMarkers.push(new IconMarker('regenerate', 'Regenerate from Archimate model').range(blockStartLine.from));
+      }
+      // Only flowcharts can be read back into an Archimate model
+      if (/^\s*(graph|flowchart)\b/.test(mermaidBlock.script.replace(/^\s*%%.*$/gm, ''))) {
+        newMarkers.push(new IconMarker('export', 'Export as Archimate exchange XML').range(blockStartLine.from));
+      }
     } else {
       const marker = new IconMarker('plus', 'Insert content...');
       newMarkers.push(marker.range(cursorLine.from));
@@ -143,7 +159,8 @@ export const useCodeMirrorGutters = (
         domEventHandlers: {
             mousedown(view, line, event) {
                 const target = event.target as HTMLElement;
-                if (!target.closest('.cm-gutter-icon')) return false;
+                const clickedIcon = target.closest<HTMLElement>('.cm-gutter-icon');
+                if (!clickedIcon) return false;
 
                 // Stop event propagation to prevent other handlers from firing
                 event.preventDefault();
@@ -154,6 +171,8 @@ export const useCodeMirrorGutters = (
                 
                 view.state.field(markerStateField).between(pos, pos, (from, to, marker) => {
                     const iconMarker = marker as IconMarker;
+                    // A line can hold several icons; only act on the one that was clicked
+                    if (clickedIcon.dataset.icon !== iconMarker.iconName) return;
                      if (iconMarker.iconName === 'plus') {
                         // Get line content for insert menu
                         const cursorLine = view.state.doc.lineAt(pos);
@@ -177,6 +196,18 @@ export const useCodeMirrorGutters = (
                             onDescribeMermaid(mermaidBlock.script, mermaidBlock.from);
                             handled = true;
                         }
+                     } else if (iconMarker.iconName === 'regenerate') {
+                        const mermaidBlock = findMermaidBlockAt(view.state, pos);
+                        if (mermaidBlock) {
+                            onRegenerateMermaid(mermaidBlock);
+                            handled = true;
+                        }
+                     } else if (iconMarker.iconName === 'export') {
+                        const mermaidBlock = findMermaidBlockAt(view.state, pos);
+                        if (mermaidBlock) {
+                            onExportMermaid(mermaidBlock.script);
+                            handled = true;
+                        }
                      }
                 });
                 return handled;
@@ -184,7 +215,7 @@ export const useCodeMirrorGutters = (
         }
       }),
     ]
-  }, [mermaidError, onPlusClick, onDescribeMermaid, describeProcessing]);
+  }, [mermaidErrors, onPlusClick, onDescribeMermaid, onRegenerateMermaid, onExportMermaid, describeProcessing]);
 
   return { customGutterExtension };
 };
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { keymap, type EditorView } from '@codemirror/view';
+import {
+  linter,
+  lintKeymap,
+  previousDiagnostic,
+  setDiagnostics,
+  type Diagnostic,
+} from '@codemirror/lint';
+import type { MermaidError } from '@/hooks/use-mermaid-validator';
+
+/**
+ * Turn Mermaid errors into lint diagnostics underlining the offending line.
+ * Errors are computed from a debounced copy of the document, so ranges past
+ * its current end are clamped rather than dropped.
+ */
+export function mermaidErrorsToDiagnostics(errors: MermaidError[], docLength: number): Diagnostic[] {
+  return errors.map(error => {
+    const from = Math.min(error.from, docLength);
+    return {
+      from,
+      to: Math.min(Math.max(error.to, from), docLength),
+      severity: 'error',
+      source: error.line === null ? 'Mermaid' : `Mermaid, diagram line ${error.line}`,
+      message: error.message,
+    };
+  });
+}
+
+/**
+ * Show Mermaid errors through CodeMirror's lint UI: underlines, the diagnostics
+ * panel (Ctrl/Cmd-Shift-M) and F8 / Shift-F8 to jump to the next or previous error.
+ */
+export const useMermaidLint = (view: EditorView | null, mermaidErrors: MermaidError[]) => {
+  // Diagnostics are pushed from the validator, so the lint extension runs without a source
+  const mermaidLintExtension = useMemo(
+    () => [linter(null), keymap.of([...lintKeymap, { key: 'Shift-F8', run: previousDiagnostic }])],
+    []
+  );
+
+  useEffect(() => {
+    if (!view) return;
+    view.dispatch(setDiagnostics(view.state, mermaidErrorsToDiagnostics(mermaidErrors, view.state.doc.length)));
+  }, [view, mermaidErrors]);
+
+  return { mermaidLintExtension };
+};
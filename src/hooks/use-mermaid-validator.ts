@@ -1,68 +1,41 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useDebounce } from 'use-debounce';
+import {
+  findMermaidBlocks,
+  validateMermaidBlocks,
+  type MermaidError,
+  type MermaidValidationCache,
+} from '@/lib/mermaid-blocks';
 
-export interface MermaidError {
-  message: string;
-  startCharIndex: number;
-  endCharIndex: number;
-}
-
-const findFirstMermaidBlock = (markdown: string) => {
-  const mermaidRegex = /```mermaid\n([\s\S]*?)\n```/;
-  const match = markdown.match(mermaidRegex);
-  
-  if (match) {
-    const startIndex = match.index || 0;
-    return {
-      script: match[1],
-      startCharIndex: startIndex,
-      endCharIndex: startIndex + match[0].length,
-    };
-  }
-  return null;
-};
-
+export type { MermaidError } from '@/lib/mermaid-blocks';
 
 export function useMermaidValidator(
   markdown: string,
-): { mermaidError: MermaidError | null } {
-  const [mermaidError, setMermaidError] = useState<MermaidError | null>(null);
+): { mermaidErrors: MermaidError[] } {
+  const [mermaidErrors, setMermaidErrors] = useState<MermaidError[]>([]);
   const [debouncedMarkdown] = useDebounce(markdown, 500);
+  // Results of earlier runs, so unchanged blocks are not parsed again
+  const cacheRef = useRef<MermaidValidationCache>(new Map());
 
   useEffect(() => {
+    let cancelled = false;
+
     const validate = async () => {
       if (typeof window.mermaid === 'undefined') return;
 
-      const block = findFirstMermaidBlock(debouncedMarkdown);
-
-      if (!block) {
-        setMermaidError(null);
-        return;
-      }
-
-      const { script, startCharIndex, endCharIndex } = block;
-      
-      try {
-        if (script.trim() === '') {
-            setMermaidError(null);
-            return;
-        }
-        await window.mermaid.parse(script);
-        setMermaidError(null);
-      } catch (error: any) {
-        const errorMessage: string = error.str || error.message || 'Unknown Mermaid error';
-        
-        setMermaidError({
-          message: errorMessage,
-          startCharIndex: startCharIndex,
-          endCharIndex: endCharIndex,
-        });
-      }
+      const blocks = findMermaidBlocks(debouncedMarkdown);
+      const errors = await validateMermaidBlocks(blocks, script => window.mermaid.parse(script), cacheRef.current);
+      // A newer run has started while this one was parsing
+      if (cancelled) return;
+      setMermaidErrors(errors);
     };
 
     validate();
+    return () => {
+      cancelled = true;
+    };
   }, [debouncedMarkdown]);
 
-  return { mermaidError };
+  return { mermaidErrors };
 }
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import {
+  listStoredModels,
+  subscribeToModelLibrary,
+  type StoredModelSummary,
+} from '@/lib/model-library';
+
+interface UseModelLibraryReturn {
+  /** Stored models, most recently uploaded first */
+  models: StoredModelSummary[];
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * List the models in the model library, staying up to date as models are added, replaced or deleted.
+ */
+export function useModelLibrary(): UseModelLibraryReturn {
+  const [models, setModels] = useState<StoredModelSummary[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const storedModels = await listStoredModels();
+        if (cancelled) return;
+        setModels(storedModels);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to read the model library'));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    refresh();
+    const unsubscribe = subscribeToModelLibrary(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { models, isLoading, error };
+}
@@ -6,27 +6,26 @@
  * semaphore-based locking mechanism.
  *
  * Key Features:
- * - Line-number-based mapping instead of percentage-based
+ * - Line-based mapping through the preview's data-line-number anchors
+ *   instead of scroll percentages
+ * - Positions inside a block are interpolated, so tall diagrams and tables
+ *   do not make the panes drift apart
  * - Semaphore locks to prevent scroll loops
- * - Graceful error handling for missing elements
  * - Debounced lock release to prevent thrashing
  *
  * Usage:
  * ```tsx
- * const { canEditorScroll, canPreviewScroll, getTopVisibleLineInEditor, ... } =
- *   useScrollSync(150); // 150ms debounce window
+ * const { handleEditorScroll, handlePreviewScroll, acquireLock } =
+ *   useScrollSync(editorRef, previewWrapperRef);
  *
- * const handleEditorScroll = () => {
- *   if (!canEditorScroll()) return;
- *   const lineNum = getTopVisibleLineInEditor(editorView);
- *   syncToPreview(lineNum);
- *   acquireLock('editor');
- * };
+ * <CodeMirrorEditor ref={editorRef} onScroll={handleEditorScroll} ... />
+ * <div ref={previewWrapperRef} onScroll={handlePreviewScroll}>...</div>
  * ```
  */
 
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, useEffect, type RefObject } from 'react';
 import type { EditorView as EditorViewType } from '@codemirror/view';
+import { collectScrollAnchors, lineToScrollOffset, scrollOffsetToLine } from '@/lib/scroll-anchors';
 
 /**
  * Configuration options for the scroll sync hook
@@ -41,21 +40,28 @@ interface ScrollSyncConfig {
   debounceMs?: number;
 }
 
+/**
+ * Anything that can hand out the editor's view, such as the CodeMirrorEditor ref
+ */
+interface EditorViewSource {
+  getView: () => EditorViewType | null;
+}
+
 /**
  * Return type for the useScrollSync hook
  */
 export interface UseScrollSyncReturn {
   /**
-   * Check if the editor can initiate a scroll sync.
-   * Returns false if preview is currently scrolling.
+   * Scroll the preview to the editor's position.
+   * Call it from the editor's scroll events; it does nothing unless the
+   * editor's offset actually changed.
    */
-  canEditorScroll: () => boolean;
+  handleEditorScroll: () => void;
 
   /**
-   * Check if the preview can initiate a scroll sync.
-   * Returns false if editor is currently scrolling.
+   * Scroll the editor to the preview's position.
    */
-  canPreviewScroll: () => boolean;
+  handlePreviewScroll: () => void;
 
   /**
    * Acquire a scroll lock for the given direction.
@@ -65,22 +71,19 @@ export interface UseScrollSyncReturn {
   acquireLock: (direction: 'editor' | 'preview') => void;
 
   /**
-   * Get the line number of the topmost visible line in the editor.
-   * This is the source of truth for editor scroll position.
+   * Get the source line at the top of the editor.
    *
    * @param editorView The CodeMirror EditorView instance
-   * @returns Line number (1-indexed) or null if editor not available
+   * @returns Fractional line number (1-indexed) or null if editor not available
    */
-  getTopVisibleLineInEditor: (
-    editorView: EditorViewType | null
-  ) => number | null;
+  getTopVisibleLineInEditor: (editorView: EditorViewType | null) => number | null;
 
   /**
-   * Get the line number of the topmost visible element in the preview.
+   * Get the source line at the top of the preview.
    * Uses data-line-number attributes on preview elements.
    *
-   * @param previewEl The preview container div
-   * @returns Line number (0-indexed) or null if no element found
+   * @param previewEl The scrolling preview container
+   * @returns Fractional line number (1-indexed) or null if no element found
    */
   getTopVisibleLineInPreview: (previewEl: HTMLElement | null) => number | null;
 
@@ -91,16 +94,26 @@ export interface UseScrollSyncReturn {
   resetLocks: () => void;
 }
 
+// Whether an element is scrolled to its end, allowing for subpixel positioning
+const isAtBottom = (element: HTMLElement) =>
+  element.scrollHeight - element.clientHeight - element.scrollTop <= 1;
+
 /**
  * Hook for managing bidirectional scroll synchronization.
  *
  * This hook provides the synchronization logic needed to keep the editor
  * and preview panes in sync when the user scrolls either one.
  *
+ * @param editorRef Ref to the editor, giving access to its EditorView
+ * @param previewRef Ref to the scrolling element around the preview
  * @param config Optional configuration object
- * @returns Object with scroll sync methods and state checkers
+ * @returns Scroll handlers for both panes and lock controls
  */
-export function useScrollSync(config: ScrollSyncConfig = {}): UseScrollSyncReturn {
+export function useScrollSync(
+  editorRef: RefObject<EditorViewSource>,
+  previewRef: RefObject<HTMLElement>,
+  config: ScrollSyncConfig = {}
+): UseScrollSyncReturn {
   const debounceMs = config.debounceMs ?? 150;
 
   // Semaphore locks to prevent infinite scroll loops
@@ -108,20 +121,14 @@ export function useScrollSync(config: ScrollSyncConfig = {}): UseScrollSyncRetur
   const isPreviewScrolling = useRef(false);
   const lockTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  /**
-   * Check if editor scroll can proceed.
-   * Blocked if preview is currently scrolling.
-   */
-  const canEditorScroll = useCallback(() => {
-    return !isPreviewScrolling.current;
-  }, []);
+  // Last seen scroll offsets, to skip events that did not move a pane
+  const lastEditorScrollTop = useRef(0);
+  const lastPreviewScrollTop = useRef(0);
 
-  /**
-   * Check if preview scroll can proceed.
-   * Blocked if editor is currently scrolling.
-   */
-  const canPreviewScroll = useCallback(() => {
-    return !isEditorScrolling.current;
+  useEffect(() => {
+    return () => {
+      if (lockTimeoutRef.current) clearTimeout(lockTimeoutRef.current);
+    };
   }, []);
 
   /**
@@ -129,29 +136,21 @@ export function useScrollSync(config: ScrollSyncConfig = {}): UseScrollSyncRetur
    * This prevents the opposite pane from responding to scroll events.
    * The lock is automatically released after debounceMs to allow future syncs.
    *
-   * Implementation:
-   * 1. Set the appropriate lock flag
-   * 2. Clear any existing timeout
-   * 3. Schedule lock release after debounceMs
-   *
    * The debounce window allows the DOM to settle after programmatic scroll,
    * which prevents spurious scroll events from triggering another sync cycle.
    */
   const acquireLock = useCallback(
     (direction: 'editor' | 'preview') => {
-      // Set the lock
       if (direction === 'editor') {
         isEditorScrolling.current = true;
       } else {
         isPreviewScrolling.current = true;
       }
 
-      // Clear any existing timeout
       if (lockTimeoutRef.current) {
         clearTimeout(lockTimeoutRef.current);
       }
 
-      // Schedule lock release
       lockTimeoutRef.current = setTimeout(() => {
         isEditorScrolling.current = false;
         isPreviewScrolling.current = false;
@@ -162,120 +161,97 @@ export function useScrollSync(config: ScrollSyncConfig = {}): UseScrollSyncRetur
   );
 
   /**
-   * Get the top visible line number in the editor.
-   *
-   * Uses CodeMirror's viewport API:
-   * - editorView.viewport.from is the character position at the top
-   * - editorView.state.doc.lineAt() converts position to line number
+   * Get the source line at the top of the editor.
    *
-   * @param editorView CodeMirror EditorView instance
-   * @returns Line number (1-indexed) or null if unavailable
+   * Uses CodeMirror's height map: the line block at the height of the
+   * scroller's top edge, plus how far into that block the edge falls.
    */
   const getTopVisibleLineInEditor = useCallback(
     (editorView: EditorViewType | null): number | null => {
-      if (!editorView) {
-        console.warn(
-          '[ScrollSync] getTopVisibleLineInEditor: editorView not available'
-        );
-        return null;
-      }
+      if (!editorView) return null;
 
-      try {
-        const topVisibleLine = editorView.state.doc.lineAt(
-          editorView.viewport.from
-        );
-        return topVisibleLine.number;
-      } catch (error) {
-        console.error(
-          '[ScrollSync] Error getting top visible line in editor:',
-          error
-        );
-        return null;
-      }
+      const height = editorView.scrollDOM.getBoundingClientRect().top - editorView.documentTop;
+      const block = editorView.lineBlockAtHeight(Math.max(0, height));
+      const line = editorView.state.doc.lineAt(block.from).number;
+      const fraction = block.height > 0 ? (height - block.top) / block.height : 0;
+      return line + Math.min(Math.max(fraction, 0), 1);
     },
     []
   );
 
   /**
-   * Get the top visible line number in the preview.
-   *
-   * Algorithm:
-   * 1. Get all elements with data-line-number attribute
-   * 2. For each element, check if its top edge is at or below the preview pane's top
-   * 3. Return the line number of the first such element
-   *
-   * This works because:
-   * - Elements are in document order
-   * - Their top positions monotonically increase
-   * - We want the first element that's visible or below the viewport
-   *
-   * @param previewEl The preview container div
-   * @returns Line number (0-indexed) or null if no element found
+   * Get the source line at the top of the preview, interpolated between the
+   * data-line-number anchors around the scroll offset.
    */
   const getTopVisibleLineInPreview = useCallback(
     (previewEl: HTMLElement | null): number | null => {
-      if (!previewEl) {
-        console.warn(
-          '[ScrollSync] getTopVisibleLineInPreview: previewEl not available'
-        );
-        return null;
-      }
+      if (!previewEl) return null;
 
-      try {
-        const previewRect = previewEl.getBoundingClientRect();
-        const allLineElements = previewEl.querySelectorAll(
-          '[data-line-number]'
-        ) as NodeListOf<HTMLElement>;
-
-        if (allLineElements.length === 0) {
-          console.warn(
-            '[ScrollSync] No elements with data-line-number found in preview'
-          );
-          return null;
-        }
-
-        // Find first element at or below the viewport top
-        for (const element of allLineElements) {
-          const elementRect = element.getBoundingClientRect();
-
-          // Check if element is at or below the top of the viewport
-          // (allowing small tolerance for subpixel positioning)
-          if (elementRect.top >= previewRect.top - 1) {
-            const lineNumStr = element.getAttribute('data-line-number');
-            if (lineNumStr !== null) {
-              const lineNum = parseInt(lineNumStr, 10);
-              if (!isNaN(lineNum)) {
-                return lineNum;
-              }
-            }
-          }
-        }
-
-        // Fallback: return the last element if no element is above viewport
-        // This handles the case where user scrolls past all elements
-        if (allLineElements.length > 0) {
-          const lastElement = allLineElements[allLineElements.length - 1];
-          const lineNumStr = lastElement.getAttribute('data-line-number');
-          if (lineNumStr !== null) {
-            const lineNum = parseInt(lineNumStr, 10);
-            if (!isNaN(lineNum)) {
-              return lineNum;
-            }
-          }
-        }
-
-        return null;
-      } catch (error) {
-        console.error(
-          '[ScrollSync] Error getting top visible line in preview:',
-          error
-        );
-        return null;
-      }
+      const anchors = collectScrollAnchors(previewEl);
+      if (anchors.length === 0) return null;
+      return scrollOffsetToLine(anchors, previewEl.scrollTop);
     },
     []
   );
 
+  const handleEditorScroll = useCallback(() => {
+    const editorView = editorRef.current?.getView() ?? null;
+    const previewEl = previewRef.current;
+    if (!editorView || !previewEl) return;
+
+    const scrollTop = editorView.scrollDOM.scrollTop;
+    if (scrollTop === lastEditorScrollTop.current) return;
+    lastEditorScrollTop.current = scrollTop;
+    // The editor is following the preview
+    if (isPreviewScrolling.current) return;
+
+    let target: number;
+    if (isAtBottom(editorView.scrollDOM)) {
+      target = previewEl.scrollHeight - previewEl.clientHeight;
+    } else {
+      const line = getTopVisibleLineInEditor(editorView);
+      const anchors = collectScrollAnchors(previewEl);
+      if (line === null || anchors.length === 0) return;
+      target = lineToScrollOffset(anchors, line);
+    }
+
+    acquireLock('editor');
+    previewEl.scrollTop = target;
+    lastPreviewScrollTop.current = previewEl.scrollTop;
+  }, [editorRef, previewRef, acquireLock, getTopVisibleLineInEditor]);
+
+  const handlePreviewScroll = useCallback(() => {
+    const editorView = editorRef.current?.getView() ?? null;
+    const previewEl = previewRef.current;
+    if (!editorView || !previewEl) return;
+
+    const scrollTop = previewEl.scrollTop;
+    if (scrollTop === lastPreviewScrollTop.current) return;
+    lastPreviewScrollTop.current = scrollTop;
+    // The preview is following the editor
+    if (isEditorScrolling.current) return;
+
+    const scrollDOM = editorView.scrollDOM;
+    let target: number;
+    if (isAtBottom(previewEl)) {
+      target = scrollDOM.scrollHeight - scrollDOM.clientHeight;
+    } else {
+      const line = getTopVisibleLineInPreview(previewEl);
+      if (line === null) return;
+
+      const doc = editorView.state.doc;
+      const lineNumber = Math.min(Math.max(Math.floor(line), 1), doc.lines);
+      const block = editorView.lineBlockAt(doc.line(lineNumber).from);
+      // The document's offset inside the scroller, i.e. the editor's top padding
+      const documentOffset = editorView.documentTop - scrollDOM.getBoundingClientRect().top + scrollDOM.scrollTop;
+      target = documentOffset + block.top + (line - lineNumber) * block.height;
+    }
+
+    acquireLock('preview');
+    scrollDOM.scrollTop = target;
+    lastEditorScrollTop.current = scrollDOM.scrollTop;
+  }, [editorRef, previewRef, acquireLock, getTopVisibleLineInPreview]);
+
   /**
    * Manually reset all locks.
    * Used for emergency recovery if locks somehow get stuck.
@@ -288,13 +264,11 @@ export function useScrollSync(config: ScrollSyncConfig = {}): UseScrollSyncRetur
       clearTimeout(lockTimeoutRef.current);
       lockTimeoutRef.current = null;
     }
-
-    console.log('[ScrollSync] Locks reset');
   }, []);
 
   return {
-    canEditorScroll,
-    canPreviewScroll,
+    handleEditorScroll,
+    handlePreviewScroll,
     acquireLock,
     getTopVisibleLineInEditor,
     getTopVisibleLineInPreview,
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for linked, regenerable diagram blocks
+ */
+
+import {
+  diffDiagramNodes,
+  extractDiagramNodes,
+  generateLinkedDiagram,
+  readDiagramSettings,
+  selectArchimateDiagram,
+  type ArchimateDiagramSettings,
+} from '@/lib/archimate-diagram-link';
+import { DEFAULT_NEIGHBORHOOD_OPTIONS } from '@/lib/archimate-neighborhood';
+import { DEFAULT_GENERATOR_OPTIONS } from '@/lib/mermaid-generator';
+import type { ArchimateElement, ArchimateModel, ArchimateRelationship } from '@/lib/archimate-parser';
+
+const element = (identifier: string, name: string, type = 'ApplicationComponent'): ArchimateElement => ({
+  identifier,
+  type,
+  name,
+  documentation: null,
+  properties: {},
+});
+
+const relationship = (identifier: string, source: string, target: string, type = 'Serving'): ArchimateRelationship => ({
+  identifier,
+  type,
+  source,
+  target,
+  name: null,
+  documentation: null,
+  properties: {},
+});
+
+const buildModel = (elements: ArchimateElement[], relationships: ArchimateRelationship[]): ArchimateModel => ({
+  elements: new Map(elements.map(el => [el.identifier, el])),
+  relationships,
+  views: new Map([
+    ['v1', {
+      identifier: 'v1',
+      name: 'Landscape',
+      documentation: null,
+      properties: {},
+      nodes: [],
+      connections: [],
+      elementRefs: elements.map(el => el.identifier),
+    }],
+  ]),
+  propertyDefinitions: new Map(),
+  organizations: [],
+});
+
+const settings: ArchimateDiagramSettings = {
+  views: ['v1'],
+  entityTypes: ['ApplicationComponent'],
+  relationshipTypes: ['Serving'],
+  elements: [],
+  neighborhood: DEFAULT_NEIGHBORHOOD_OPTIONS,
+  options: { ...DEFAULT_GENERATOR_OPTIONS, direction: 'LR' },
+};
+
+const original = buildModel(
+  [element('crm', 'CRM'), element('erp', 'ERP'), element('db', 'Database', 'Node')],
+  [relationship('r1', 'erp', 'crm')]
+);
+
+describe('readDiagramSettings', () => {
+  it('should read back the settings embedded by generateLinkedDiagram', () => {
+    const script = generateLinkedDiagram(original, settings);
+
+    expect(script.startsWith('%% archimate-diagram {')).toBe(true);
+    expect(script.split('\n')[1]).toBe('graph LR;');
+    expect(readDiagramSettings(script)).toEqual(settings);
+  });
+
+  it('should ignore blocks that were not generated or carry broken settings', () => {
+    expect(readDiagramSettings('graph TD;\n  a --> b;')).toBeNull();
+    expect(readDiagramSettings('%% archimate-diagram {not json\ngraph TD;')).toBeNull();
+  });
+
+  it('should fill in defaults for settings missing from older blocks', () => {
+    const read = readDiagramSettings('%% archimate-diagram {"views":["v1"]}\ngraph TD;');
+    expect(read?.options).toEqual(DEFAULT_GENERATOR_OPTIONS);
+    expect(read?.neighborhood).toEqual(DEFAULT_NEIGHBORHOOD_OPTIONS);
+    expect(read?.entityTypes).toEqual([]);
+  });
+
+  it('should replace hand-edited values that are not allowed with their defaults', () => {
+    const stored = {
+      views: 'v1',
+      neighborhood: { hops: -2, relationshipTypes: 'Serving', direction: 'sideways' },
+      options: { direction: 'TD;\n  click a call alert()', format: 'gantt', edgeLabels: 'both', maxLabelLength: '20' },
+    };
+    const read = readDiagramSettings(`%% archimate-diagram ${JSON.stringify(stored)}\ngraph TD;`);
+
+    expect(read?.views).toEqual([]);
+    expect(read?.neighborhood).toEqual(DEFAULT_NEIGHBORHOOD_OPTIONS);
+    expect(read?.options).toEqual({ ...DEFAULT_GENERATOR_OPTIONS, edgeLabels: 'both' });
+    expect(() => generateLinkedDiagram(original, read!)).not.toThrow();
+  });
+});
+
+describe('selectArchimateDiagram', () => {
+  it('should apply the view, type and relationship filters', () => {
+    const selection = selectArchimateDiagram(original, settings);
+
+    expect(selection.entities.map(el => el.identifier).sort()).toEqual(['crm', 'erp']);
+    expect(selection.relationships.map(rel => rel.identifier)).toEqual(['r1']);
+    expect(selection.views.map(view => view.identifier)).toEqual(['v1']);
+  });
+});
+
+describe('diffDiagramNodes', () => {
+  it('should list the nodes gained and lost when regenerating against a newer model', () => {
+    const before = generateLinkedDiagram(original, settings);
+    const updated = buildModel(
+      [element('crm', 'CRM'), element('billing', 'Billing "v2"')],
+      [relationship('r2', 'billing', 'crm')]
+    );
+    const after = generateLinkedDiagram(updated, readDiagramSettings(before)!);
+
+    expect(diffDiagramNodes(before, after)).toEqual({
+      added: [{ id: 'billing', label: 'Billing "v2"' }],
+      removed: [{ id: 'erp', label: 'ERP' }],
+    });
+  });
+
+  it('should match nodes by Archimate identifier when collision suffixes move', () => {
+    const clashing = { ...settings, views: [] };
+    const before = generateLinkedDiagram(
+      buildModel([element('app-1', 'CRM'), element('app_1', 'ERP')], []),
+      clashing
+    );
+    const after = generateLinkedDiagram(buildModel([element('app_1', 'ERP')], []), clashing);
+
+    expect(extractDiagramNodes(before).map(node => node.id)).toEqual(['app_1', 'app_1_2']);
+    expect(diffDiagramNodes(before, after)).toEqual({
+      added: [],
+      removed: [{ id: 'app_1', label: 'CRM' }],
+    });
+  });
+
+  it('should leave layer frames out of the diff', () => {
+    const layered = {
+      ...settings,
+      entityTypes: ['ApplicationComponent', 'Node'],
+      options: { ...settings.options, notation: 'archimate' as const },
+    };
+    const before = generateLinkedDiagram(buildModel([element('crm', 'CRM')], []), layered);
+    const after = generateLinkedDiagram(original, layered);
+
+    expect(diffDiagramNodes(before, after).added.map(node => node.id).sort()).toEqual(['db', 'erp']);
+    // Blocks linked before the node mapping was stored
+    const unmapped = (script: string) => script.replace(/,"nodes":\{[^}]*\}/, '');
+    expect(diffDiagramNodes(unmapped(before), unmapped(after)).added.map(node => node.id).sort()).toEqual([
+      'db',
+      'erp',
+    ]);
+  });
+
+  it('should find nodes in C4 and class diagrams too', () => {
+    const c4 = generateLinkedDiagram(original, { ...settings, options: { ...settings.options, format: 'c4Context' } });
+    expect(extractDiagramNodes(c4).map(node => node.id).sort()).toEqual(['crm', 'erp']);
+  });
+});
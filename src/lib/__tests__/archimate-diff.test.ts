@@ -0,0 +1,133 @@
+/**
+ * Unit tests for the model diff engine and its Mermaid and Markdown output
+ */
+
+import {
+  diffArchimateModels,
+  generateMermaidDiff,
+  modelDiffToMarkdown,
+  summarizeModelDiff,
+} from '@/lib/archimate-diff';
+import type { ArchimateElement, ArchimateModel, ArchimateRelationship, ArchimateView } from '@/lib/archimate-parser';
+
+const element = (identifier: string, name: string, type = 'ApplicationComponent'): ArchimateElement => ({
+  identifier,
+  type,
+  name,
+  documentation: null,
+  properties: {},
+});
+
+const relationship = (source: string, target: string, name: string | null = null, type = 'Serving'): ArchimateRelationship => ({
+  identifier: `${source}-${target}`,
+  type,
+  source,
+  target,
+  name,
+  documentation: null,
+  properties: {},
+});
+
+const view = (identifier: string, name: string): ArchimateView => ({
+  identifier,
+  name,
+  documentation: null,
+  properties: {},
+  nodes: [],
+  connections: [],
+  elementRefs: [],
+});
+
+const model = (
+  elements: ArchimateElement[],
+  relationships: ArchimateRelationship[] = [],
+  views: ArchimateView[] = []
+): ArchimateModel => ({
+  elements: new Map(elements.map(el => [el.identifier, el])),
+  relationships,
+  views: new Map(views.map(v => [v.identifier, v])),
+  propertyDefinitions: new Map(),
+  organizations: [],
+});
+
+// Version 2 adds the CRM, drops the fax gateway, renames the portal and moves the portal's dependency
+const before = model(
+  [element('portal', 'Web Shop'), element('erp', 'ERP'), element('fax', 'Fax Gateway')],
+  [relationship('erp', 'portal'), relationship('fax', 'erp')],
+  [view('v1', 'Landscape'), view('v2', 'Old Integration')]
+);
+const after = model(
+  [element('portal', 'Customer Portal'), element('erp', 'ERP'), element('crm', 'CRM')],
+  [relationship('erp', 'portal', 'Orders'), relationship('crm', 'portal')],
+  [view('v1', 'Landscape')]
+);
+
+describe('diffArchimateModels', () => {
+  it('should report added, removed and renamed items by identifier', () => {
+    const diff = diffArchimateModels(before, after);
+
+    expect(diff.elements.added.map(el => el.identifier)).toEqual(['crm']);
+    expect(diff.elements.removed.map(el => el.identifier)).toEqual(['fax']);
+    expect(diff.elements.renamed.map(({ before: b, after: a }) => [b.name, a.name])).toEqual([
+      ['Web Shop', 'Customer Portal'],
+    ]);
+    expect(diff.relationships.added.map(rel => rel.identifier)).toEqual(['crm-portal']);
+    expect(diff.relationships.removed.map(rel => rel.identifier)).toEqual(['fax-erp']);
+    expect(diff.relationships.renamed.map(({ after: a }) => a.name)).toEqual(['Orders']);
+    expect(diff.views.removed.map(v => v.name)).toEqual(['Old Integration']);
+    expect(diff.views.added).toEqual([]);
+  });
+
+  it('should find nothing between identical models', () => {
+    const diff = diffArchimateModels(before, before);
+    expect(summarizeModelDiff(diff)).toBe('No model changes.');
+  });
+});
+
+describe('generateMermaidDiff', () => {
+  it('should style changed nodes and links with change classes', () => {
+    const script = generateMermaidDiff(before, after);
+
+    expect(script).toContain('crm["CRM"]:::added;');
+    expect(script).toContain('fax["Fax Gateway"]:::removed;');
+    expect(script).toContain('portal["Web Shop → Customer Portal"]:::renamed;');
+    // Unchanged ends of changed relationships are drawn for context
+    expect(script).toContain('erp["ERP"];');
+    expect(script).toContain('crm -->|"Serving"| portal;');
+    expect(script).toContain('fax -.->|"Serving"| erp;');
+    expect(script).toContain('erp -->|"Serving → Orders"| portal;');
+    expect(script).toContain('classDef added fill:#d4f7d4,stroke:#2e8b57;');
+    expect(script).toContain('classDef removed fill:#fbd5d5,stroke:#c0392b,stroke-dasharray:5 5;');
+    expect(script).toContain('linkStyle 1 stroke:#c0392b,stroke-dasharray:5 5\n');
+  });
+
+  it('should draw a placeholder when no element or relationship changed', () => {
+    expect(generateMermaidDiff(before, before)).toBe('graph TD;\n  A["No element or relationship changes"];');
+  });
+});
+
+describe('summarizeModelDiff', () => {
+  it('should describe the changes in one sentence', () => {
+    expect(summarizeModelDiff(diffArchimateModels(before, after))).toBe(
+      'Added 1 element and 1 relationship; removed 1 element, 1 relationship and 1 view; renamed 1 element and 1 relationship.'
+    );
+  });
+});
+
+describe('modelDiffToMarkdown', () => {
+  it('should list every change below the summary', () => {
+    const lines = modelDiffToMarkdown(before, after).split('\n');
+
+    expect(lines.slice(2)).toEqual([
+      '| Change | Kind | Name | Type |',
+      '| --- | --- | --- | --- |',
+      '| Added | Element | CRM | Application Component |',
+      '| Removed | Element | Fax Gateway | Application Component |',
+      '| Renamed | Element | Web Shop → Customer Portal | Application Component |',
+      '| Added | Relationship | CRM → Customer Portal | Serving |',
+      '| Removed | Relationship | Fax Gateway → ERP | Serving |',
+      '| Renamed | Relationship | (unnamed) → Orders (ERP → Customer Portal) | Serving |',
+      '| Removed | View | Old Integration | View |',
+    ]);
+  });
+});
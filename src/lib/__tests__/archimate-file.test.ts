@@ -0,0 +1,74 @@
+/**
+ * Unit tests for format sniffing, reading model files and parse diagnostics
+ */
+
+import { describeParseError, readArchimateFile, sniffFileFormat } from '@/lib/archimate-file';
+import { ArchimateParseError } from '@/lib/archimate-parser';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+describe('sniffFileFormat', () => {
+  it('should detect XML after whitespace and byte order marks', () => {
+    expect(sniffFileFormat(ascii('<?xml version="1.0"?>'))).toBe('xml');
+    expect(sniffFileFormat(ascii('\r\n  <model/>'))).toBe('xml');
+    expect(sniffFileFormat(bytes(0xef, 0xbb, 0xbf, 0x3c))).toBe('xml');
+    expect(sniffFileFormat(bytes(0xff, 0xfe, 0x20, 0x00, 0x3c, 0x00))).toBe('xml');
+    expect(sniffFileFormat(bytes(0xfe, 0xff, 0x00, 0x3c))).toBe('xml');
+  });
+
+  it('should detect zip archives', () => {
+    expect(sniffFileFormat(bytes(0x50, 0x4b, 0x03, 0x04, 0x14))).toBe('zip');
+  });
+
+  it('should not depend on the MIME type or extension', () => {
+    expect(sniffFileFormat(ascii('name,type\nShop,ApplicationComponent'))).toBe('unknown');
+    expect(sniffFileFormat(new Uint8Array())).toBe('unknown');
+  });
+});
+
+describe('readArchimateFile', () => {
+  it('should read XML whatever type the browser reports', async () => {
+    const file = new File(['<model/>'], 'bank.xml', { type: 'application/octet-stream' });
+    await expect(readArchimateFile(file)).resolves.toEqual([{ fileName: 'bank.xml', content: '<model/>' }]);
+  });
+
+  it('should reject files that are neither XML nor zip', async () => {
+    const file = new File(['content'], 'model.xml', { type: 'text/xml' });
+    await expect(readArchimateFile(file)).rejects.toThrow('neither an XML model nor a zip archive');
+  });
+});
+
+describe('describeParseError', () => {
+  it('should point at the column of the offending line', () => {
+    const content = '<model>\n  <elements>\n</model>';
+    const diagnostic = describeParseError(new ArchimateParseError('Failed to parse XML: bad tag', 3, 3), content);
+
+    expect(diagnostic).toEqual({
+      message: 'Failed to parse XML: bad tag',
+      line: 3,
+      column: 3,
+      excerpt: '</model>',
+      excerptColumn: 2,
+    });
+  });
+
+  it('should shorten long lines around the column', () => {
+    const content = `<model>${'<e/>'.repeat(100)}<bad></model>`;
+    const diagnostic = describeParseError(new ArchimateParseError('Failed to parse XML', 1, 413), content);
+
+    expect(diagnostic.excerpt?.startsWith('…')).toBe(true);
+    expect(diagnostic.excerpt?.endsWith('…')).toBe(false);
+    expect(diagnostic.excerpt?.slice(diagnostic.excerptColumn ?? 0)).toBe('</model>');
+  });
+
+  it('should keep only the message for other errors', () => {
+    expect(describeParseError(new Error('No views'), '<model/>')).toEqual({
+      message: 'No views',
+      line: null,
+      column: null,
+      excerpt: null,
+      excerptColumn: null,
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for neighborhood expansion and element search
+ */
+
+import { expandNeighborhood, searchElements } from '@/lib/archimate-neighborhood';
+import type { ArchimateElement, ArchimateRelationship } from '@/lib/archimate-parser';
+
+const element = (identifier: string, name: string, type = 'ApplicationComponent'): ArchimateElement => ({
+  identifier,
+  type,
+  name,
+  documentation: null,
+  properties: {},
+});
+
+const relationship = (source: string, target: string, type = 'Serving'): ArchimateRelationship => ({
+  identifier: `${source}-${target}`,
+  type,
+  source,
+  target,
+  name: null,
+  documentation: null,
+  properties: {},
+});
+
+// db serves api, api serves shop, shop serves customer; shop flows to crm
+const relationships = [
+  relationship('db', 'api'),
+  relationship('api', 'shop'),
+  relationship('shop', 'customer'),
+  relationship('shop', 'crm', 'Flow'),
+];
+
+describe('expandNeighborhood', () => {
+  it('should return only the seeds when there are no hops', () => {
+    const reached = expandNeighborhood(['shop'], relationships, {
+      hops: 0,
+      relationshipTypes: ['Serving'],
+      direction: 'both',
+    });
+    expect(Array.from(reached)).toEqual(['shop']);
+  });
+
+  it('should find everything that serves an element along incoming relationships', () => {
+    const reached = expandNeighborhood(['shop'], relationships, {
+      hops: 5,
+      relationshipTypes: ['Serving'],
+      direction: 'incoming',
+    });
+    expect(Array.from(reached).sort()).toEqual(['api', 'db', 'shop']);
+  });
+
+  it('should stop after the given number of hops', () => {
+    const reached = expandNeighborhood(['shop'], relationships, {
+      hops: 1,
+      relationshipTypes: ['Serving'],
+      direction: 'incoming',
+    });
+    expect(Array.from(reached).sort()).toEqual(['api', 'shop']);
+  });
+
+  it('should only follow the selected relationship types', () => {
+    const reached = expandNeighborhood(['shop'], relationships, {
+      hops: 1,
+      relationshipTypes: ['Flow'],
+      direction: 'both',
+    });
+    expect(Array.from(reached).sort()).toEqual(['crm', 'shop']);
+  });
+
+  it('should follow both directions when asked to', () => {
+    const reached = expandNeighborhood(['api'], relationships, {
+      hops: 1,
+      relationshipTypes: ['Serving', 'Flow'],
+      direction: 'both',
+    });
+    expect(Array.from(reached).sort()).toEqual(['api', 'db', 'shop']);
+  });
+});
+
+describe('searchElements', () => {
+  const elements = [
+    element('1', 'Customer Portal'),
+    element('2', 'Portal Gateway', 'Node'),
+    element('3', 'Billing'),
+  ];
+
+  it('should rank names starting with the query first', () => {
+    expect(searchElements(elements, 'portal', 10).map(el => el.identifier)).toEqual(['2', '1']);
+  });
+
+  it('should match types and exact identifiers, and respect the limit', () => {
+    expect(searchElements(elements, 'node', 10).map(el => el.identifier)).toEqual(['2']);
+    expect(searchElements(elements, '3', 10).map(el => el.identifier)).toEqual(['3']);
+    expect(searchElements(elements, '', 2)).toHaveLength(2);
+  });
+});
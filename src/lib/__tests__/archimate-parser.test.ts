@@ -0,0 +1,261 @@
+/**
+ * Unit tests for the Open Group exchange format parser
+ * Tests documentation, property resolution and value typing
+ */
+
+import { parseArchimateModel, parseArchimateXML, parseArchiXML } from '@/lib/archimate-parser';
+
+const exchangeXML = `<?xml version="1.0" encoding="UTF-8"?>
+<model xmlns="http://www.opengroup.org/xsd/archimate/3.0/"
+       xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+       identifier="id-model">
+  <name xml:lang="en">Test Model</name>
+  <elements>
+    <element identifier="id-app" xsi:type="ApplicationComponent">
+      <name xml:lang="de">Kundenportal</name>
+      <name xml:lang="en">Customer Portal</name>
+      <documentation xml:lang="en">Public facing web portal.</documentation>
+      <properties>
+        <property propertyDefinitionRef="propid-owner">
+          <value xml:lang="en">Jane Doe</value>
+        </property>
+        <property propertyDefinitionRef="propid-cost">
+          <value>1200.50</value>
+        </property>
+        <property propertyDefinitionRef="propid-active">
+          <value>true</value>
+        </property>
+      </properties>
+    </element>
+    <element identifier="id-actor" xsi:type="BusinessActor">
+      <name xml:lang="en">Customer</name>
+    </element>
+  </elements>
+  <relationships>
+    <relationship identifier="id-rel" xsi:type="Serving" source="id-app" target="id-actor">
+      <documentation>Serves customers over HTTPS.</documentation>
+      <properties>
+        <property propertyDefinitionRef="propid-unknown">
+          <value>orphan</value>
+        </property>
+      </properties>
+    </relationship>
+  </relationships>
+  <organizations>
+    <item>
+      <label xml:lang="en">Views</label>
+      <item>
+        <label xml:lang="en">Landscapes</label>
+        <item identifierRef="id-view" />
+      </item>
+    </item>
+    <item>
+      <label xml:lang="en">Application</label>
+      <item identifierRef="id-app" />
+    </item>
+  </organizations>
+  <propertyDefinitions>
+    <propertyDefinition identifier="propid-owner" type="string">
+      <name xml:lang="en">Owner</name>
+    </propertyDefinition>
+    <propertyDefinition identifier="propid-cost" type="currency">
+      <name xml:lang="en">Cost</name>
+    </propertyDefinition>
+    <propertyDefinition identifier="propid-active" type="boolean">
+      <name xml:lang="en">Active</name>
+    </propertyDefinition>
+  </propertyDefinitions>
+  <views>
+    <diagrams>
+      <view identifier="id-view" xsi:type="Diagram">
+        <name xml:lang="en">Landscape</name>
+        <documentation xml:lang="en">Top level landscape.</documentation>
+        <node identifier="id-n1" elementRef="id-app" xsi:type="Element" x="10" y="10" w="400" h="300">
+          <node identifier="id-n2" elementRef="id-actor" xsi:type="Element" x="30" y="40" w="120" h="55" />
+        </node>
+        <connection identifier="id-c1" relationshipRef="id-rel" xsi:type="Relationship" source="id-n1" target="id-n2" />
+      </view>
+    </diagrams>
+  </views>
+</model>`;
+
+describe('parseArchimateXML', () => {
+  it('should resolve documentation for elements, relationships and views', () => {
+    const model = parseArchimateXML(exchangeXML);
+
+    expect(model.elements.get('id-app')?.documentation).toBe('Public facing web portal.');
+    expect(model.elements.get('id-actor')?.documentation).toBeNull();
+    expect(model.relationships[0].documentation).toBe('Serves customers over HTTPS.');
+    expect(model.views.get('id-view')?.documentation).toBe('Top level landscape.');
+  });
+
+  it('should prefer the English name when several languages are present', () => {
+    const model = parseArchimateXML(exchangeXML);
+    expect(model.elements.get('id-app')?.name).toBe('Customer Portal');
+  });
+
+  it('should key properties by definition name and type their values', () => {
+    const model = parseArchimateXML(exchangeXML);
+
+    expect(model.elements.get('id-app')?.properties).toEqual({
+      Owner: 'Jane Doe',
+      Cost: 1200.5,
+      Active: true,
+    });
+    expect(model.propertyDefinitions.get('propid-cost')).toEqual({
+      identifier: 'propid-cost',
+      name: 'Cost',
+      type: 'currency',
+    });
+  });
+
+  it('should keep values whose property definition is missing', () => {
+    const model = parseArchimateXML(exchangeXML);
+    expect(model.relationships[0].properties).toEqual({ 'propid-unknown': 'orphan' });
+  });
+
+  it('should keep nested view nodes, bounds and connections', () => {
+    const view = parseArchimateXML(exchangeXML).views.get('id-view')!;
+
+    expect(view.nodes).toHaveLength(1);
+    expect(view.nodes[0].bounds).toEqual({ x: 10, y: 10, width: 400, height: 300 });
+    expect(view.nodes[0].children.map(node => node.elementRef)).toEqual(['id-actor']);
+    expect(view.elementRefs).toEqual(['id-app', 'id-actor']);
+    expect(view.connections).toEqual([
+      { identifier: 'id-c1', relationshipRef: 'id-rel', source: 'id-n1', target: 'id-n2' },
+    ]);
+  });
+
+  it('should keep the organizations folder tree', () => {
+    const model = parseArchimateXML(exchangeXML);
+
+    expect(model.organizations).toEqual([
+      {
+        identifier: null,
+        label: 'Views',
+        folders: [{ identifier: null, label: 'Landscapes', folders: [], itemRefs: ['id-view'] }],
+        itemRefs: [],
+      },
+      { identifier: null, label: 'Application', folders: [], itemRefs: ['id-app'] },
+    ]);
+  });
+
+  it('should throw on malformed XML', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => parseArchimateXML('<model><elements></model>')).toThrow('Failed to parse XML');
+  });
+
+  it('should report where malformed XML breaks', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => parseArchimateXML('<model>\n  <elements>\n</model>')).toThrow(
+      expect.objectContaining({ name: 'ArchimateParseError', line: 3 })
+    );
+  });
+});
+
+const archiXML = `<?xml version="1.0" encoding="UTF-8"?>
+<archimate:model xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+                 xmlns:archimate="http://www.archimatetool.com/archimate"
+                 name="Archi Model" id="id-model" version="5.0.0">
+  <folder name="Application" id="f-app" type="application">
+    <element xsi:type="archimate:ApplicationComponent" name="Customer Portal" id="id-app">
+      <documentation>Public facing web portal.</documentation>
+      <property key="Owner" value="Jane Doe"/>
+    </element>
+  </folder>
+  <folder name="Business" id="f-bus" type="business">
+    <element xsi:type="archimate:BusinessActor" name="Customer" id="id-actor"/>
+  </folder>
+  <folder name="Other" id="f-other" type="other">
+    <element xsi:type="archimate:Junction" id="id-junction" name="Or" type="or"/>
+  </folder>
+  <folder name="Relations" id="f-rel" type="relations">
+    <element xsi:type="archimate:ServingRelationship" id="id-rel" source="id-app" target="id-actor"/>
+  </folder>
+  <folder name="Views" id="f-views" type="diagrams">
+    <element xsi:type="archimate:ArchimateDiagramModel" name="Landscape" id="id-view">
+      <child xsi:type="archimate:Group" id="d-group" name="Channels">
+        <bounds x="100" y="50" width="400" height="300"/>
+        <child xsi:type="archimate:DiagramObject" id="d-app" archimateElement="id-app">
+          <bounds x="20" y="30" width="-1" height="-1"/>
+          <sourceConnection xsi:type="archimate:Connection" id="c-1" source="d-app" target="d-actor" archimateRelationship="id-rel"/>
+        </child>
+      </child>
+      <child xsi:type="archimate:DiagramObject" id="d-actor" archimateElement="id-actor">
+        <bounds x="600" y="50" width="120" height="55"/>
+      </child>
+    </element>
+    <element xsi:type="archimate:SketchModel" name="Whiteboard" id="id-sketch">
+      <child xsi:type="archimate:SketchModelSticky" id="s-note" name="Idea">
+        <bounds x="10" y="10" width="75" height="63"/>
+      </child>
+    </element>
+    <element xsi:type="canvas:CanvasModel" name="Canvas" id="id-canvas"/>
+  </folder>
+</archimate:model>`;
+
+describe('parseArchimateModel', () => {
+  it('should read exchange documents like parseArchimateXML', () => {
+    const model = parseArchimateModel(exchangeXML);
+    expect(model.elements.get('id-app')?.name).toBe('Customer Portal');
+  });
+
+  it('should reject well-formed XML that is not a model', () => {
+    expect(() => parseArchimateModel('<root/>')).toThrow(
+      expect.objectContaining({ name: 'ArchimateParseError', message: expect.stringContaining('found <root>') })
+    );
+  });
+
+  it('should normalize Archi element and relationship types', () => {
+    const model = parseArchimateModel(archiXML);
+
+    expect(model.elements.get('id-app')).toEqual({
+      identifier: 'id-app',
+      type: 'ApplicationComponent',
+      name: 'Customer Portal',
+      documentation: 'Public facing web portal.',
+      properties: { Owner: 'Jane Doe' },
+    });
+    expect(model.elements.get('id-junction')?.type).toBe('OrJunction');
+    expect(model.relationships).toEqual([
+      expect.objectContaining({ identifier: 'id-rel', type: 'Serving', source: 'id-app', target: 'id-actor' }),
+    ]);
+    expect(model.propertyDefinitions.get('Owner')?.type).toBe('string');
+  });
+
+  it('should leave out sketch and canvas views', () => {
+    const model = parseArchiXML(archiXML);
+
+    expect(Array.from(model.elements.keys())).toEqual(['id-app', 'id-actor', 'id-junction']);
+    expect(Array.from(model.views.keys())).toEqual(['id-view']);
+  });
+
+  it('should convert Archi diagrams into views with absolute bounds', () => {
+    const view = parseArchiXML(archiXML).views.get('id-view')!;
+
+    expect(view.nodes.map(node => node.label ?? node.elementRef)).toEqual(['Channels', 'id-actor']);
+    expect(view.nodes[0].children[0].bounds).toEqual({ x: 120, y: 80, width: 120, height: 55 });
+    expect(view.elementRefs).toEqual(['id-app', 'id-actor']);
+    expect(view.connections).toEqual([
+      { identifier: 'c-1', relationshipRef: 'id-rel', source: 'd-app', target: 'd-actor' },
+    ]);
+  });
+
+  it('should map Archi folders onto the organization tree', () => {
+    const model = parseArchiXML(archiXML);
+
+    expect(model.organizations.map(folder => folder.label)).toEqual([
+      'Application',
+      'Business',
+      'Other',
+      'Relations',
+      'Views',
+    ]);
+    expect(model.organizations[4]).toEqual({
+      identifier: 'f-views',
+      label: 'Views',
+      folders: [],
+      itemRefs: ['id-view'],
+    });
+  });
+});
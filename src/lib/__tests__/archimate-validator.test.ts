@@ -0,0 +1,226 @@
+/**
+ * Unit tests for model validation and the ArchiMate relationship rules
+ */
+
+import { isRelationshipAllowed } from '@/lib/archimate-notation';
+import {
+  parseArchimateModel,
+  type ArchimateElement,
+  type ArchimateModel,
+  type ArchimateRelationship,
+  type ArchimateView,
+} from '@/lib/archimate-parser';
+import { validateArchimateModel, validationReportToMarkdown } from '@/lib/archimate-validator';
+
+const element = (identifier: string, name: string, type = 'ApplicationComponent'): ArchimateElement => ({
+  identifier,
+  type,
+  name,
+  documentation: null,
+  properties: {},
+});
+
+const relationship = (identifier: string, source: string, target: string, type = 'Serving'): ArchimateRelationship => ({
+  identifier,
+  type,
+  source,
+  target,
+  name: null,
+  documentation: null,
+  properties: {},
+});
+
+const view = (identifier: string, elementRefs: string[]): ArchimateView => ({
+  identifier,
+  name: identifier,
+  documentation: null,
+  properties: {},
+  nodes: [],
+  connections: [],
+  elementRefs,
+});
+
+const model = (
+  elements: ArchimateElement[],
+  relationships: ArchimateRelationship[] = [],
+  views: ArchimateView[] = [view('v1', elements.map(el => el.identifier))]
+): ArchimateModel => ({
+  elements: new Map(elements.map(el => [el.identifier, el])),
+  relationships,
+  views: new Map(views.map(v => [v.identifier, v])),
+  propertyDefinitions: new Map(),
+  organizations: [],
+});
+
+describe('isRelationshipAllowed', () => {
+  it.each([
+    ['Serving', 'ApplicationComponent', 'BusinessProcess'],
+    ['Serving', 'TechnologyService', 'ApplicationComponent'],
+    ['Serving', 'BusinessProcess', 'ApplicationComponent'],
+    ['Serving', 'BusinessService', 'ApplicationFunction'],
+    ['Serving', 'BusinessInterface', 'ApplicationComponent'],
+    ['Assignment', 'BusinessActor', 'BusinessRole'],
+    ['Assignment', 'Node', 'Artifact'],
+    ['Realization', 'ApplicationProcess', 'ApplicationService'],
+    ['Realization', 'DataObject', 'BusinessObject'],
+    ['Realization', 'ApplicationComponent', 'Requirement'],
+    ['Access', 'ApplicationFunction', 'DataObject'],
+    ['Triggering', 'BusinessEvent', 'BusinessProcess'],
+    ['Influence', 'Driver', 'Goal'],
+    ['Composition', 'Node', 'TechnologyInterface'],
+    ['Aggregation', 'Grouping', 'DataObject'],
+    ['Association', 'DataObject', 'Stakeholder'],
+  ])('should allow %s from %s to %s', (type, source, target) => {
+    expect(isRelationshipAllowed(type, source, target)).toBe(true);
+  });
+
+  it.each([
+    ['Serving', 'BusinessService', 'Node'],
+    ['Serving', 'DataObject', 'ApplicationComponent'],
+    ['Assignment', 'DataObject', 'ApplicationFunction'],
+    ['Access', 'DataObject', 'ApplicationComponent'],
+    ['Composition', 'BusinessProcess', 'ApplicationComponent'],
+    ['Triggering', 'ApplicationProcess', 'DataObject'],
+    ['Specialization', 'Node', 'Device'],
+    ['Influence', 'ApplicationComponent', 'ApplicationService'],
+  ])('should reject %s from %s to %s', (type, source, target) => {
+    expect(isRelationshipAllowed(type, source, target)).toBe(false);
+  });
+
+  it('should not judge custom element or relationship types', () => {
+    expect(isRelationshipAllowed('Serving', 'Microservice', 'BusinessProcess')).toBeNull();
+    expect(isRelationshipAllowed('DependsOn', 'Node', 'Node')).toBeNull();
+  });
+});
+
+describe('validateArchimateModel', () => {
+  it('should report nothing for a sound model', () => {
+    const report = validateArchimateModel(
+      model([element('app', 'Shop'), element('proc', 'Order', 'BusinessProcess')], [relationship('r1', 'app', 'proc')])
+    );
+    expect(report).toEqual({ issues: [], errorCount: 0, warningCount: 0 });
+  });
+
+  it('should flag relationships with a missing source or target', () => {
+    const report = validateArchimateModel(model([element('app', 'Shop')], [relationship('r1', 'app', 'gone')]));
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        rule: 'missing-endpoint',
+        severity: 'error',
+        subject: 'r1',
+        subjectLabel: 'Shop → gone (Serving)',
+        message: 'The target "gone" is not an element of the model.',
+      }),
+    ]);
+  });
+
+  it('should accept relationships that connect to other relationships', () => {
+    const report = validateArchimateModel(
+      model(
+        [element('app', 'Shop'), element('data', 'Orders', 'DataObject'), element('note', 'Audit', 'Requirement')],
+        [relationship('access', 'app', 'data', 'Access'), relationship('assoc', 'note', 'access', 'Association')]
+      )
+    );
+    expect(report.issues).toEqual([]);
+  });
+
+  it('should flag relationships the metamodel does not allow', () => {
+    const report = validateArchimateModel(
+      model(
+        [element('data', 'Orders', 'DataObject'), element('app', 'Shop')],
+        [relationship('r1', 'data', 'app', 'Assignment')]
+      )
+    );
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        rule: 'invalid-relationship',
+        subject: 'r1',
+        message: 'ArchiMate 3.1 does not allow Assignment from Data Object to Application Component.',
+      }),
+    ]);
+  });
+
+  it('should flag unnamed elements but not junctions', () => {
+    const report = validateArchimateModel(model([element('app', '  '), element('j', '', 'AndJunction')]));
+
+    expect(report.issues.map(issue => [issue.rule, issue.subject, issue.subjectLabel])).toEqual([
+      ['unnamed-element', 'app', 'Application Component app'],
+    ]);
+  });
+
+  it('should accept relationships through unnamed junctions of a parsed model', () => {
+    const report = validateArchimateModel(
+      parseArchimateModel(`<?xml version="1.0" encoding="UTF-8"?>
+<model xmlns="http://www.opengroup.org/xsd/archimate/3.0/"
+       xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+       identifier="id-model">
+  <elements>
+    <element identifier="a" xsi:type="BusinessEvent"><name>Order placed</name></element>
+    <element identifier="j" xsi:type="AndJunction"/>
+    <element identifier="b" xsi:type="BusinessProcess"><name>Ship order</name></element>
+    <element identifier="c" xsi:type="BusinessProcess"/>
+  </elements>
+  <relationships>
+    <relationship identifier="r1" xsi:type="Triggering" source="a" target="j"/>
+    <relationship identifier="r2" xsi:type="Triggering" source="j" target="b"/>
+    <relationship identifier="r3" xsi:type="Triggering" source="j" target="c"/>
+  </relationships>
+</model>`)
+    );
+
+    expect(report.issues.map(issue => [issue.rule, issue.subject])).toEqual([
+      ['unnamed-element', 'c'],
+      ['not-in-view', 'a'],
+      ['not-in-view', 'j'],
+      ['not-in-view', 'b'],
+      ['not-in-view', 'c'],
+    ]);
+  });
+
+  it('should flag every element sharing a name, ignoring case', () => {
+    const report = validateArchimateModel(
+      model([element('a1', 'Customer', 'BusinessActor'), element('a2', 'customer', 'BusinessRole'), element('a3', 'Shop')])
+    );
+
+    expect(report.issues.map(issue => [issue.rule, issue.subject, issue.message])).toEqual([
+      ['duplicate-name', 'a1', '1 other element shares this name (Business Role).'],
+      ['duplicate-name', 'a2', '1 other element shares this name (Business Actor).'],
+    ]);
+  });
+
+  it('should flag elements that appear in no view', () => {
+    const report = validateArchimateModel(
+      model([element('a1', 'Shop'), element('a2', 'CRM')], [], [view('v1', ['a1'])])
+    );
+
+    expect(report.issues).toEqual([expect.objectContaining({ rule: 'not-in-view', subject: 'a2', severity: 'warning' })]);
+    expect(report.warningCount).toBe(1);
+  });
+
+  it('should list errors before warnings', () => {
+    const report = validateArchimateModel(
+      model([element('a1', ''), element('a2', 'CRM')], [relationship('r1', 'a2', 'gone')], [view('v1', ['a2'])])
+    );
+    expect(report.issues.map(issue => issue.rule)).toEqual(['missing-endpoint', 'unnamed-element', 'not-in-view']);
+  });
+});
+
+describe('validationReportToMarkdown', () => {
+  it('should render the issues as a table with escaped cells', () => {
+    const report = validateArchimateModel(model([element('a1', 'Web | Mobile')], [], []));
+
+    expect(validationReportToMarkdown(report)).toBe(
+      [
+        '| Severity | Check | Subject | Details |',
+        '| --- | --- | --- | --- |',
+        '| Warning | Not in any view | Web \\| Mobile | The element does not appear in any view. |',
+      ].join('\n')
+    );
+  });
+
+  it('should say so when there is nothing to report', () => {
+    expect(validationReportToMarkdown({ issues: [], errorCount: 0, warningCount: 0 })).toBe('No validation issues found.');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit tests for the standalone HTML export
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { exportMarkdownToHtml, headingSlug } from '@/lib/html-export';
+
+// Parse an exported file back into a document
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const markdown = [
+  '# Solution Design',
+  '',
+  'Intro with ![logo](https://example.com/logo.png) and ![logo again](https://example.com/logo.png).',
+  '',
+  '## Context',
+  '',
+  '```mermaid',
+  'graph TD',
+  '  A --> B',
+  '```',
+  '',
+  '## Context',
+  '',
+  '### Broken diagram',
+  '',
+  '```mermaid',
+  'graph bad',
+  '```',
+  '',
+  '<script>alert(1)</script>',
+].join('\n');
+
+const renderMermaid = jest.fn(async (id: string, script: string) => {
+  if (script.includes('bad')) throw new Error('Parse error on line 1:');
+  return { svg: `<svg id="${id}"><text>${script}</text></svg>` };
+});
+
+describe('exportMarkdownToHtml', () => {
+  it('produces one self-contained document with inlined styles', async () => {
+    const html = await exportMarkdownToHtml(markdown, { renderMermaid });
+    const doc = parse(html);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(doc.title).toBe('Solution Design');
+    expect(doc.querySelector('style')?.textContent).toContain('.document');
+    expect(doc.querySelectorAll('link, script')).toHaveLength(0);
+    expect(doc.querySelector('[data-line-number], [data-source-from]')).toBeNull();
+  });
+
+  it('renders diagrams to inline SVG and keeps failing ones as source', async () => {
+    const doc = parse(await exportMarkdownToHtml(markdown, { renderMermaid }));
+
+    expect(doc.querySelectorAll('.mermaid svg')).toHaveLength(1);
+    expect(doc.querySelector('.mermaid svg')?.textContent).toBe('graph TD\n  A --> B');
+    expect(doc.querySelector('pre code.language-mermaid')?.textContent).toBe('graph bad');
+  });
+
+  it('keeps every diagram as source without a renderer', async () => {
+    const doc = parse(await exportMarkdownToHtml(markdown));
+
+    expect(doc.querySelector('svg')).toBeNull();
+    expect(doc.querySelectorAll('pre code.language-mermaid')).toHaveLength(2);
+  });
+
+  it('embeds images as data URIs, loading each once, and keeps images that fail', async () => {
+    const loadImage = jest.fn(async (src: string) => {
+      if (src.includes('missing')) throw new Error('404');
+      return 'data:image/png;base64,AAAA';
+    });
+    const doc = parse(
+      await exportMarkdownToHtml(`${markdown}\n\n![gone](https://example.com/missing.png)`, { loadImage })
+    );
+    const sources = Array.from(doc.querySelectorAll('img')).map(image => image.getAttribute('src'));
+
+    expect(sources).toEqual(['data:image/png;base64,AAAA', 'data:image/png;base64,AAAA', 'https://example.com/missing.png']);
+    expect(loadImage).toHaveBeenCalledTimes(2);
+  });
+
+  it('links a table of contents to unique heading anchors', async () => {
+    const doc = parse(await exportMarkdownToHtml(markdown, { renderMermaid }));
+    const entries = Array.from(doc.querySelectorAll('nav.toc li')).map(entry => [
+      entry.className,
+      entry.querySelector('a')?.getAttribute('href'),
+      entry.textContent,
+    ]);
+
+    expect(entries).toEqual([
+      ['toc-h1', '#solution-design', 'Solution Design'],
+      ['toc-h2', '#context', 'Context'],
+      ['toc-h2', '#context-1', 'Context'],
+      ['toc-h3', '#broken-diagram', 'Broken diagram'],
+    ]);
+    expect(doc.getElementById('context-1')?.tagName).toBe('H2');
+  });
+
+  it('leaves the table of contents out on request', async () => {
+    const doc = parse(await exportMarkdownToHtml(markdown, { tableOfContents: false, title: 'Custom' }));
+
+    expect(doc.querySelector('nav.toc')).toBeNull();
+    expect(doc.title).toBe('Custom');
+  });
+});
+
+describe('export stylesheet', () => {
+  const globals = readFileSync(path.join(__dirname, '../../app/globals.css'), 'utf8');
+  const normalize = (css: string) => css.replace(/\s+/g, ' ');
+
+  const exportedStyles = async () => {
+    const doc = parse(await exportMarkdownToHtml('# Title'));
+    return normalize(doc.querySelector('style')?.textContent ?? '');
+  };
+
+  it('styles every selector the preview styles', async () => {
+    const styles = await exportedStyles();
+    const selectors = Array.from(globals.matchAll(/^\s*(\.prose-styles[^{]*?)\s*\{/gm), match => normalize(match[1]));
+
+    expect(selectors.length).toBeGreaterThan(10);
+    selectors.forEach(selector => expect(styles).toContain(`${selector} {`));
+  });
+
+  it('uses the values of the dark theme tokens of the preview', async () => {
+    const styles = await exportedStyles();
+    const darkTheme = globals.match(/\.dark \{([^}]*)\}/)?.[1] ?? '';
+    const tokens = Array.from(styles.match(/:root \{([^}]*)\}/)?.[1].matchAll(/(--[\w-]+):([^;]+);/g) ?? []);
+
+    expect(tokens.length).toBeGreaterThan(0);
+    tokens.forEach(([, name, value]) => expect(normalize(darkTheme)).toContain(`${name}: ${value.trim()};`));
+  });
+});
+
+describe('headingSlug', () => {
+  it('keeps letters of any script and falls back for headings without any', () => {
+    const taken = new Set<string>();
+
+    expect(headingSlug('Übersicht & Ziele', taken)).toBe('übersicht-ziele');
+    expect(headingSlug('!!!', taken)).toBe('section');
+    expect(headingSlug('???', taken)).toBe('section-1');
+  });
+});
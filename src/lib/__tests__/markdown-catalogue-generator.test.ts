@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the Markdown catalogue generator
+ */
+
+import type { ArchimateElement, ArchimateRelationship } from '@/lib/archimate-parser';
+import { cataloguePropertyKeys, generateMarkdownCatalogue } from '@/lib/markdown-catalogue-generator';
+
+const element = (
+  identifier: string,
+  name: string,
+  type = 'ApplicationComponent',
+  properties: ArchimateElement['properties'] = {},
+  documentation: string | null = null
+): ArchimateElement => ({ identifier, type, name, documentation, properties });
+
+const relationship = (source: string, target: string, type = 'Flow', name: string | null = null): ArchimateRelationship => ({
+  identifier: `${source}-${target}`,
+  type,
+  source,
+  target,
+  name,
+  documentation: null,
+  properties: {},
+});
+
+const portal = element('portal', 'Customer Portal', 'ApplicationComponent', { Owner: 'Jane Doe', Tier: 1 }, 'Public web site');
+const crm = element('crm', 'CRM', 'ApplicationComponent', { Owner: 'Sales' });
+const db = element('db', 'PostgreSQL', 'SystemSoftware', { Version: '16' });
+const clerk = element('clerk', 'Clerk', 'BusinessRole');
+
+describe('generateMarkdownCatalogue', () => {
+  it('should write one table per type, ordered by layer', () => {
+    expect(generateMarkdownCatalogue([db, portal, clerk, crm], [])).toBe(
+      [
+        '### Business Roles',
+        '',
+        '| Name | Type | Description |',
+        '| --- | --- | --- |',
+        '| Clerk | Business Role |  |',
+        '',
+        '### Application Components',
+        '',
+        '| Name | Type | Description |',
+        '| --- | --- | --- |',
+        '| CRM | Application Component |  |',
+        '| Customer Portal | Application Component | Public web site |',
+        '',
+        '### System Software',
+        '',
+        '| Name | Type | Description |',
+        '| --- | --- | --- |',
+        '| PostgreSQL | System Software |  |',
+      ].join('\n')
+    );
+  });
+
+  it('should use the configured columns, including properties', () => {
+    const markdown = generateMarkdownCatalogue([portal, crm], [], {
+      columns: ['name', 'property:Owner', 'property:Tier'],
+      groupByType: false,
+    });
+
+    expect(markdown).toBe(
+      [
+        '| Name | Owner | Tier |',
+        '| --- | --- | --- |',
+        '| CRM | Sales |  |',
+        '| Customer Portal | Jane Doe | 1 |',
+      ].join('\n')
+    );
+  });
+
+  it('should list relationships with their source and target', () => {
+    const markdown = generateMarkdownCatalogue([portal, crm], [relationship('portal', 'crm', 'Flow', 'Orders')], {
+      columns: ['name', 'type'],
+      groupByType: false,
+      includeRelationships: true,
+    });
+
+    expect(markdown.split('\n\n')[1]).toBe(
+      ['| Source | Target | Type | Name |', '| --- | --- | --- | --- |', '| Customer Portal | CRM | Flow | Orders |'].join(
+        '\n'
+      )
+    );
+  });
+
+  it('should keep multi-line documentation in one cell', () => {
+    const markdown = generateMarkdownCatalogue([element('a', 'A|B', 'Node', {}, 'First\nSecond')], [], {
+      columns: ['name', 'documentation'],
+      groupByType: false,
+    });
+    expect(markdown.split('\n')[2]).toBe('| A\\|B | First<br>Second |');
+  });
+
+  it('should say so when nothing is selected', () => {
+    expect(generateMarkdownCatalogue([], [])).toBe('No elements selected.');
+  });
+});
+
+describe('cataloguePropertyKeys', () => {
+  it('should collect the property keys in use', () => {
+    expect(cataloguePropertyKeys([portal, crm, db, clerk])).toEqual(['Owner', 'Tier', 'Version']);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for the preview's Markdown pipeline: sanitization and extensions
+ */
+
+import {
+  createMarkdownRenderer,
+  getMarkdownExtensions,
+  mermaidExtension,
+  registerMarkdownExtension,
+  renderMarkdown,
+  type MarkdownExtension,
+} from '@/lib/markdown-pipeline';
+
+// Parse rendered HTML, as the preview does
+const render = (markdown: string): HTMLElement => {
+  const container = document.createElement('div');
+  container.innerHTML = renderMarkdown(markdown);
+  return container;
+};
+
+// Every attribute name and URL in the output that could run script
+const scriptVectors = (container: HTMLElement): string[] =>
+  Array.from(container.querySelectorAll('*')).flatMap(element =>
+    Array.from(element.attributes)
+      .filter(
+        attribute =>
+          attribute.name.startsWith('on') ||
+          attribute.name === 'style' ||
+          /^\s*(javascript|vbscript|data:text)/i.test(attribute.value)
+      )
+      .map(attribute => `${element.tagName.toLowerCase()}[${attribute.name}]`)
+  );
+
+describe('renderMarkdown sanitization', () => {
+  it.each([
+    ['script tags', '<script>alert(1)</script>'],
+    ['event handlers', '<img src="x.png" onerror="alert(1)">'],
+    ['SVG payloads', '<svg onload="alert(1)"><circle r="1"/></svg>'],
+    ['iframes', '<iframe src="javascript:alert(1)"></iframe>'],
+    ['objects and embeds', '<object data="evil.swf"></object><embed src="evil.swf">'],
+    ['inline styles', '<p style="background:url(javascript:alert(1))">text</p>'],
+    ['style sheets', '<style>body { background: red }</style>'],
+    ['forms', '<form action="https://evil.example"><input type="text" name="password"></form>'],
+    ['raw HTML links', '<a href="javascript:alert(1)">click</a>'],
+    ['Markdown links', '[click](javascript:alert(1))'],
+    ['entity-encoded schemes', '<a href="jav&#x61;script&#58;alert(1)">click</a>'],
+    ['data URI documents', '[click](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)'],
+    ['meta refreshes', '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">'],
+    ['mutation through noscript', '<noscript><p title="</noscript><img src=x onerror=alert(1)>">'],
+  ])('strips %s', (_, markdown) => {
+    const container = render(markdown);
+
+    expect(container.querySelector('script, svg, iframe, object, embed, style, form, meta, noscript')).toBeNull();
+    expect(scriptVectors(container)).toEqual([]);
+  });
+
+  it('keeps ordinary Markdown and safe links and images', () => {
+    const container = render(
+      '# Title\n\nSome **bold** [link](https://example.com "Example") and ![logo](data:image/png;base64,AAAA)\n\n| a | b |\n|---|---|\n| 1 | 2 |'
+    );
+
+    expect(container.querySelector('h1')?.textContent).toBe('Title');
+    expect(container.querySelector('a')?.getAttribute('href')).toBe('https://example.com');
+    expect(container.querySelector('a')?.getAttribute('title')).toBe('Example');
+    expect(container.querySelector('img')?.getAttribute('src')).toBe('data:image/png;base64,AAAA');
+    expect(container.querySelectorAll('td')).toHaveLength(2);
+  });
+
+  it('keeps task list checkboxes, disabled', () => {
+    const checkboxes = render('- [x] done\n- [ ] open').querySelectorAll('input');
+
+    expect(checkboxes).toHaveLength(2);
+    expect(checkboxes[0].checked).toBe(true);
+    expect(Array.from(checkboxes).every(checkbox => checkbox.disabled && checkbox.type === 'checkbox')).toBe(true);
+  });
+});
+
+describe('Mermaid fences', () => {
+  it('render as text for mermaid.run, escaping markup in the script', () => {
+    const container = render('```mermaid\ngraph TD\n  A["</div><img src=x onerror=alert(1)>"] --> B\n```\n\n```js\nlet a = 1;\n```');
+    const diagram = container.querySelector('div.mermaid');
+
+    expect(diagram?.textContent).toBe('graph TD\n  A["</div><img src=x onerror=alert(1)>"] --> B');
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('pre > code.language-js')?.textContent).toBe('let a = 1;\n');
+  });
+});
+
+describe('source lines', () => {
+  it('are stamped on each top-level block, link definitions and blank lines included', () => {
+    const container = render(
+      '# Title\r\n\r\nFirst line\nsecond line\n\n[ref]: https://example.com\n\n```mermaid\ngraph TD\n  A --> B\n```\n- one\n- [two][ref]\n'
+    );
+    const lines = Array.from(container.children).map(block => [
+      block.tagName.toLowerCase(),
+      block.getAttribute('data-line-number'),
+      block.getAttribute('data-line-end'),
+    ]);
+
+    expect(lines).toEqual([
+      ['h1', '1', '1'],
+      ['p', '3', '4'],
+      ['div', '8', '11'],
+      ['ul', '12', '13'],
+    ]);
+    expect(container.querySelector('ul a')?.getAttribute('href')).toBe('https://example.com');
+  });
+});
+
+describe('Markdown extensions', () => {
+  // A callout fence plus ==highlight== syntax
+  const calloutExtension: MarkdownExtension = {
+    name: 'callouts',
+    fences: {
+      note: (code, info) => `<aside class="callout" data-kind="${info}" onclick="alert(1)">${code}</aside>`,
+    },
+    syntax: [
+      {
+        name: 'highlight',
+        level: 'inline',
+        start: src => src.indexOf('=='),
+        tokenizer(src) {
+          const match = /^==([^=]+)==/.exec(src);
+          return match ? { type: 'highlight', raw: match[0], text: match[1] } : undefined;
+        },
+        renderer: token => `<mark>${token.text}</mark>`,
+      },
+    ],
+    allow: { tags: ['aside'], attributes: ['data-kind'] },
+  };
+
+  it('render custom fences and syntax, still sanitized', () => {
+    const renderWithCallouts = createMarkdownRenderer([mermaidExtension, calloutExtension]);
+    const container = document.createElement('div');
+    container.innerHTML = renderWithCallouts('```note warning\nMind the gap\n```\n\nA ==marked== word');
+    const aside = container.querySelector('aside.callout');
+
+    expect(aside?.getAttribute('data-kind')).toBe('warning');
+    expect(aside?.hasAttribute('onclick')).toBe(false);
+    expect(container.querySelector('mark')?.textContent).toBe('marked');
+  });
+
+  it('keep extension-only tags out of renderers without the extension', () => {
+    const container = document.createElement('div');
+    container.innerHTML = createMarkdownRenderer([])('<aside data-kind="x">text</aside>');
+
+    expect(container.querySelector('aside')).toBeNull();
+    expect(container.textContent).toBe('text');
+  });
+
+  it('apply registered extensions to renderMarkdown, replacing by name', () => {
+    registerMarkdownExtension(calloutExtension);
+    registerMarkdownExtension({ ...calloutExtension, fences: { note: code => `<aside class="replaced">${code}</aside>` } });
+
+    expect(getMarkdownExtensions().map(extension => extension.name)).toEqual(['mermaid', 'callouts']);
+    expect(render('```note\nhi\n```').querySelector('aside.replaced')?.textContent).toBe('hi');
+  });
+});
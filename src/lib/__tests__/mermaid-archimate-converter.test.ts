@@ -0,0 +1,207 @@
+/**
+ * Unit tests for reading Mermaid flowcharts back into Archimate models and exchange XML
+ */
+
+import { parseArchimateXML, type ArchimateElement, type ArchimateRelationship } from '@/lib/archimate-parser';
+import { writeArchimateExchangeXML } from '@/lib/archimate-exchange-writer';
+import { generateMermaidFromArchimate } from '@/lib/mermaid-generator';
+import { parseMermaidFlowchart } from '@/lib/mermaid-flowchart-parser';
+import { convertMermaidToArchimate, convertMermaidToExchangeXML } from '@/lib/mermaid-archimate-converter';
+
+const element = (identifier: string, name: string, type: string): ArchimateElement => ({
+  identifier,
+  type,
+  name,
+  documentation: null,
+  properties: {},
+});
+
+const relationship = (
+  source: string,
+  target: string,
+  type: string,
+  name: string | null = null
+): ArchimateRelationship => ({
+  identifier: `${source}-${target}`,
+  type,
+  source,
+  target,
+  name,
+  documentation: null,
+  properties: {},
+});
+
+const entities = [
+  element('actor', 'Customer "VIP"', 'BusinessActor'),
+  element('order', 'Place Order', 'BusinessProcess'),
+  element('shop', 'Web Shop', 'ApplicationComponent'),
+  element('checkout', 'Checkout', 'ApplicationService'),
+  element('data', 'Order Data', 'DataObject'),
+  element('split', 'Split', 'OrJunction'),
+];
+const relationships = [
+  relationship('actor', 'order', 'Assignment'),
+  relationship('checkout', 'order', 'Serving', 'supports'),
+  relationship('shop', 'checkout', 'Realization'),
+  relationship('shop', 'data', 'Access'),
+  relationship('order', 'split', 'Triggering'),
+  relationship('shop', 'shop', 'Flow'),
+];
+
+// Elements as "name: type" and relationships by the names of their ends
+const summarize = (xml: string) => {
+  const model = parseArchimateXML(xml);
+  const nameOf = (identifier: string) => model.elements.get(identifier)?.name;
+  return {
+    elements: Array.from(model.elements.values()).map(el => `${el.name}: ${el.type}`),
+    relationships: model.relationships.map(rel => `${nameOf(rel.source)} -${rel.type}-> ${nameOf(rel.target)}`),
+    view: Array.from(model.views.values())[0],
+  };
+};
+
+describe('parseMermaidFlowchart', () => {
+  it('reads shapes, classes, chained and labelled edges', () => {
+    const flowchart = parseMermaidFlowchart(`flowchart LR
+      a[Start] --> b{Ready?} -- yes --> c([Done]):::done
+      a & b -.->|"retry #quot;now#quot;"| d
+      class a,d highlight`);
+
+    expect(flowchart.direction).toBe('LR');
+    expect(flowchart.nodes.map(node => [node.id, node.label, node.shape])).toEqual([
+      ['a', 'Start', 'rectangle'],
+      ['b', 'Ready?', 'rhombus'],
+      ['c', 'Done', 'stadium'],
+      ['d', 'd', 'rectangle'],
+    ]);
+    expect(flowchart.nodes.find(node => node.id === 'c')?.classes).toEqual(['done']);
+    expect(flowchart.nodes.find(node => node.id === 'd')?.classes).toEqual(['highlight']);
+    expect(flowchart.edges.map(edge => `${edge.source}${edge.link}${edge.target}:${edge.label}`)).toEqual([
+      'a-->b:null',
+      'b-->c:yes',
+      'a-.->d:retry "now"',
+      'b-.->d:retry "now"',
+    ]);
+  });
+
+  it('tracks subgraph membership and link styles', () => {
+    const flowchart = parseMermaidFlowchart(`graph TD
+      subgraph outer["Outer"]
+        subgraph inner
+          x
+        end
+        y
+      end
+      x --> y
+      linkStyle 0 stroke-width:3px`);
+
+    expect(flowchart.subgraphs).toEqual([
+      { id: 'outer', label: 'Outer', parent: null },
+      { id: 'inner', label: 'inner', parent: 'outer' },
+    ]);
+    expect(flowchart.nodes.map(node => [node.id, node.parent])).toEqual([
+      ['x', 'inner'],
+      ['y', 'outer'],
+    ]);
+    expect(flowchart.edges[0].style).toBe('stroke-width:3px');
+  });
+
+  it('rejects other diagram types', () => {
+    expect(() => parseMermaidFlowchart('sequenceDiagram\n  A->>B: hi')).toThrow(/Only Mermaid flowcharts/);
+  });
+});
+
+describe('convertMermaidToExchangeXML', () => {
+  it('round-trips a diagram generated with element types shown', () => {
+    const script = generateMermaidFromArchimate(entities, relationships, [], {
+      notation: 'archimate',
+      showElementType: true,
+    });
+    const { elements, relationships: rels } = summarize(convertMermaidToExchangeXML(script));
+
+    expect(elements).toEqual(entities.map(el => `${el.name}: ${el.type}`));
+    expect(rels).toEqual([
+      'Customer "VIP" -Assignment-> Place Order',
+      'Checkout -Serving-> Place Order',
+      'Web Shop -Realization-> Checkout',
+      'Web Shop -Access-> Order Data',
+      'Place Order -Triggering-> Split',
+      'Web Shop -Flow-> Web Shop',
+    ]);
+  });
+
+  it('recovers types from classes, arrows and link styles when labels carry only names', () => {
+    const script = generateMermaidFromArchimate(entities, relationships, [], {
+      notation: 'archimate',
+      edgeLabels: 'name',
+    });
+    const model = parseArchimateXML(convertMermaidToExchangeXML(script));
+
+    expect(Array.from(model.elements.values()).map(el => el.type)).toEqual(entities.map(el => el.type));
+    expect(model.relationships.map(rel => [rel.type, rel.name])).toEqual([
+      ['Assignment', null],
+      ['Serving', 'supports'],
+      ['Realization', null],
+      ['Access', null],
+      ['Triggering', null],
+      ['Flow', null],
+    ]);
+  });
+
+  it('places every element in one view, nested inside its group', () => {
+    const xml = convertMermaidToExchangeXML(
+      `graph LR
+        subgraph team["Team «Grouping»"]
+          api([API])
+        end
+        user[User] --> api`,
+      { name: 'Team View' }
+    );
+    const { elements, relationships: rels, view } = summarize(xml);
+
+    expect(elements).toEqual(['Team: Grouping', 'API: ApplicationService', 'User: ApplicationComponent']);
+    expect(rels).toEqual(['User -Serving-> API', 'Team -Aggregation-> API']);
+    expect(view.name).toBe('Team View');
+    expect(view.nodes.map(node => node.elementRef)).toEqual(['id-team', 'id-user']);
+    expect(view.nodes[0].children.map(node => node.elementRef)).toEqual(['id-api']);
+    // Only the drawn edge becomes a connection; nesting shows the aggregation
+    expect(view.connections).toHaveLength(1);
+
+    // Left to right: the user comes before the group holding the API it uses
+    const [group, user] = view.nodes.map(node => node.bounds!);
+    expect(user.x).toBeLessThan(group.x);
+    const api = view.nodes[0].children[0].bounds!;
+    expect(api.x).toBeGreaterThan(group.x);
+    expect(api.x + api.width).toBeLessThan(group.x + group.width);
+  });
+
+  it('uses layer subgraphs, shapes and labelled relationship types for hand-written charts', () => {
+    const model = convertMermaidToArchimate(`graph TD
+      subgraph Business
+        clerk[Clerk] --> handle(Handle claim)
+      end
+      subgraph Technology
+        db[(Claims DB)]
+      end
+      handle -->|"stores in (Access)"| db
+      db --x clerk`);
+    const types = Object.fromEntries(Array.from(model.elements.values()).map(el => [el.name, el.type]));
+    const rels = model.relationships.map(rel => [rel.type, rel.name]);
+
+    expect(types).toEqual({ Clerk: 'BusinessActor', 'Handle claim': 'BusinessProcess', 'Claims DB': 'Artifact' });
+    // Specialization only relates elements of one type, so the arrow falls back to Association
+    expect(rels).toEqual([
+      ['Serving', null],
+      ['Access', 'stores in'],
+      ['Association', null],
+    ]);
+  });
+
+  it('writes property definitions for element properties', () => {
+    const model = convertMermaidToArchimate('graph TD\n  a[A]');
+    model.elements.get('id-a')!.properties = { Owner: 'Team & Co' };
+    const parsed = parseArchimateXML(writeArchimateExchangeXML(model, { name: 'With properties' }));
+
+    expect(parsed.elements.get('id-a')?.properties).toEqual({ Owner: 'Team & Co' });
+    expect(Array.from(parsed.propertyDefinitions.values()).map(def => def.name)).toEqual(['Owner']);
+  });
+});
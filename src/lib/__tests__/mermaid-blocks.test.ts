@@ -0,0 +1,115 @@
+/**
+ * Unit tests for locating Mermaid blocks and validating them incrementally
+ */
+
+import {
+  describeMermaidError,
+  findMermaidBlockAt,
+  findMermaidBlocks,
+  validateMermaidBlocks,
+  type MermaidValidationCache,
+} from '@/lib/mermaid-blocks';
+
+const fence = (script: string) => '```mermaid\n' + script + '\n```';
+
+const document = [
+  '# Architecture',
+  fence('graph TD\n  A --> B'),
+  'Some text',
+  fence('graph TD\n  A --> '),
+  fence('sequenceDiagram\n  A->>B: hi'),
+  fence('graph LR\n  C -->'),
+].join('\n\n');
+
+// Stands in for mermaid.parse: scripts ending in an arrow are invalid
+const createParse = () =>
+  jest.fn(async (script: string) => {
+    if (/-->\s*$/.test(script)) {
+      throw { str: `Parse error in "${script.split('\n')[0]}"` };
+    }
+    return true;
+  });
+
+describe('findMermaidBlocks', () => {
+  it('finds every block with its offsets', () => {
+    const blocks = findMermaidBlocks(document);
+
+    expect(blocks.map(block => block.index)).toEqual([0, 1, 2, 3]);
+    expect(blocks[2].script).toBe('sequenceDiagram\n  A->>B: hi');
+    blocks.forEach(block => {
+      expect(document.slice(block.startCharIndex, block.endCharIndex)).toBe(fence(block.script));
+    });
+  });
+
+  it('finds the block at a position', () => {
+    const position = document.indexOf('sequenceDiagram');
+
+    expect(findMermaidBlockAt(document, position)?.index).toBe(2);
+    expect(findMermaidBlockAt(document, 0)).toBeNull();
+  });
+});
+
+describe('validateMermaidBlocks', () => {
+  it('reports every failing block, keyed by its index', async () => {
+    const errors = await validateMermaidBlocks(findMermaidBlocks(document), createParse(), new Map());
+
+    expect(errors.map(error => [error.blockIndex, error.message])).toEqual([
+      [1, 'Parse error in "graph TD"'],
+      [3, 'Parse error in "graph LR"'],
+    ]);
+    expect(document.slice(errors[1].startCharIndex, errors[1].endCharIndex)).toBe(fence('graph LR\n  C -->'));
+  });
+
+  it('maps the reported line to the document', async () => {
+    const parse = jest.fn(async (script: string) => {
+      if (script.startsWith('sequenceDiagram')) throw { str: 'Parse error on line 2:\n...' };
+      if (script.endsWith('A --> ')) throw new Error('No diagram type detected');
+    });
+    const [fenceError, lineError] = await validateMermaidBlocks(findMermaidBlocks(document), parse, new Map());
+
+    expect(lineError.line).toBe(2);
+    expect(document.slice(lineError.from, lineError.to)).toBe('  A->>B: hi');
+    // Without a line, the opening fence is marked
+    expect(fenceError.line).toBeNull();
+    expect(document.slice(fenceError.from, fenceError.to)).toBe('```mermaid');
+  });
+
+  it('only parses blocks that changed since the previous run', async () => {
+    const parse = createParse();
+    const cache: MermaidValidationCache = new Map();
+    await validateMermaidBlocks(findMermaidBlocks(document), parse, cache);
+    expect(parse).toHaveBeenCalledTimes(4);
+
+    // Typing above the diagrams moves them without changing their scripts
+    const edited = `Intro\n\n${document.replace('graph LR\n  C -->', 'graph LR\n  C --> D')}`;
+    parse.mockClear();
+    const errors = await validateMermaidBlocks(findMermaidBlocks(edited), parse, cache);
+
+    expect(parse).toHaveBeenCalledTimes(1);
+    expect(parse).toHaveBeenCalledWith('graph LR\n  C --> D');
+    expect(errors.map(error => error.blockIndex)).toEqual([1]);
+    expect(errors[0].startCharIndex).toBe(edited.indexOf(fence('graph TD\n  A --> ')));
+    // The script that no longer exists is dropped from the cache
+    expect(cache.has('graph LR\n  C -->')).toBe(false);
+  });
+
+  it('skips empty blocks', async () => {
+    const parse = createParse();
+    const errors = await validateMermaidBlocks(findMermaidBlocks(fence('  ')), parse, new Map());
+
+    expect(errors).toEqual([]);
+    expect(parse).not.toHaveBeenCalled();
+  });
+});
+
+describe('describeMermaidError', () => {
+  it('reads the line from the message, then from the parser hash', () => {
+    expect(describeMermaidError({ message: 'Parse error on line 3:\n...' }).line).toBe(3);
+    expect(describeMermaidError({ str: 'Unexpected token', hash: { loc: { first_line: 2 } } }).line).toBe(2);
+    expect(describeMermaidError({ message: 'Lexical error', hash: { line: 1 } }).line).toBe(2);
+    expect(describeMermaidError(new Error('No diagram type detected'))).toEqual({
+      message: 'No diagram type detected',
+      line: null,
+    });
+  });
+});
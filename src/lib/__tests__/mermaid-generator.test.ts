@@ -0,0 +1,194 @@
+/**
+ * Unit tests for the Archimate to Mermaid generator
+ * Tests flat output, view-aware nesting and connection filtering, and the C4 and class emitters
+ */
+
+import { generateMermaidDiagram, generateMermaidFromArchimate } from '@/lib/mermaid-generator';
+import type { ArchimateElement, ArchimateRelationship, ArchimateView } from '@/lib/archimate-parser';
+
+const element = (identifier: string, name: string, type = 'ApplicationComponent'): ArchimateElement => ({
+  identifier,
+  type,
+  name,
+  documentation: null,
+  properties: {},
+});
+
+const relationship = (identifier: string, source: string, target: string, type = 'Serving'): ArchimateRelationship => ({
+  identifier,
+  type,
+  source,
+  target,
+  name: null,
+  documentation: null,
+  properties: {},
+});
+
+const entities = [element('platform', 'Platform'), element('api', 'API'), element('web', 'Web')];
+const relationships = [
+  relationship('r-compose', 'platform', 'api', 'Composition'),
+  relationship('r-serve', 'api', 'web'),
+];
+
+const view: ArchimateView = {
+  identifier: 'v1',
+  name: 'Landscape',
+  documentation: null,
+  properties: {},
+  elementRefs: ['platform', 'api', 'web'],
+  nodes: [
+    {
+      identifier: 'n-web',
+      elementRef: 'web',
+      label: null,
+      bounds: { x: 0, y: 400, width: 120, height: 55 },
+      children: [],
+    },
+    {
+      identifier: 'n-platform',
+      elementRef: 'platform',
+      label: null,
+      bounds: { x: 0, y: 0, width: 400, height: 300 },
+      children: [
+        { identifier: 'n-api', elementRef: 'api', label: null, bounds: null, children: [] },
+      ],
+    },
+  ],
+  connections: [{ identifier: 'c1', relationshipRef: 'r-serve', source: 'n-api', target: 'n-web' }],
+};
+
+describe('generateMermaidFromArchimate', () => {
+  it('should emit every relationship when no view is given', () => {
+    const script = generateMermaidFromArchimate(entities, relationships);
+
+    expect(script).not.toContain('subgraph');
+    expect(script).toContain('platform -->|"Composition"| api');
+    expect(script).toContain('api -->|"Serving"| web');
+  });
+
+  it('should turn nested view nodes into subgraphs ordered by position', () => {
+    const script = generateMermaidFromArchimate(entities, relationships, [view]);
+
+    expect(script).toMatch(/subgraph platform\["Platform"\]\n\s+api\[.*\];\n\s+end/);
+    expect(script.indexOf('subgraph platform')).toBeLessThan(script.indexOf('web['));
+  });
+
+  it('should only draw relationships that the view draws', () => {
+    const script = generateMermaidFromArchimate(entities, relationships, [view]);
+
+    expect(script).toContain('api -->|"Serving"| web');
+    expect(script).not.toContain('Composition');
+  });
+
+  it('should keep elements from outside the views and their relationships', () => {
+    const extra = element('db', 'Database', 'DataObject');
+    const script = generateMermaidFromArchimate(
+      [...entities, extra],
+      [...relationships, relationship('r-access', 'api', 'db', 'Access')],
+      [view]
+    );
+
+    expect(script).toContain('db[');
+    expect(script).toContain('api -->|"Access"| db');
+  });
+
+  it('should group elements into layer subgraphs in archimate notation', () => {
+    const actor = element('actor', 'Customer', 'BusinessActor');
+    const script = generateMermaidFromArchimate([...entities, actor], relationships, [], { notation: 'archimate' });
+
+    expect(script.indexOf('subgraph layer_Business')).toBeLessThan(script.indexOf('subgraph layer_Application'));
+    expect(script).toMatch(/subgraph layer_Business\["Business"\]\n\s+actor\["Customer"\];\n\s+end/);
+    expect(script).toContain('classDef BusinessActor fill:#ffffb5');
+    expect(script).toContain('class platform,api,web ApplicationComponent;');
+  });
+
+  it('should give each relationship type its own arrow style in archimate notation', () => {
+    const script = generateMermaidFromArchimate(
+      entities,
+      [...relationships, relationship('r-flow', 'web', 'api', 'Flow')],
+      [],
+      { notation: 'archimate' }
+    );
+
+    expect(script).toContain('platform ==o|"Composition"| api');
+    expect(script).toContain('api -->|"Serving"| web');
+    expect(script).toContain('web -.->|"Flow"| api');
+    expect(script).toContain('linkStyle 2 stroke-dasharray:8 4;');
+  });
+
+  it('should honor direction, edge label and node label options', () => {
+    const named = { ...relationships[1], name: 'REST "v2"' };
+    const script = generateMermaidFromArchimate(entities, [relationships[0], named], [], {
+      direction: 'LR',
+      edgeLabels: 'both',
+      showElementType: true,
+      maxLabelLength: 6,
+    });
+
+    expect(script.startsWith('graph LR;')).toBe(true);
+    expect(script).toContain('platform -->|"Compo…"| api');
+    expect(script).toContain('api -->|"REST…"| web');
+    expect(script).toContain('Platf…<br/>«Application Component»');
+  });
+
+  it('should omit edge labels when asked to', () => {
+    const script = generateMermaidFromArchimate(entities, relationships, [], { edgeLabels: 'none' });
+    expect(script).toContain('  platform --> api;');
+  });
+});
+
+describe('generateMermaidDiagram', () => {
+  const actor = element('actor', 'Customer "VIP"', 'BusinessActor');
+  const cluster = element('cluster', 'Cluster', 'Node');
+  const shop = { ...element('shop', 'Shop'), properties: { Technology: 'React' } };
+  const c4Relationships = [
+    relationship('r-host', 'cluster', 'api', 'Assignment'),
+    relationship('r-call', 'shop', 'api', 'Flow'),
+    relationship('r-serve-actor', 'shop', 'actor'),
+  ];
+
+  it('should emit people and systems in a C4 context diagram', () => {
+    const script = generateMermaidDiagram(
+      [actor, cluster, shop, element('api', 'API'), element('goal', 'Goal', 'Goal')],
+      c4Relationships,
+      [],
+      { format: 'c4Context' }
+    );
+
+    expect(script.startsWith('C4Context\n')).toBe(true);
+    expect(script).toContain(`Person(actor, "Customer 'VIP'", "")`);
+    expect(script).toContain('System(cluster, "Cluster", "")');
+    expect(script).toContain('Rel(cluster, api, "Assignment")');
+    expect(script).not.toContain('goal');
+  });
+
+  it('should nest hosted components in a boundary in a C4 container diagram', () => {
+    const script = generateMermaidDiagram([actor, cluster, shop, element('api', 'API')], c4Relationships, [], {
+      format: 'c4Container',
+    });
+
+    expect(script).toContain('Container(shop, "Shop", "React", "")');
+    expect(script).toMatch(/Boundary\(cluster, "Cluster", "Node"\) \{\n\s+Container\(api, "API", "", ""\)\n\s+\}/);
+    expect(script).toContain('Rel(shop, api, "Flow")');
+    expect(script).not.toContain('Rel(cluster, api');
+  });
+
+  it('should emit business and data objects as a class diagram', () => {
+    const script = generateMermaidDiagram(
+      [element('order', 'Order', 'DataObject'), element('line', 'Order Line', 'DataObject'), element('base', 'Record', 'BusinessObject'), shop],
+      [
+        relationship('r-lines', 'order', 'line', 'Composition'),
+        relationship('r-special', 'order', 'base', 'Specialization'),
+        relationship('r-shop', 'shop', 'order', 'Access'),
+      ],
+      [],
+      { format: 'class', direction: 'LR' }
+    );
+
+    expect(script.startsWith('classDiagram\n  direction LR\n')).toBe(true);
+    expect(script).toContain('class line["Order Line"]');
+    expect(script).toContain('order *-- line : Composition');
+    expect(script).toContain('base <|-- order : Specialization');
+    expect(script).not.toContain('shop');
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for Mermaid identifier and label encoding
+ * Runs a corpus of hostile names and identifiers through every diagram format
+ * and Mermaid's own parser
+ */
+
+import { deserialize, serialize } from 'v8';
+import { createMermaidIdTable, toMermaidId } from '@/lib/mermaid-ids';
+import { escapeMermaidText } from '@/lib/mermaid-labels';
+import { generateMermaidDiagram, type MermaidDiagramFormat } from '@/lib/mermaid-generator';
+import type { ArchimateElement, ArchimateRelationship } from '@/lib/archimate-parser';
+
+const NASTY_NAMES = [
+  'A [bracket]',
+  'pipe | name',
+  'semi; colon',
+  'end',
+  'subgraph',
+  'quote "x"',
+  "single 'x'",
+  'C# & <b>bold</b>',
+  '`tick`',
+  '%% comment',
+  'line\nbreak',
+  '',
+  '{curly} (paren)',
+  '#35;',
+  'a-->b',
+  'a"]; B["x',
+  'émoji 🚀',
+];
+
+const NASTY_IDENTIFIERS = [
+  'end',
+  'id-1',
+  'id_1',
+  '1abc',
+  'a b',
+  'o',
+  'x',
+  'class',
+  'style',
+  'default',
+  'graph',
+  'id.dot',
+  'π',
+  '',
+  'click',
+  'direction',
+  'classDef',
+];
+
+const TYPES = ['ApplicationComponent', 'BusinessActor', 'DataObject', 'Node', 'BusinessProcess', 'BusinessObject'];
+
+const entities: ArchimateElement[] = NASTY_NAMES.map((name, index) => ({
+  identifier: NASTY_IDENTIFIERS[index],
+  type: TYPES[index % TYPES.length],
+  name,
+  documentation: name,
+  properties: {},
+}));
+
+const relationships: ArchimateRelationship[] = entities.slice(1).map((entity, index) => ({
+  identifier: `r${index}`,
+  type: index % 2 ? 'Composition' : 'Serving',
+  source: entities[index].identifier,
+  target: entity.identifier,
+  name: NASTY_NAMES[(index + 4) % NASTY_NAMES.length],
+  documentation: null,
+  properties: {},
+}));
+
+type Mermaid = typeof import('mermaid/dist/mermaid.js').default;
+
+// Mermaid's bundle calls structuredClone, which jsdom test environments lack
+let mermaid: Mermaid;
+beforeAll(async () => {
+  globalThis.structuredClone ??= <T>(value: T): T => deserialize(serialize(value));
+  mermaid = (await import('mermaid/dist/mermaid.js')).default;
+});
+
+const SAFE_ID = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const KEYWORDS = ['end', 'graph', 'subgraph', 'class', 'style', 'default', 'click', 'direction', 'classDef'];
+
+describe('toMermaidId', () => {
+  it('should keep identifiers that are already safe', () => {
+    expect(toMermaidId('platform')).toBe('platform');
+    expect(toMermaidId('id_123')).toBe('id_123');
+  });
+
+  it.each(NASTY_IDENTIFIERS)('should turn %j into a safe, non-keyword ID', identifier => {
+    const id = toMermaidId(identifier);
+    expect(id).toMatch(SAFE_ID);
+    expect(KEYWORDS).not.toContain(id);
+  });
+});
+
+describe('createMermaidIdTable', () => {
+  it('should map identifiers both ways and tell colliding identifiers apart', () => {
+    const ids = createMermaidIdTable();
+
+    expect(ids.idFor('id-1')).toBe('id_1');
+    expect(ids.idFor('id_1')).toBe('id_1_2');
+    expect(ids.idFor('id-1')).toBe('id_1');
+    expect(ids.identifierFor('id_1_2')).toBe('id_1');
+    expect(ids.identifierFor('unknown')).toBeUndefined();
+    expect(ids.entries()).toEqual([
+      ['id-1', 'id_1'],
+      ['id_1', 'id_1_2'],
+    ]);
+  });
+
+  it('should produce the same IDs every time the same model is generated', () => {
+    const first = generateMermaidDiagram(entities, relationships);
+    const second = generateMermaidDiagram(entities, relationships);
+    expect(second).toBe(first);
+  });
+
+  it('should record the mapping of a generated diagram', () => {
+    const ids = createMermaidIdTable();
+    const script = generateMermaidDiagram(entities, relationships, [], {}, ids);
+
+    expect(ids.entries()).toHaveLength(NASTY_IDENTIFIERS.length);
+    ids.entries().forEach(([identifier, id]) => {
+      expect(ids.identifierFor(id)).toBe(identifier);
+      expect(script).toContain(`  ${id}[`);
+    });
+  });
+});
+
+describe('escapeMermaidText', () => {
+  it('should replace characters that end a quoted label or start markup', () => {
+    expect(escapeMermaidText('a"]; B["x')).toBe('a#quot;]; B[#quot;x');
+    expect(escapeMermaidText('C# <b>')).toBe('C#35; #lt;b#gt;');
+    expect(escapeMermaidText('`x`')).toBe('#96;x#96;');
+    expect(escapeMermaidText('one\r\ntwo')).toBe('one<br/>two');
+    expect(escapeMermaidText('')).toBe('#nbsp;');
+  });
+});
+
+describe('generated diagrams with nasty names', () => {
+  const formats: MermaidDiagramFormat[] = ['flowchart', 'c4Context', 'c4Container', 'class'];
+
+  it.each(formats)('should produce %s output that Mermaid parses', async format => {
+    const script = generateMermaidDiagram(entities, relationships, [], { format, edgeLabels: 'both' });
+    await expect(mermaid.parse(script)).resolves.toBe(true);
+  });
+
+  it.each(['plain', 'archimate'] as const)('should produce %s flowcharts with element types that Mermaid parses', async notation => {
+    const script = generateMermaidDiagram(entities, relationships, [], { notation, showElementType: true, maxLabelLength: 8 });
+    await expect(mermaid.parse(script)).resolves.toBe(true);
+  });
+
+  it.each(formats)('should only use safe IDs and balanced quotes in %s output', format => {
+    const ids = createMermaidIdTable();
+    const script = generateMermaidDiagram(entities, relationships, [], { format, edgeLabels: 'both' }, ids);
+
+    ids.entries().forEach(([, id]) => expect(id).toMatch(SAFE_ID));
+    script
+      .split('\n')
+      .slice(1)
+      .forEach(line => {
+        // Every quoted string closes on its own line
+        expect((line.match(/"/g) ?? []).length % 2).toBe(0);
+      });
+  });
+
+  it('should keep plain and archimate flowchart labels quoted exactly once', () => {
+    ['plain', 'archimate'].forEach(notation => {
+      const script = generateMermaidDiagram(entities, relationships, [], {
+        notation: notation as 'plain' | 'archimate',
+        showElementType: true,
+      });
+
+      expect(script).not.toMatch(/\[""/);
+      expect(script).toContain('#quot;x#quot;');
+      expect(script).not.toMatch(/^\s+end\[/m);
+    });
+  });
+});
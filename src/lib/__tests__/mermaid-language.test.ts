@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the Mermaid editor mode: ID collection and completions
+ */
+
+import { EditorState } from '@codemirror/state';
+import { CompletionContext, type CompletionResult } from '@codemirror/autocomplete';
+import { collectMermaidIds, detectDiagramKind, mermaidCompletionSource } from '@/lib/mermaid-language';
+
+// Complete at the "|" marker of a document
+const complete = (text: string, explicit = false): CompletionResult | null => {
+  const pos = text.indexOf('|');
+  const state = EditorState.create({ doc: text.slice(0, pos) + text.slice(pos + 1) });
+  return mermaidCompletionSource(new CompletionContext(state, pos, explicit));
+};
+
+const labels = (result: CompletionResult | null) => result?.options.map(option => option.label) ?? [];
+
+describe('detectDiagramKind', () => {
+  it('reads the diagram type from the header', () => {
+    expect(detectDiagramKind('graph TD;')).toBe('flowchart');
+    expect(detectDiagramKind('stateDiagram-v2')).toBe('state');
+    expect(detectDiagramKind('C4Container')).toBe('c4');
+    expect(detectDiagramKind('pie')).toBeNull();
+  });
+});
+
+describe('collectMermaidIds', () => {
+  it('collects flowchart node IDs but not labels or styles', () => {
+    const script = [
+      'graph TD',
+      '  %% comment words',
+      '  start[Start here] -->|on submit| check{Valid?}',
+      '  check -- yes --> save[(Order DB)]:::store',
+      '  subgraph backend [Back End]',
+      '    api(API)',
+      '  end',
+      '  classDef store fill:#fff',
+      '  class save store',
+    ].join('\n');
+
+    expect(collectMermaidIds(script)).toEqual(['start', 'check', 'save', 'backend', 'api']);
+  });
+
+  it('collects sequence participants but not messages or aliases', () => {
+    const script = [
+      'sequenceDiagram',
+      '  participant web as Web Shop',
+      '  actor user',
+      '  user->>web: Place order now',
+      '  alt paid',
+      '    web-->>user: Confirmation',
+      '  end',
+      '  Note over web,erp: sync',
+    ].join('\n');
+
+    expect(collectMermaidIds(script)).toEqual(['web', 'user', 'paid', 'erp']);
+  });
+
+  it('skips class members, ER attributes and reads C4 aliases and gantt task IDs', () => {
+    expect(collectMermaidIds('classDiagram\n  class Animal {\n    +String name\n  }\n  Animal <|-- Dog : extends')).toEqual([
+      'Animal',
+      'Dog',
+    ]);
+    expect(collectMermaidIds('erDiagram\n  CUSTOMER ||--o{ ORDER : places\n  ORDER {\n    string id\n  }')).toEqual([
+      'CUSTOMER',
+      'ORDER',
+    ]);
+    expect(collectMermaidIds('C4Context\n  Person(customer, "Customer")\n  System(shop, "Shop")\n  Rel(customer, shop, "Uses")')).toEqual([
+      'customer',
+      'shop',
+    ]);
+    expect(collectMermaidIds('gantt\n  section Build\n  Design :des, 2024-01-01, 5d\n  Code :crit, dev, after des, 10d')).toEqual([
+      'des',
+      'dev',
+    ]);
+  });
+});
+
+describe('mermaidCompletionSource', () => {
+  it('offers the IDs of the same block, not of other blocks', () => {
+    const text = [
+      '```mermaid',
+      'graph TD',
+      '  other --> elsewhere',
+      '```',
+      '',
+      '```mermaid',
+      'graph TD',
+      '  customer[Customer] --> orders',
+      '  cu|',
+      '```',
+    ].join('\n');
+    const result = complete(text);
+
+    expect(labels(result)).toEqual(expect.arrayContaining(['customer', 'orders', 'subgraph']));
+    expect(labels(result)).not.toContain('other');
+    // The word being typed is not offered as an ID of its own
+    expect(labels(result)).not.toContain('cu');
+    expect(result?.from).toBe(text.indexOf('cu|'));
+  });
+
+  it('offers snippets for the diagram type', () => {
+    const result = complete('```mermaid\nsequenceDiagram\n  participant A\n  al|\n```');
+    const alt = result?.options.find(option => option.label === 'alt/else');
+
+    expect(alt?.type).toBe('keyword');
+    expect(labels(result)).not.toContain('subgraph');
+  });
+
+  it('offers diagram types on the first line', () => {
+    expect(labels(complete('```mermaid\nseq|\n```'))).toContain('sequenceDiagram');
+  });
+
+  it('stays out of plain Markdown and needs a word unless invoked explicitly', () => {
+    expect(complete('Some text|')).toBeNull();
+    expect(complete('```mermaid\ngraph TD\n  a --> |\n```')).toBeNull();
+    expect(labels(complete('```mermaid\ngraph TD\n  a --> |\n```', true))).toContain('a');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for incremental preview updates and the diagram SVG cache
+ */
+
+import { hashSource, patchPreview, renderMermaidDiagrams, type MermaidSvgCache } from '@/lib/preview-blocks';
+
+const diagram = (script: string) => `<div class="mermaid">${script}</div>`;
+
+// A render that draws the script into the SVG and fails on "bad"
+const createRender = () =>
+  jest.fn(async (id: string, script: string) => {
+    if (script.includes('bad')) throw new Error('Parse error on line 1:');
+    return { svg: `<svg id="${id}">${script}</svg>` };
+  });
+
+describe('patchPreview', () => {
+  it('keeps unchanged blocks and replaces only the changed ones', () => {
+    const container = document.createElement('div');
+    patchPreview(container, '<h1>Title</h1><p>First</p><p>Second</p>');
+    const [title, first, second] = Array.from(container.children);
+
+    const inserted = patchPreview(container, '<h1>Title</h1><p>First, edited</p><p>Second</p>');
+
+    expect(inserted).toHaveLength(1);
+    expect(container.children[0]).toBe(title);
+    expect(container.children[1]).not.toBe(first);
+    expect(container.children[1].textContent).toBe('First, edited');
+    expect(container.children[2]).toBe(second);
+  });
+
+  it('follows insertions, removals and moves', () => {
+    const container = document.createElement('div');
+    patchPreview(container, '<p>a</p><p>b</p><p>c</p>');
+    const [a, b, c] = Array.from(container.children);
+
+    const inserted = patchPreview(container, '<p>c</p><p>new</p><p>a</p>');
+
+    expect(inserted).toHaveLength(1);
+    expect(Array.from(container.children)).toEqual([c, inserted[0], a]);
+    expect(b.isConnected).toBe(false);
+    expect(container.innerHTML).toBe('<p>c</p><p>new</p><p>a</p>');
+  });
+
+  it('keeps blocks that only moved to other source lines, updating their lines', () => {
+    const container = document.createElement('div');
+    patchPreview(container, '<p data-line-number="1" data-line-end="1">a</p><p data-line-number="3" data-line-end="4">b</p>');
+    const [a, b] = Array.from(container.children);
+
+    const inserted = patchPreview(
+      container,
+      '<h1 data-line-number="1" data-line-end="1">new</h1><p data-line-number="3" data-line-end="3">a</p><p data-line-number="5" data-line-end="6">b</p>'
+    );
+
+    expect(inserted).toHaveLength(1);
+    expect(Array.from(container.children).slice(1)).toEqual([a, b]);
+    expect(b.getAttribute('data-line-number')).toBe('5');
+    expect(b.getAttribute('data-line-end')).toBe('6');
+  });
+
+  it('updates the positions of list items inside a kept block', () => {
+    const container = document.createElement('div');
+    patchPreview(container, '<ul data-source-from="0" data-source-to="7"><li data-source-from="0" data-source-to="3">a</li></ul>');
+    const [list] = Array.from(container.children);
+
+    patchPreview(container, '<ul data-source-from="4" data-source-to="11"><li data-source-from="4" data-source-to="7">a</li></ul>');
+
+    expect(container.children[0]).toBe(list);
+    expect(list.querySelector('li')?.getAttribute('data-source-from')).toBe('4');
+    expect(list.querySelector('li')?.getAttribute('data-source-to')).toBe('7');
+  });
+
+  it('matches repeated blocks one to one', () => {
+    const container = document.createElement('div');
+    patchPreview(container, '<hr><p>x</p><hr>');
+
+    expect(patchPreview(container, '<hr><p>y</p><hr><hr>')).toHaveLength(2);
+    expect(container.innerHTML).toBe('<hr><p>y</p><hr><hr>');
+  });
+
+  it('keeps rendered diagrams although their markup changed', async () => {
+    const container = document.createElement('div');
+    patchPreview(container, `${diagram('graph TD; A')}<p>text</p>`);
+    await renderMermaidDiagrams(container, createRender(), new Map());
+    const rendered = container.children[0];
+
+    patchPreview(container, `${diagram('graph TD; A')}<p>more text</p>`);
+
+    expect(container.children[0]).toBe(rendered);
+    expect(rendered.querySelector('svg')).not.toBeNull();
+  });
+});
+
+describe('renderMermaidDiagrams', () => {
+  it('renders each new diagram once and reuses the SVG of an unchanged source', async () => {
+    const container = document.createElement('div');
+    const cache: MermaidSvgCache = new Map();
+    const render = createRender();
+
+    patchPreview(container, `${diagram('graph TD; A')}${diagram('graph TD; B')}`);
+    await renderMermaidDiagrams(container, render, cache);
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(cache.has(hashSource('graph TD; A'))).toBe(true);
+
+    // Nothing new to render
+    await renderMermaidDiagrams(container, render, cache);
+    expect(render).toHaveBeenCalledTimes(2);
+
+    // The same diagram inside a new block comes from the cache
+    patchPreview(container, `${diagram('graph TD; A')}${diagram('graph TD; B')}<blockquote>${diagram('graph TD; A')}</blockquote>`);
+    await renderMermaidDiagrams(container, render, cache);
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(container.querySelector('blockquote svg')?.textContent).toBe('graph TD; A');
+  });
+
+  it('returns failed diagrams and prunes the cache to the current diagrams', async () => {
+    const container = document.createElement('div');
+    const cache: MermaidSvgCache = new Map();
+
+    patchPreview(container, `${diagram('graph TD; A')}${diagram('graph TD; B')}`);
+    await renderMermaidDiagrams(container, createRender(), cache);
+
+    patchPreview(container, `${diagram('graph TD; A')}${diagram('graph bad')}`);
+    const failed = await renderMermaidDiagrams(container, createRender(), cache);
+
+    expect(failed).toEqual([container.children[1]]);
+    expect(failed[0].textContent).toBe('graph bad');
+    expect(Array.from(cache.keys())).toEqual([hashSource('graph TD; A')]);
+  });
+
+  it('does not start a render while one from an earlier run is in progress', async () => {
+    let active = 0;
+    let overlapped = false;
+    const render = jest.fn(async (id: string, script: string) => {
+      overlapped ||= active > 0;
+      active++;
+      await new Promise(resolve => setTimeout(resolve, 0));
+      active--;
+      return { svg: `<svg id="${id}">${script}</svg>` };
+    });
+    const first = document.createElement('div');
+    const second = document.createElement('div');
+    patchPreview(first, `${diagram('graph TD; A')}${diagram('graph TD; B')}`);
+    patchPreview(second, diagram('graph TD; C'));
+
+    await Promise.all([
+      renderMermaidDiagrams(first, render, new Map()),
+      renderMermaidDiagrams(second, render, new Map()),
+    ]);
+
+    expect(render).toHaveBeenCalledTimes(3);
+    expect(overlapped).toBe(false);
+    expect(second.querySelector('svg')?.textContent).toBe('graph TD; C');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for tracing preview elements back to their Markdown source
+ */
+
+import { renderMarkdown } from '@/lib/markdown-pipeline';
+import { findMermaidDeclarationLine, findPreviewSourceRange } from '@/lib/preview-source';
+
+// Render a document and return the source text behind the first match of a selector
+const sourceOf = (markdown: string, selector: string, setup?: (container: HTMLElement) => void): string | null => {
+  const container = document.createElement('div');
+  container.innerHTML = renderMarkdown(markdown);
+  setup?.(container);
+  const element = container.querySelector(selector);
+  const range = element && findPreviewSourceRange(element, markdown);
+  return range ? markdown.slice(range.from, range.to) : null;
+};
+
+describe('findPreviewSourceRange', () => {
+  const markdown = [
+    '# Solution *Architecture*',
+    '',
+    'Intro with a **typo** here',
+    'over two lines.',
+    '',
+    '- first item',
+    '- second [link](https://example.com)',
+    '  - nested item',
+    '',
+    '> quoted text',
+    '',
+    '| Name | Owner |',
+    '|------|-------|',
+    '| CRM  | Sales |',
+  ].join('\n');
+
+  it('maps headings and paragraphs to their Markdown', () => {
+    expect(sourceOf(markdown, 'h1 em')).toBe('# Solution *Architecture*');
+    expect(sourceOf(markdown, 'p strong')).toBe('Intro with a **typo** here\nover two lines.');
+  });
+
+  it('maps list items, nested ones included, to their own lines', () => {
+    expect(sourceOf(markdown, 'li')).toBe('- first item');
+    expect(sourceOf(markdown, 'li li')).toBe('- nested item');
+  });
+
+  it('maps table cells to their text and quoted paragraphs to their line', () => {
+    expect(sourceOf(markdown, 'tbody td:last-child')).toBe('Sales');
+    expect(sourceOf(markdown, 'thead th')).toBe('Name');
+    expect(sourceOf(markdown, 'blockquote p')).toBe('quoted text');
+  });
+
+  it('keeps offsets right after link definitions', () => {
+    const text = 'See [docs][d].\n\n[d]: https://example.com\n\nAfter the definition';
+    expect(sourceOf(text, 'p:last-child')).toBe('After the definition');
+  });
+});
+
+describe('Mermaid nodes', () => {
+  const markdown = [
+    'Intro',
+    '',
+    '```mermaid',
+    'graph TD',
+    '  %% orders are shown elsewhere',
+    '  customer --> orders',
+    '  orders[(Order DB)] --> billing',
+    '```',
+  ].join('\n');
+
+  // Mimic Mermaid's SVG for a flowchart node and an edge label
+  const drawDiagram = (container: HTMLElement) => {
+    container.querySelector('.mermaid')!.innerHTML =
+      '<svg><g class="node" id="flowchart-orders-1" data-id="orders"><rect></rect>' +
+      '<g class="label"><foreignObject><div><span>Order DB</span></div></foreignObject></g></g>' +
+      '<g class="edgeLabel"><foreignObject><div><span>unknown</span></div></foreignObject></g></svg>';
+  };
+
+  it('select the line declaring the clicked node, without indentation', () => {
+    expect(sourceOf(markdown, '.mermaid span', drawDiagram)).toBe('orders[(Order DB)] --> billing');
+    expect(sourceOf(markdown, '.mermaid rect', drawDiagram)).toBe('orders[(Order DB)] --> billing');
+  });
+
+  it('fall back to the whole fence when no node is recognised', () => {
+    expect(sourceOf(markdown, '.edgeLabel span', drawDiagram)).toBe(markdown.slice(markdown.indexOf('```')));
+  });
+});
+
+describe('findMermaidDeclarationLine', () => {
+  it('prefers declaring keywords and falls back to labels', () => {
+    const script = ['sequenceDiagram', '  user->>web: Place order', '  participant web as Web Shop'].join('\n');
+
+    expect(findMermaidDeclarationLine(script, [{ kind: 'id', value: 'web' }])).toBe(2);
+    expect(findMermaidDeclarationLine(script, [{ kind: 'id', value: 'user' }])).toBe(1);
+    expect(findMermaidDeclarationLine(script, [{ kind: 'id', value: 'nobody' }, { kind: 'label', value: 'Place order' }])).toBe(1);
+    expect(findMermaidDeclarationLine(script, [{ kind: 'id', value: 'sequenceDiagram' }])).toBeNull();
+  });
+});
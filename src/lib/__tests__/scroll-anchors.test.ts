@@ -0,0 +1,40 @@
+/**
+ * Unit tests for mapping between source lines and preview scroll offsets
+ */
+
+import { lineToScrollOffset, scrollOffsetToLine, type ScrollAnchor } from '@/lib/scroll-anchors';
+
+// A heading on line 1, a tall diagram on lines 3-6 and a paragraph on line 8
+const anchors: ScrollAnchor[] = [
+  { startLine: 1, endLine: 1, top: 0, bottom: 40 },
+  { startLine: 3, endLine: 6, top: 60, bottom: 860 },
+  { startLine: 8, endLine: 8, top: 880, bottom: 900 },
+];
+
+describe('lineToScrollOffset', () => {
+  it('puts a block at its top and spreads its lines over its height', () => {
+    expect(lineToScrollOffset(anchors, 3)).toBe(60);
+    expect(lineToScrollOffset(anchors, 5)).toBe(460);
+    expect(lineToScrollOffset(anchors, 8)).toBe(880);
+  });
+
+  it('interpolates across the gaps between blocks and clamps past the last one', () => {
+    expect(lineToScrollOffset(anchors, 2.5)).toBe(50);
+    expect(lineToScrollOffset(anchors, 20)).toBe(900);
+  });
+});
+
+describe('scrollOffsetToLine', () => {
+  it('inverts lineToScrollOffset', () => {
+    [1, 2.5, 3, 4.25, 6.9, 8.5].forEach(line => {
+      expect(scrollOffsetToLine(anchors, lineToScrollOffset(anchors, line))).toBeCloseTo(line);
+    });
+  });
+
+  it('ignores anchors running backwards and handles a preview without any', () => {
+    const nested = [...anchors.slice(0, 2), { startLine: 4, endLine: 4, top: 100, bottom: 120 }, anchors[2]];
+
+    expect(scrollOffsetToLine(nested, 460)).toBe(5);
+    expect(scrollOffsetToLine([], 300)).toBe(1);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for the zip reader. Archives are built with zlib so both stored
+ * and deflated entries are covered.
+ */
+
+import { deflateRawSync } from 'zlib';
+import { isZipSignature, readZipEntries } from '@/lib/zip-reader';
+
+interface FixtureEntry {
+  name: string;
+  content: string;
+  deflate?: boolean;
+}
+
+// Assemble an archive with local headers, a central directory and the end record; checksums are left at zero
+function buildZip(entries: FixtureEntry[]): Uint8Array {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const raw = Buffer.from(entry.content, 'utf8');
+    const data = entry.deflate ? deflateRawSync(raw) : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...localParts, centralDirectory, end]));
+}
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('readZipEntries', () => {
+  it('should list entries with their names and sizes', () => {
+    const entries = readZipEntries(
+      buildZip([
+        { name: 'models/', content: '' },
+        { name: 'models/bank.xml', content: '<model/>' },
+      ])
+    );
+
+    expect(entries.map(({ name, isDirectory, size }) => ({ name, isDirectory, size }))).toEqual([
+      { name: 'models/', isDirectory: true, size: 0 },
+      { name: 'models/bank.xml', isDirectory: false, size: 8 },
+    ]);
+  });
+
+  it('should read stored and deflated entries', async () => {
+    const content = '<model>' + '<element/>'.repeat(100) + '</model>';
+    const [stored, deflated] = readZipEntries(
+      buildZip([
+        { name: 'stored.xml', content },
+        { name: 'deflated.xml', content, deflate: true },
+      ])
+    );
+
+    expect(text(await stored.read())).toBe(content);
+    expect(text(await deflated.read())).toBe(content);
+  });
+
+  it('should decode UTF-8 entry names', () => {
+    const [entry] = readZipEntries(buildZip([{ name: 'modèle.archimate', content: '' }]));
+    expect(entry.name).toBe('modèle.archimate');
+  });
+
+  it('should reject data that is not an archive', () => {
+    expect(() => readZipEntries(new TextEncoder().encode('<model/>'))).toThrow('not a valid zip archive');
+  });
+});
+
+describe('isZipSignature', () => {
+  it('should recognise the local file header', () => {
+    expect(isZipSignature(buildZip([{ name: 'a.xml', content: '' }]))).toBe(true);
+    expect(isZipSignature(new TextEncoder().encode('<?xml'))).toBe(false);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Archimate Diagram Link
+ *
+ * Keeps generated Mermaid blocks linked to the selection that produced them.
+ * The selection and generator options are stored as JSON in a leading `%%`
+ * comment, which Mermaid ignores:
+ *
+ *   %% archimate-diagram {"views":["id-1"],"entityTypes":["Node"],...,"nodes":{"id_1":"id-1"}}
+ *   graph TD;
+ *
+ * A linked block can then be regenerated against a newer version of the model,
+ * and the nodes it gains or loses listed before the block is replaced. The
+ * `nodes` field maps each element's Mermaid ID back to its Archimate identifier,
+ * since collision suffixes can move between versions of the model.
+ */
+
+import type {
+  ArchimateElement,
+  ArchimateModel,
+  ArchimateRelationship,
+  ArchimateView,
+} from './archimate-parser';
+import {
+  DEFAULT_NEIGHBORHOOD_OPTIONS,
+  expandNeighborhood,
+  type ExpansionDirection,
+  type NeighborhoodOptions,
+} from './archimate-neighborhood';
+import {
+  DEFAULT_GENERATOR_OPTIONS,
+  generateMermaidDiagram,
+  type MermaidDiagramFormat,
+  type MermaidDirection,
+  type MermaidEdgeLabel,
+  type MermaidGeneratorOptions,
+  type MermaidNotation,
+} from './mermaid-generator';
+import { createMermaidIdTable } from './mermaid-ids';
+
+export interface ArchimateDiagramSettings {
+  /** Views whose elements are in scope; none means the whole model */
+  views: string[];
+  /** Element types kept from the views in scope */
+  entityTypes: string[];
+  /** Relationship types drawn between the selected elements */
+  relationshipTypes: string[];
+  /** Elements picked individually, from any view */
+  elements: string[];
+  neighborhood: NeighborhoodOptions;
+  options: Required<MermaidGeneratorOptions>;
+}
+
+export interface ArchimateDiagramSelection {
+  entities: ArchimateElement[];
+  relationships: ArchimateRelationship[];
+  views: ArchimateView[];
+}
+
+/** A node declared in a generated diagram */
+export interface DiagramNode {
+  id: string;
+  label: string;
+}
+
+export interface DiagramNodeDiff {
+  added: DiagramNode[];
+  removed: DiagramNode[];
+}
+
+const SETTINGS_PREFIX = '%% archimate-diagram ';
+
+/**
+ * Resolve the elements, relationships and views a set of settings selects in a model.
+ */
+export function selectArchimateDiagram(
+  model: ArchimateModel,
+  settings: ArchimateDiagramSettings
+): ArchimateDiagramSelection {
+  const views = settings.views
+    .map(viewId => model.views.get(viewId))
+    .filter((view): view is ArchimateView => !!view);
+
+  // 1. Get all entities from selected views (or all entities if no view is selected)
+  let entitiesInViews: ArchimateElement[];
+  if (settings.views.length > 0) {
+    const elementIdsInViews = new Set(views.flatMap(view => view.elementRefs));
+    entitiesInViews = Array.from(elementIdsInViews)
+      .map(id => model.elements.get(id))
+      .filter((el): el is ArchimateElement => !!el);
+  } else {
+    entitiesInViews = Array.from(model.elements.values());
+  }
+
+  // 2. Filter those entities by the selected entity types and add the individually picked elements
+  const seedIds = new Set(
+    entitiesInViews.filter(entity => settings.entityTypes.includes(entity.type)).map(entity => entity.identifier)
+  );
+  settings.elements.forEach(id => seedIds.add(id));
+
+  // 3. Pull in neighbors along the followed relationship types, inside or outside the views
+  const entityIds = expandNeighborhood(seedIds, model.relationships, settings.neighborhood);
+  const entities = Array.from(entityIds)
+    .map(id => model.elements.get(id))
+    .filter((el): el is ArchimateElement => !!el);
+
+  // 4. Keep relationships between selected entities of a selected type, or of a type followed by the expansion
+  const followedTypes = settings.neighborhood.hops > 0 ? settings.neighborhood.relationshipTypes : [];
+  const relationships = model.relationships.filter(
+    rel =>
+      entityIds.has(rel.source) &&
+      entityIds.has(rel.target) &&
+      (settings.relationshipTypes.includes(rel.type) || followedTypes.includes(rel.type))
+  );
+
+  return { entities, relationships, views };
+}
+
+/**
+ * Prefix a generated script with the settings that produced it and the
+ * Archimate identifiers of its element nodes, keyed by Mermaid ID.
+ */
+export function embedDiagramSettings(
+  script: string,
+  settings: ArchimateDiagramSettings,
+  nodes: Record<string, string> = {}
+): string {
+  return `${SETTINGS_PREFIX}${JSON.stringify({ ...settings, nodes })}\n${script}`;
+}
+
+/**
+ * Generate the Mermaid script for a selection, with the settings embedded so it can be regenerated.
+ */
+export function generateLinkedScript(selection: ArchimateDiagramSelection, settings: ArchimateDiagramSettings): string {
+  const { entities, relationships, views } = selection;
+  const ids = createMermaidIdTable();
+  const script = generateMermaidDiagram(entities, relationships, views, settings.options, ids);
+  // Only elements are recorded; layer and group frames are not part of the diff
+  const nodes = Object.fromEntries(entities.map(entity => [ids.idFor(entity.identifier), entity.identifier]));
+  return embedDiagramSettings(script, settings, nodes);
+}
+
+/**
+ * Select and generate a linked diagram from a model.
+ */
+export function generateLinkedDiagram(model: ArchimateModel, settings: ArchimateDiagramSettings): string {
+  return generateLinkedScript(selectArchimateDiagram(model, settings), settings);
+}
+
+// Values the stored settings may take; the block is part of the document, so anyone can edit it
+const EXPANSION_DIRECTIONS: ExpansionDirection[] = ['incoming', 'outgoing', 'both'];
+const DIAGRAM_FORMATS: MermaidDiagramFormat[] = ['flowchart', 'c4Context', 'c4Container', 'class'];
+const NOTATIONS: MermaidNotation[] = ['plain', 'archimate'];
+const DIRECTIONS: MermaidDirection[] = ['TD', 'LR', 'BT', 'RL'];
+const EDGE_LABELS: MermaidEdgeLabel[] = ['name', 'type', 'both', 'none'];
+
+const stringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const objectFields = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const oneOf = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+  allowed.find(candidate => candidate === value) ?? fallback;
+
+const count = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : fallback;
+
+const flag = (value: unknown, fallback: boolean): boolean => (typeof value === 'boolean' ? value : fallback);
+
+function readNeighborhood(value: unknown): NeighborhoodOptions {
+  const stored = objectFields(value);
+  const defaults = DEFAULT_NEIGHBORHOOD_OPTIONS;
+  return {
+    hops: count(stored.hops, defaults.hops),
+    relationshipTypes: Array.isArray(stored.relationshipTypes)
+      ? stringArray(stored.relationshipTypes)
+      : defaults.relationshipTypes,
+    direction: oneOf(stored.direction, EXPANSION_DIRECTIONS, defaults.direction),
+  };
+}
+
+function readGeneratorOptions(value: unknown): Required<MermaidGeneratorOptions> {
+  const stored = objectFields(value);
+  const defaults = DEFAULT_GENERATOR_OPTIONS;
+  return {
+    format: oneOf(stored.format, DIAGRAM_FORMATS, defaults.format),
+    notation: oneOf(stored.notation, NOTATIONS, defaults.notation),
+    direction: oneOf(stored.direction, DIRECTIONS, defaults.direction),
+    edgeLabels: oneOf(stored.edgeLabels, EDGE_LABELS, defaults.edgeLabels),
+    showElementType: flag(stored.showElementType, defaults.showElementType),
+    maxLabelLength: count(stored.maxLabelLength, defaults.maxLabelLength),
+  };
+}
+
+/**
+ * Read the settings embedded in a Mermaid script, or null when the block is not linked.
+ * Missing or invalid fields fall back to their defaults, so older or hand-edited blocks keep working.
+ */
+export function readDiagramSettings(script: string): ArchimateDiagramSettings | null {
+  const stored = readSettingsLine(script);
+  if (!stored) return null;
+
+  return {
+    views: stringArray(stored.views),
+    entityTypes: stringArray(stored.entityTypes),
+    relationshipTypes: stringArray(stored.relationshipTypes),
+    elements: stringArray(stored.elements),
+    neighborhood: readNeighborhood(stored.neighborhood),
+    options: readGeneratorOptions(stored.options),
+  };
+}
+
+// The fields of the settings comment, or null when the script does not start with one
+function readSettingsLine(script: string): Record<string, unknown> | null {
+  const firstLine = script.trimStart().split('\n', 1)[0].trim();
+  if (!firstLine.startsWith(SETTINGS_PREFIX.trim())) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(firstLine.slice(SETTINGS_PREFIX.trim().length));
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+  return objectFields(parsed);
+}
+
+// Node declarations of the flowchart, C4 and class diagram emitters, capturing ID and quoted label
+const NODE_DECLARATIONS = [
+  /^\s*(?:subgraph\s+)?([A-Za-z_]\w*)(?:\[|\(|\{\{|>)+"([^"]*)"/,
+  /^\s*(?:Person|System|Container|Boundary)\(([A-Za-z_]\w*),\s*"([^"]*)"/,
+  /^\s*class\s+([A-Za-z_]\w*)\["([^"]*)"\]/,
+];
+
+const decodeLabel = (label: string) =>
+  label
+    .replace(/<br\/>/g, ' ')
+    .replace(/#quot;/g, '"')
+    .replace(/#lt;/g, '<')
+    .replace(/#gt;/g, '>')
+    .replace(/#96;/g, '`')
+    .replace(/#nbsp;/g, ' ')
+    .replace(/#35;/g, '#');
+
+/**
+ * List the nodes and subgraphs declared in a script produced by the generator, in order.
+ */
+export function extractDiagramNodes(script: string): DiagramNode[] {
+  const nodes: DiagramNode[] = [];
+  const seen = new Set<string>();
+  script.split('\n').forEach(line => {
+    for (const pattern of NODE_DECLARATIONS) {
+      const match = line.match(pattern);
+      if (match && !seen.has(match[1])) {
+        seen.add(match[1]);
+        nodes.push({ id: match[1], label: decodeLabel(match[2]) });
+        break;
+      }
+    }
+  });
+  return nodes;
+}
+
+// Older blocks carry no node mapping; their layer frames are still told apart by ID
+const LAYER_FRAME = /^layer_/;
+
+/**
+ * Key the element nodes of a generated script by Archimate identifier, through the
+ * mapping stored with the settings. Blocks linked before the mapping was stored
+ * fall back to the Mermaid IDs.
+ */
+function identifyDiagramNodes(script: string): Map<string, DiagramNode> {
+  const stored = readSettingsLine(script)?.nodes;
+  const nodes = extractDiagramNodes(script);
+  if (!stored || typeof stored !== 'object') {
+    return new Map(nodes.filter(node => !LAYER_FRAME.test(node.id)).map(node => [node.id, node]));
+  }
+
+  const identifiers = objectFields(stored);
+  const identified = new Map<string, DiagramNode>();
+  nodes.forEach(node => {
+    const identifier = identifiers[node.id];
+    if (typeof identifier === 'string') identified.set(identifier, node);
+  });
+  return identified;
+}
+
+/**
+ * Compare the element nodes of two generated scripts by Archimate identifier, leaving out frames.
+ */
+export function diffDiagramNodes(before: string, after: string): DiagramNodeDiff {
+  const beforeNodes = identifyDiagramNodes(before);
+  const afterNodes = identifyDiagramNodes(after);
+  return {
+    added: Array.from(afterNodes).filter(([identifier]) => !beforeNodes.has(identifier)).map(([, node]) => node),
+    removed: Array.from(beforeNodes).filter(([identifier]) => !afterNodes.has(identifier)).map(([, node]) => node),
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * Archimate Model Diff
+ *
+ * Compares two versions of a model, matching elements, relationships and views
+ * by identifier, which ArchiMate tools keep stable across exports:
+ * - Added: only in the newer model
+ * - Removed: only in the older model
+ * - Renamed: in both, under a different name
+ *
+ * The changes can be drawn as a Mermaid flowchart, with `classDef` styles for
+ * added, removed and renamed elements, or summarized in Markdown for a
+ * document's version history.
+ */
+
+import type {
+  ArchimateElement,
+  ArchimateModel,
+  ArchimateRelationship,
+  ArchimateView,
+} from './archimate-parser';
+import { createMermaidIdTable } from './mermaid-ids';
+import { humanizeType, quoteMermaidLabel } from './mermaid-labels';
+import { renderMarkdownTable } from './markdown-table';
+
+export interface RenamedItem<T> {
+  before: T;
+  after: T;
+}
+
+export interface ChangeSet<T> {
+  added: T[];
+  removed: T[];
+  renamed: RenamedItem<T>[];
+}
+
+export interface ArchimateModelDiff {
+  elements: ChangeSet<ArchimateElement>;
+  relationships: ChangeSet<ArchimateRelationship>;
+  views: ChangeSet<ArchimateView>;
+}
+
+type ChangeKind = 'added' | 'removed' | 'renamed';
+
+// Fill and stroke of the change styles, shared by nodes and links
+const CHANGE_STYLES: Record<ChangeKind, { fill: string; stroke: string; dash?: string }> = {
+  added: { fill: '#d4f7d4', stroke: '#2e8b57' },
+  removed: { fill: '#fbd5d5', stroke: '#c0392b', dash: '5 5' },
+  renamed: { fill: '#fff3c4', stroke: '#b8860b' },
+};
+
+function diffItems<T extends { identifier: string; name: string | null }>(
+  before: Iterable<T>,
+  after: Iterable<T>
+): ChangeSet<T> {
+  const beforeById = new Map(Array.from(before, item => [item.identifier, item]));
+  const afterById = new Map(Array.from(after, item => [item.identifier, item]));
+
+  const changes: ChangeSet<T> = { added: [], removed: [], renamed: [] };
+  afterById.forEach((item, identifier) => {
+    const previous = beforeById.get(identifier);
+    if (!previous) {
+      changes.added.push(item);
+    } else if ((previous.name ?? '') !== (item.name ?? '')) {
+      changes.renamed.push({ before: previous, after: item });
+    }
+  });
+  beforeById.forEach((item, identifier) => {
+    if (!afterById.has(identifier)) changes.removed.push(item);
+  });
+  return changes;
+}
+
+/**
+ * Compare an older and a newer version of a model.
+ */
+export function diffArchimateModels(before: ArchimateModel, after: ArchimateModel): ArchimateModelDiff {
+  return {
+    elements: diffItems(before.elements.values(), after.elements.values()),
+    relationships: diffItems(before.relationships, after.relationships),
+    views: diffItems(before.views.values(), after.views.values()),
+  };
+}
+
+function countChanges(changes: ChangeSet<unknown>): number {
+  return changes.added.length + changes.removed.length + changes.renamed.length;
+}
+
+export function isEmptyDiff(diff: ArchimateModelDiff): boolean {
+  return countChanges(diff.elements) + countChanges(diff.relationships) + countChanges(diff.views) === 0;
+}
+
+const elementName = (element: ArchimateElement) => element.name || `${humanizeType(element.type)} ${element.identifier}`;
+
+/**
+ * Draw the changed elements and relationships as a flowchart. Elements at the
+ * ends of a changed relationship are drawn unstyled for context. Views have no
+ * place in the graph and are left to the Markdown summary.
+ */
+export function generateMermaidDiff(
+  before: ArchimateModel,
+  after: ArchimateModel,
+  diff: ArchimateModelDiff = diffArchimateModels(before, after)
+): string {
+  const { elements, relationships } = diff;
+  if (countChanges(elements) + countChanges(relationships) === 0) {
+    return 'graph TD;\n  A["No element or relationship changes"];';
+  }
+
+  const ids = createMermaidIdTable();
+  const nodes = new Map<string, { label: string; change: ChangeKind | null }>();
+  elements.added.forEach(element => nodes.set(element.identifier, { label: elementName(element), change: 'added' }));
+  elements.removed.forEach(element => nodes.set(element.identifier, { label: elementName(element), change: 'removed' }));
+  elements.renamed.forEach(({ before: previous, after: current }) =>
+    nodes.set(current.identifier, { label: `${elementName(previous)} → ${elementName(current)}`, change: 'renamed' })
+  );
+
+  const edges: { rel: ArchimateRelationship; label: string; change: ChangeKind }[] = [
+    ...relationships.added.map(rel => ({ rel, label: rel.name || rel.type, change: 'added' as const })),
+    ...relationships.removed.map(rel => ({ rel, label: rel.name || rel.type, change: 'removed' as const })),
+    ...relationships.renamed.map(({ before: previous, after: current }) => ({
+      rel: current,
+      label: `${previous.name || previous.type} → ${current.name || current.type}`,
+      change: 'renamed' as const,
+    })),
+  ];
+
+  // Removed relationships end at elements of the old model, the others at elements of the new one
+  edges.forEach(({ rel, change }) => {
+    const model = change === 'removed' ? before : after;
+    [rel.source, rel.target].forEach(endpoint => {
+      if (nodes.has(endpoint)) return;
+      const element = model.elements.get(endpoint) ?? before.elements.get(endpoint);
+      nodes.set(endpoint, { label: element ? elementName(element) : endpoint, change: null });
+    });
+  });
+
+  let script = 'graph TD;\n';
+  script += '\n  %% Elements\n';
+  nodes.forEach((node, identifier) => {
+    const styleClass = node.change ? `:::${node.change}` : '';
+    script += `  ${ids.idFor(identifier)}[${quoteMermaidLabel(node.label)}]${styleClass};\n`;
+  });
+
+  script += '\n  %% Relationships\n';
+  const linkIndexes: Record<ChangeKind, number[]> = { added: [], removed: [], renamed: [] };
+  edges.forEach(({ rel, label, change }, index) => {
+    const link = change === 'removed' ? '-.->' : '-->';
+    script += `  ${ids.idFor(rel.source)} ${link}|${quoteMermaidLabel(label)}| ${ids.idFor(rel.target)};\n`;
+    linkIndexes[change].push(index);
+  });
+
+  script += '\n  %% Change styles\n';
+  (Object.keys(CHANGE_STYLES) as ChangeKind[]).forEach(change => {
+    const { fill, stroke, dash } = CHANGE_STYLES[change];
+    const dashStyle = dash ? `,stroke-dasharray:${dash}` : '';
+    script += `  classDef ${change} fill:${fill},stroke:${stroke}${dashStyle};\n`;
+    // Mermaid reads "#hex;" as an HTML entity on linkStyle lines, so they end without a semicolon
+    if (linkIndexes[change].length > 0) {
+      script += `  linkStyle ${linkIndexes[change].join(',')} stroke:${stroke}${dashStyle}\n`;
+    }
+  });
+
+  return script;
+}
+
+function describeCount(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * One sentence describing the changes, sized for a cell of a version history table.
+ *
+ * @example
+ * summarizeModelDiff(diff)
+ * // Returns: "Added 2 elements and 1 relationship; removed 1 view; renamed 1 element."
+ */
+export function summarizeModelDiff(diff: ArchimateModelDiff): string {
+  const clauses = (['added', 'removed', 'renamed'] as ChangeKind[])
+    .map(change => {
+      const parts = [
+        diff.elements[change].length > 0 && describeCount(diff.elements[change].length, 'element'),
+        diff.relationships[change].length > 0 && describeCount(diff.relationships[change].length, 'relationship'),
+        diff.views[change].length > 0 && describeCount(diff.views[change].length, 'view'),
+      ].filter((part): part is string => Boolean(part));
+      if (parts.length === 0) return null;
+      const list = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+      return `${change} ${list}`;
+    })
+    .filter((clause): clause is string => clause !== null);
+
+  if (clauses.length === 0) return 'No model changes.';
+  const sentence = clauses.join('; ');
+  return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`;
+}
+
+/**
+ * List every change in a Markdown table, preceded by the one-sentence summary.
+ */
+export function modelDiffToMarkdown(
+  before: ArchimateModel,
+  after: ArchimateModel,
+  diff: ArchimateModelDiff = diffArchimateModels(before, after)
+): string {
+  const summary = summarizeModelDiff(diff);
+  if (isEmptyDiff(diff)) return summary;
+
+  const endName = (identifier: string) => {
+    const element = after.elements.get(identifier) ?? before.elements.get(identifier);
+    return element ? elementName(element) : identifier;
+  };
+  // Relationships are often unnamed, so they are identified by their ends
+  const relationshipName = (rel: ArchimateRelationship) => {
+    const ends = `${endName(rel.source)} → ${endName(rel.target)}`;
+    return rel.name ? `${rel.name} (${ends})` : ends;
+  };
+
+  const rows: string[][] = [];
+  const addRows = <T>(
+    kind: string,
+    changes: ChangeSet<T>,
+    name: (item: T) => string,
+    type: (item: T) => string
+  ) => {
+    changes.added.forEach(item => rows.push(['Added', kind, name(item), type(item)]));
+    changes.removed.forEach(item => rows.push(['Removed', kind, name(item), type(item)]));
+    changes.renamed.forEach(({ before: previous, after: current }) =>
+      rows.push(['Renamed', kind, `${name(previous)} → ${name(current)}`, type(current)])
+    );
+  };
+
+  addRows('Element', diff.elements, elementName, element => humanizeType(element.type));
+  diff.relationships.added.forEach(rel => rows.push(['Added', 'Relationship', relationshipName(rel), rel.type]));
+  diff.relationships.removed.forEach(rel => rows.push(['Removed', 'Relationship', relationshipName(rel), rel.type]));
+  diff.relationships.renamed.forEach(({ before: previous, after: current }) =>
+    rows.push(['Renamed', 'Relationship', `${previous.name || '(unnamed)'} → ${relationshipName(current)}`, current.type])
+  );
+  addRows('View', diff.views, view => view.name || view.identifier, () => 'View');
+
+  return `${summary}\n\n${renderMarkdownTable(['Change', 'Kind', 'Name', 'Type'], rows)}`;
+}
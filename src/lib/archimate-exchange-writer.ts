@@ -0,0 +1,183 @@
+/**
+ * Archimate Exchange Writer
+ *
+ * Serializes an `ArchimateModel` as an Open Group ArchiMate 3.1 exchange
+ * format document, the counterpart of `parseArchimateXML`. Elements,
+ * relationships, property definitions and diagram views are written;
+ * organizations are left out, so tools file the concepts in their default folders.
+ */
+
+import type {
+  ArchimateElement,
+  ArchimateModel,
+  ArchimateProperties,
+  ArchimatePropertyDefinition,
+  ArchimateRelationship,
+  ArchimateView,
+  ArchimateViewNode,
+} from './archimate-parser';
+
+export interface ExchangeWriterOptions {
+  /** Model name (default: "Untitled Model") */
+  name?: string;
+  /** Model identifier (default: "id-model") */
+  identifier?: string;
+}
+
+const EXCHANGE_NAMESPACE = 'http://www.opengroup.org/xsd/archimate/3.0/';
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+const SCHEMA_LOCATION = 'http://www.opengroup.org/xsd/archimate/3.1/archimate3_Diagram.xsd';
+
+// Views without stored geometry still need bounds to be valid
+const DEFAULT_BOUNDS = { x: 0, y: 0, width: 120, height: 55 };
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function langString(tag: string, text: string | null, indent: string): string {
+  return text ? `${indent}<${tag} xml:lang="en">${escapeXml(text)}</${tag}>\n` : '';
+}
+
+/**
+ * Give every property name used in the model a definition, reusing the model's own where it has one.
+ */
+function collectPropertyDefinitions(model: ArchimateModel): Map<string, ArchimatePropertyDefinition> {
+  const byName = new Map<string, ArchimatePropertyDefinition>();
+  model.propertyDefinitions.forEach(definition => byName.set(definition.name, definition));
+
+  const used = new Map<string, ArchimatePropertyDefinition>();
+  const register = (properties: ArchimateProperties) => {
+    Object.keys(properties).forEach(name => {
+      if (used.has(name)) return;
+      used.set(name, byName.get(name) ?? { identifier: `propid-${used.size + 1}`, name, type: 'string' });
+    });
+  };
+  model.elements.forEach(element => register(element.properties));
+  model.relationships.forEach(rel => register(rel.properties));
+  model.views.forEach(view => register(view.properties));
+  return used;
+}
+
+function writeProperties(
+  properties: ArchimateProperties,
+  definitions: Map<string, ArchimatePropertyDefinition>,
+  indent: string
+): string {
+  const entries = Object.entries(properties);
+  if (entries.length === 0) return '';
+  const items = entries
+    .map(
+      ([name, value]) =>
+        `${indent}  <property propertyDefinitionRef="${escapeXml(definitions.get(name)!.identifier)}">\n` +
+        `${indent}    <value xml:lang="en">${escapeXml(String(value))}</value>\n` +
+        `${indent}  </property>\n`
+    )
+    .join('');
+  return `${indent}<properties>\n${items}${indent}</properties>\n`;
+}
+
+// Name, documentation and properties, in the order the schema requires
+function writeConcept(
+  concept: ArchimateElement | ArchimateRelationship | ArchimateView,
+  definitions: Map<string, ArchimatePropertyDefinition>,
+  indent: string
+): string {
+  return (
+    langString('name', concept.name, indent) +
+    langString('documentation', concept.documentation, indent) +
+    writeProperties(concept.properties, definitions, indent)
+  );
+}
+
+// Finish an opening tag, self-closing it when there is no content
+function closeConcept(open: string, tag: string, content: string, indent: string): string {
+  return content ? `${open}>\n${content}${indent}</${tag}>\n` : `${open}/>\n`;
+}
+
+function writeViewNode(node: ArchimateViewNode, indent: string): string {
+  const { x, y, width, height } = node.bounds ?? DEFAULT_BOUNDS;
+  const geometry = `x="${Math.round(x)}" y="${Math.round(y)}" w="${Math.round(width)}" h="${Math.round(height)}"`;
+  const kind = node.elementRef
+    ? `elementRef="${escapeXml(node.elementRef)}" xsi:type="Element"`
+    : 'xsi:type="Container"';
+  const content =
+    langString('label', node.elementRef ? null : node.label, `${indent}  `) +
+    node.children.map(child => writeViewNode(child, `${indent}  `)).join('');
+  return closeConcept(`${indent}<node identifier="${escapeXml(node.identifier)}" ${kind} ${geometry}`, 'node', content, indent);
+}
+
+function writeView(view: ArchimateView, definitions: Map<string, ArchimatePropertyDefinition>): string {
+  const indent = '      ';
+  let xml = `${indent}<view identifier="${escapeXml(view.identifier)}" xsi:type="Diagram">\n`;
+  xml += writeConcept(view, definitions, `${indent}  `);
+  xml += view.nodes.map(node => writeViewNode(node, `${indent}  `)).join('');
+  view.connections.forEach(connection => {
+    const relationship = connection.relationshipRef
+      ? `relationshipRef="${escapeXml(connection.relationshipRef)}" xsi:type="Relationship"`
+      : 'xsi:type="Line"';
+    xml +=
+      `${indent}  <connection identifier="${escapeXml(connection.identifier)}" ${relationship} ` +
+      `source="${escapeXml(connection.source)}" target="${escapeXml(connection.target)}"/>\n`;
+  });
+  return `${xml}${indent}</view>\n`;
+}
+
+/**
+ * Write the model as an exchange format document.
+ */
+export function writeArchimateExchangeXML(model: ArchimateModel, options: ExchangeWriterOptions = {}): string {
+  const { name = 'Untitled Model', identifier = 'id-model' } = options;
+  const definitions = collectPropertyDefinitions(model);
+
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml +=
+    `<model xmlns="${EXCHANGE_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}" ` +
+    `xsi:schemaLocation="${EXCHANGE_NAMESPACE} ${SCHEMA_LOCATION}" identifier="${escapeXml(identifier)}">\n`;
+  xml += langString('name', name, '  ');
+
+  if (model.elements.size > 0) {
+    xml += '  <elements>\n';
+    model.elements.forEach(element => {
+      const open = `    <element identifier="${escapeXml(element.identifier)}" xsi:type="${escapeXml(element.type)}"`;
+      xml += closeConcept(open, 'element', writeConcept(element, definitions, '      '), '    ');
+    });
+    xml += '  </elements>\n';
+  }
+
+  if (model.relationships.length > 0) {
+    xml += '  <relationships>\n';
+    model.relationships.forEach(rel => {
+      const open =
+        `    <relationship identifier="${escapeXml(rel.identifier)}" source="${escapeXml(rel.source)}" ` +
+        `target="${escapeXml(rel.target)}" xsi:type="${escapeXml(rel.type)}"`;
+      xml += closeConcept(open, 'relationship', writeConcept(rel, definitions, '      '), '    ');
+    });
+    xml += '  </relationships>\n';
+  }
+
+  if (definitions.size > 0) {
+    xml += '  <propertyDefinitions>\n';
+    definitions.forEach(definition => {
+      xml += `    <propertyDefinition identifier="${escapeXml(definition.identifier)}" type="${definition.type}">\n`;
+      xml += langString('name', definition.name, '      ');
+      xml += '    </propertyDefinition>\n';
+    });
+    xml += '  </propertyDefinitions>\n';
+  }
+
+  if (model.views.size > 0) {
+    xml += '  <views>\n    <diagrams>\n';
+    model.views.forEach(view => {
+      xml += writeView(view, definitions);
+    });
+    xml += '    </diagrams>\n  </views>\n';
+  }
+
+  return `${xml}</model>\n`;
+}
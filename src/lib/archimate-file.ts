@@ -0,0 +1,137 @@
+/**
+ * Archimate File Reading
+ *
+ * Turns user-supplied files into model sources. The format is detected from
+ * the content rather than the MIME type or extension, which browsers report
+ * inconsistently, and `.zip` archives are opened to find the models inside.
+ */
+
+import { ArchimateParseError } from './archimate-parser';
+import { isZipSignature, readZipEntries } from './zip-reader';
+
+export type ArchimateFileFormat = 'xml' | 'zip' | 'unknown';
+
+export interface ArchimateFileContent {
+  /** Name of the uploaded file, or of the entry for models read from an archive */
+  fileName: string;
+  content: string;
+}
+
+export interface ParseDiagnostic {
+  message: string;
+  /** 1-based position of the error, when the parser reported one */
+  line: number | null;
+  column: number | null;
+  /** The offending source line, shortened around the column for long lines */
+  excerpt: string | null;
+  /** 0-based offset of the column within `excerpt` */
+  excerptColumn: number | null;
+}
+
+const SNIFF_LENGTH = 512;
+const MODEL_ENTRY_PATTERN = /\.(xml|archimate)$/i;
+const EXCERPT_CONTEXT = 60;
+
+function readAsArrayBuffer(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error ?? new Error('Error reading the file.'));
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+// FileReader honours byte order marks, so UTF-16 models decode as well as UTF-8 ones
+function readAsText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Error reading the file.'));
+    reader.readAsText(blob);
+  });
+}
+
+/**
+ * Detect the format from the first bytes of a file: the zip signature, or
+ * markup opening with `<` after an optional byte order mark and whitespace.
+ */
+export function sniffFileFormat(head: Uint8Array): ArchimateFileFormat {
+  if (isZipSignature(head)) return 'zip';
+
+  let index = 0;
+  let step = 1;
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) {
+    index = 3;
+  } else if ((head[0] === 0xfe && head[1] === 0xff) || (head[0] === 0xff && head[1] === 0xfe)) {
+    // UTF-16: every ASCII character takes two bytes, with the zero byte first in big-endian order
+    index = head[0] === 0xfe ? 3 : 2;
+    step = 2;
+  }
+  while (index < head.length && [0x09, 0x0a, 0x0d, 0x20].includes(head[index])) {
+    index += step;
+  }
+  return head[index] === 0x3c ? 'xml' : 'unknown';
+}
+
+export async function detectFileFormat(file: Blob): Promise<ArchimateFileFormat> {
+  return sniffFileFormat(await readAsArrayBuffer(file.slice(0, SNIFF_LENGTH)));
+}
+
+async function readModelsFromZip(file: File): Promise<ArchimateFileContent[]> {
+  const entries = readZipEntries(await readAsArrayBuffer(file)).filter(
+    entry => !entry.isDirectory && MODEL_ENTRY_PATTERN.test(entry.name) && !entry.name.startsWith('__MACOSX/')
+  );
+
+  const models: ArchimateFileContent[] = [];
+  for (const entry of entries) {
+    const data = await entry.read();
+    if (sniffFileFormat(data.subarray(0, SNIFF_LENGTH)) !== 'xml') continue;
+    models.push({ fileName: entry.name.split('/').pop() ?? entry.name, content: await readAsText(new Blob([data])) });
+  }
+
+  if (models.length === 0) {
+    throw new Error(`"${file.name}" does not contain any .xml or .archimate model.`);
+  }
+  return models;
+}
+
+/**
+ * Read the model sources in a file. An XML file yields itself; a zip archive
+ * yields every model file it contains. The sources are not parsed yet.
+ */
+export async function readArchimateFile(file: File): Promise<ArchimateFileContent[]> {
+  switch (await detectFileFormat(file)) {
+    case 'xml':
+      return [{ fileName: file.name, content: await readAsText(file) }];
+    case 'zip':
+      return readModelsFromZip(file);
+    default:
+      throw new Error(`"${file.name}" is neither an XML model nor a zip archive.`);
+  }
+}
+
+/**
+ * Describe why a model source failed to parse, pointing at the offending line
+ * when the XML itself is malformed.
+ */
+export function describeParseError(error: unknown, content: string): ParseDiagnostic {
+  const message = error instanceof Error ? error.message : 'An unknown error occurred during parsing';
+  if (!(error instanceof ArchimateParseError) || error.line === null) {
+    return { message, line: null, column: null, excerpt: null, excerptColumn: null };
+  }
+
+  const sourceLine = content.split(/\r\n|\r|\n/)[error.line - 1] ?? '';
+  const column = Math.max(0, (error.column ?? 1) - 1);
+  const start = Math.max(0, column - EXCERPT_CONTEXT);
+  const end = Math.min(sourceLine.length, column + EXCERPT_CONTEXT);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < sourceLine.length ? '…' : '';
+
+  return {
+    message,
+    line: error.line,
+    column: error.column,
+    excerpt: `${prefix}${sourceLine.slice(start, end)}${suffix}`,
+    excerptColumn: prefix.length + column - start,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Archimate Neighborhood
+ *
+ * Grows an element selection along relationships, e.g. "this application and
+ * everything that serves it" is one hop along incoming Serving relationships.
+ */
+
+import type { ArchimateElement, ArchimateRelationship } from './archimate-parser';
+
+/**
+ * `incoming` follows relationships from their target to their source,
+ * `outgoing` from source to target, `both` ignores the direction.
+ */
+export type ExpansionDirection = 'incoming' | 'outgoing' | 'both';
+
+export interface NeighborhoodOptions {
+  /** How many relationships away from the seeds to look, 0 to disable */
+  hops: number;
+  /** Relationship types to follow; an empty list follows none */
+  relationshipTypes: string[];
+  direction: ExpansionDirection;
+}
+
+export const DEFAULT_NEIGHBORHOOD_OPTIONS: NeighborhoodOptions = {
+  hops: 0,
+  relationshipTypes: [],
+  direction: 'both',
+};
+
+/**
+ * Return the identifiers of the seed elements and every element reachable from
+ * them within `options.hops` steps along the allowed relationships.
+ */
+export function expandNeighborhood(
+  seedIds: Iterable<string>,
+  relationships: ArchimateRelationship[],
+  options: NeighborhoodOptions
+): Set<string> {
+  const reached = new Set(seedIds);
+  const followed = relationships.filter(rel => options.relationshipTypes.includes(rel.type));
+  let frontier = Array.from(reached);
+
+  for (let hop = 0; hop < options.hops && frontier.length > 0; hop++) {
+    const current = new Set(frontier);
+    frontier = [];
+    followed.forEach(rel => {
+      const neighbors: string[] = [];
+      if (options.direction !== 'incoming' && current.has(rel.source)) neighbors.push(rel.target);
+      if (options.direction !== 'outgoing' && current.has(rel.target)) neighbors.push(rel.source);
+      neighbors
+        .filter(neighbor => !reached.has(neighbor))
+        .forEach(neighbor => {
+          reached.add(neighbor);
+          frontier.push(neighbor);
+        });
+    });
+  }
+  return reached;
+}
+
+/**
+ * Find elements whose name or type contains the query, or whose identifier is the query,
+ * best matches first:
+ * names starting with the query come before names merely containing it.
+ */
+export function searchElements(
+  elements: Iterable<ArchimateElement>,
+  query: string,
+  limit: number
+): ArchimateElement[] {
+  const needle = query.trim().toLowerCase();
+  const matches = Array.from(elements).filter(
+    element =>
+      !needle ||
+      element.name.toLowerCase().includes(needle) ||
+      element.type.toLowerCase().includes(needle) ||
+      element.identifier.toLowerCase() === needle
+  );
+  const rank = (element: ArchimateElement) => (needle && element.name.toLowerCase().startsWith(needle) ? 0 : 1);
+  return matches
+    .sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
@@ -0,0 +1,321 @@
+/**
+ * ArchiMate Notation
+ *
+ * Metamodel knowledge shared by the Archimate tooling:
+ * - Which layer each element type belongs to
+ * - Which aspect (active structure, behavior, passive structure, ...) it has
+ * - The conventional layer colors used by ArchiMate tools such as Archi
+ *
+ * Type names follow the Open Group exchange format (e.g. `ApplicationComponent`,
+ * `Serving`); native Archi models are normalized to the same names by the parser.
+ */
+
+export type ArchimateLayer =
+  | 'Motivation'
+  | 'Strategy'
+  | 'Business'
+  | 'Application'
+  | 'Technology'
+  | 'Implementation'
+  | 'Other';
+
+export type ArchimateAspect =
+  | 'active'
+  | 'behavior'
+  | 'service'
+  | 'event'
+  | 'passive'
+  | 'motivation'
+  | 'composite'
+  | 'junction';
+
+interface ElementTypeInfo {
+  layer: ArchimateLayer;
+  aspect: ArchimateAspect;
+}
+
+/** Layers in the order they are conventionally drawn, top to bottom */
+export const LAYER_ORDER: ArchimateLayer[] = [
+  'Motivation',
+  'Strategy',
+  'Business',
+  'Application',
+  'Technology',
+  'Implementation',
+  'Other',
+];
+
+export const LAYER_COLORS: Record<ArchimateLayer, { fill: string; stroke: string }> = {
+  Motivation: { fill: '#ccccff', stroke: '#7272c9' },
+  Strategy: { fill: '#f5deaa', stroke: '#b8984f' },
+  Business: { fill: '#ffffb5', stroke: '#b8b84f' },
+  Application: { fill: '#b5ffff', stroke: '#4fb8b8' },
+  Technology: { fill: '#c9e7b7', stroke: '#6b9e4f' },
+  Implementation: { fill: '#ffe0e0', stroke: '#c97272' },
+  Other: { fill: '#eeeeee', stroke: '#888888' },
+};
+
+const ELEMENT_TYPES: Record<string, ElementTypeInfo> = {
+  // Strategy
+  Resource: { layer: 'Strategy', aspect: 'active' },
+  Capability: { layer: 'Strategy', aspect: 'behavior' },
+  ValueStream: { layer: 'Strategy', aspect: 'behavior' },
+  CourseOfAction: { layer: 'Strategy', aspect: 'behavior' },
+  // Business
+  BusinessActor: { layer: 'Business', aspect: 'active' },
+  BusinessRole: { layer: 'Business', aspect: 'active' },
+  BusinessCollaboration: { layer: 'Business', aspect: 'active' },
+  BusinessInterface: { layer: 'Business', aspect: 'active' },
+  BusinessProcess: { layer: 'Business', aspect: 'behavior' },
+  BusinessFunction: { layer: 'Business', aspect: 'behavior' },
+  BusinessInteraction: { layer: 'Business', aspect: 'behavior' },
+  BusinessEvent: { layer: 'Business', aspect: 'event' },
+  BusinessService: { layer: 'Business', aspect: 'service' },
+  BusinessObject: { layer: 'Business', aspect: 'passive' },
+  Contract: { layer: 'Business', aspect: 'passive' },
+  Representation: { layer: 'Business', aspect: 'passive' },
+  Product: { layer: 'Business', aspect: 'composite' },
+  // Application
+  ApplicationComponent: { layer: 'Application', aspect: 'active' },
+  ApplicationCollaboration: { layer: 'Application', aspect: 'active' },
+  ApplicationInterface: { layer: 'Application', aspect: 'active' },
+  ApplicationFunction: { layer: 'Application', aspect: 'behavior' },
+  ApplicationInteraction: { layer: 'Application', aspect: 'behavior' },
+  ApplicationProcess: { layer: 'Application', aspect: 'behavior' },
+  ApplicationEvent: { layer: 'Application', aspect: 'event' },
+  ApplicationService: { layer: 'Application', aspect: 'service' },
+  DataObject: { layer: 'Application', aspect: 'passive' },
+  // Technology and physical
+  Node: { layer: 'Technology', aspect: 'active' },
+  Device: { layer: 'Technology', aspect: 'active' },
+  SystemSoftware: { layer: 'Technology', aspect: 'active' },
+  TechnologyCollaboration: { layer: 'Technology', aspect: 'active' },
+  TechnologyInterface: { layer: 'Technology', aspect: 'active' },
+  Path: { layer: 'Technology', aspect: 'active' },
+  CommunicationNetwork: { layer: 'Technology', aspect: 'active' },
+  TechnologyFunction: { layer: 'Technology', aspect: 'behavior' },
+  TechnologyProcess: { layer: 'Technology', aspect: 'behavior' },
+  TechnologyInteraction: { layer: 'Technology', aspect: 'behavior' },
+  TechnologyEvent: { layer: 'Technology', aspect: 'event' },
+  TechnologyService: { layer: 'Technology', aspect: 'service' },
+  Artifact: { layer: 'Technology', aspect: 'passive' },
+  Equipment: { layer: 'Technology', aspect: 'active' },
+  Facility: { layer: 'Technology', aspect: 'active' },
+  DistributionNetwork: { layer: 'Technology', aspect: 'active' },
+  Material: { layer: 'Technology', aspect: 'passive' },
+  // Motivation
+  Stakeholder: { layer: 'Motivation', aspect: 'motivation' },
+  Driver: { layer: 'Motivation', aspect: 'motivation' },
+  Assessment: { layer: 'Motivation', aspect: 'motivation' },
+  Goal: { layer: 'Motivation', aspect: 'motivation' },
+  Outcome: { layer: 'Motivation', aspect: 'motivation' },
+  Principle: { layer: 'Motivation', aspect: 'motivation' },
+  Requirement: { layer: 'Motivation', aspect: 'motivation' },
+  Constraint: { layer: 'Motivation', aspect: 'motivation' },
+  Meaning: { layer: 'Motivation', aspect: 'motivation' },
+  Value: { layer: 'Motivation', aspect: 'motivation' },
+  // Implementation and migration
+  WorkPackage: { layer: 'Implementation', aspect: 'behavior' },
+  Deliverable: { layer: 'Implementation', aspect: 'passive' },
+  ImplementationEvent: { layer: 'Implementation', aspect: 'event' },
+  Plateau: { layer: 'Implementation', aspect: 'composite' },
+  Gap: { layer: 'Implementation', aspect: 'passive' },
+  // Composite and connectors
+  Location: { layer: 'Other', aspect: 'composite' },
+  Grouping: { layer: 'Other', aspect: 'composite' },
+  AndJunction: { layer: 'Other', aspect: 'junction' },
+  OrJunction: { layer: 'Other', aspect: 'junction' },
+};
+
+/**
+ * All element types known to the ArchiMate 3.1 metamodel
+ */
+export const ELEMENT_TYPE_NAMES = Object.keys(ELEMENT_TYPES);
+
+/**
+ * Relationship types of the ArchiMate 3.1 metamodel
+ */
+export const RELATIONSHIP_TYPE_NAMES = [
+  'Composition',
+  'Aggregation',
+  'Assignment',
+  'Realization',
+  'Serving',
+  'Access',
+  'Influence',
+  'Triggering',
+  'Flow',
+  'Specialization',
+  'Association',
+];
+
+/**
+ * Resolve the layer of an element type. Unknown types are placed by their
+ * name prefix (e.g. a custom `BusinessThing` lands in Business), else in Other.
+ */
+export function getElementLayer(type: string): ArchimateLayer {
+  const known = ELEMENT_TYPES[type];
+  if (known) return known.layer;
+  const prefixed = LAYER_ORDER.find(layer => layer !== 'Other' && type.startsWith(layer));
+  return prefixed ?? 'Other';
+}
+
+/**
+ * Resolve the aspect of an element type, guessing from the name suffix for unknown types.
+ */
+export function getElementAspect(type: string): ArchimateAspect {
+  const known = ELEMENT_TYPES[type];
+  if (known) return known.aspect;
+  if (type.endsWith('Service')) return 'service';
+  if (type.endsWith('Event')) return 'event';
+  if (/(Process|Function|Interaction)$/.test(type)) return 'behavior';
+  return 'active';
+}
+
+// --- Relationship rules ---
+
+type AspectGroup = 'structure' | 'behavior' | 'passive' | 'motivation' | 'other';
+
+const ASPECT_GROUPS: Record<ArchimateAspect, AspectGroup> = {
+  active: 'structure',
+  behavior: 'behavior',
+  service: 'behavior',
+  event: 'behavior',
+  passive: 'passive',
+  motivation: 'motivation',
+  composite: 'other',
+  junction: 'other',
+};
+
+// Core layers from top to bottom; lower layers serve and realize the ones above
+const CORE_LAYER_RANK: Partial<Record<ArchimateLayer, number>> = { Business: 0, Application: 1, Technology: 2 };
+
+// Motivation elements that realize or are realized; stakeholders, drivers and assessments only influence
+const REALIZABLE_MOTIVATION = new Set(['Goal', 'Outcome', 'Principle', 'Requirement', 'Constraint']);
+
+// Relationship types a junction may combine
+const JUNCTION_RELATIONSHIPS = new Set(['Assignment', 'Realization', 'Serving', 'Access', 'Influence', 'Triggering', 'Flow']);
+
+interface TypeFacts {
+  type: string;
+  layer: ArchimateLayer;
+  aspect: ArchimateAspect;
+  group: AspectGroup;
+  rank: number | undefined;
+}
+
+function typeFacts(type: string): TypeFacts | null {
+  const info = ELEMENT_TYPES[type];
+  return info
+    ? { type, ...info, group: ASPECT_GROUPS[info.aspect], rank: CORE_LAYER_RANK[info.layer] }
+    : null;
+}
+
+// Lower core layers serve the ones above; adjacent layers also serve each other the
+// other way round, e.g. a business service serving application behavior (3.1 §12.1)
+const servesAcrossLayers = (source: TypeFacts, target: TypeFacts) =>
+  source.rank !== undefined && target.rank !== undefined && source.rank >= target.rank - 1;
+
+const isCoreOrStrategy = (facts: TypeFacts) => facts.rank !== undefined || facts.layer === 'Strategy';
+
+function isAllowedBetween(relationshipType: string, source: TypeFacts, target: TypeFacts): boolean {
+  switch (relationshipType) {
+    case 'Composition':
+    case 'Aggregation':
+      if (source.type === 'Product') {
+        return target.rank !== undefined && target.aspect !== 'event';
+      }
+      return source.layer === target.layer && source.group === target.group && source.group !== 'other';
+
+    case 'Assignment':
+      if (source.group !== 'structure') return false;
+      // Business actors and roles are assigned to work packages and implementation events
+      if (source.layer === 'Business' && (target.type === 'WorkPackage' || target.type === 'ImplementationEvent')) return true;
+      // Nodes, devices and system software are assigned the artifacts they deploy
+      if (source.layer === 'Technology' && target.type === 'Artifact') return true;
+      return source.layer === target.layer && (target.group === 'behavior' || target.group === 'structure');
+
+    case 'Realization':
+      if (REALIZABLE_MOTIVATION.has(target.type)) {
+        return source.group !== 'motivation' || REALIZABLE_MOTIVATION.has(source.type);
+      }
+      if (source.type === 'Deliverable') return target.group !== 'motivation';
+      if (source.type === 'WorkPackage') return target.type === 'Deliverable';
+      if (target.layer === 'Strategy') {
+        return source.rank !== undefined && (target.type !== 'Resource' || source.group !== 'behavior');
+      }
+      if (source.rank === undefined || target.rank === undefined) return false;
+      if (source.rank > target.rank) return target.group !== 'motivation';
+      // Within a layer behavior and structure realize services, and passive elements realize passive ones
+      return (
+        (target.aspect === 'service' && source.group !== 'passive') ||
+        (source.group === 'passive' && target.group === 'passive' && source.type !== target.type)
+      );
+
+    case 'Serving':
+      if (source.layer === 'Strategy' || target.layer === 'Strategy') {
+        return source.layer === target.layer && source.group === 'behavior' && target.group === 'behavior';
+      }
+      return (
+        servesAcrossLayers(source, target) &&
+        (source.group === 'behavior' || source.group === 'structure') &&
+        source.aspect !== 'event' &&
+        (target.group === 'behavior' || target.group === 'structure')
+      );
+
+    case 'Access':
+      return (
+        source.rank !== undefined &&
+        (source.group === 'behavior' || source.group === 'structure') &&
+        target.rank !== undefined &&
+        target.group === 'passive'
+      );
+
+    case 'Influence':
+      return target.group === 'motivation';
+
+    case 'Triggering':
+    case 'Flow':
+      if (source.type === 'Plateau' || target.type === 'Plateau') return source.type === target.type;
+      return (
+        (source.group === 'behavior' || source.group === 'structure') &&
+        (target.group === 'behavior' || target.group === 'structure') &&
+        (isCoreOrStrategy(source) || source.layer === 'Implementation') &&
+        (isCoreOrStrategy(target) || target.layer === 'Implementation')
+      );
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Tell whether the ArchiMate 3.1 metamodel allows a relationship between two
+ * element types. The rules follow the core metamodel and its cross-layer
+ * dependencies at the level of layers and aspects, and lean towards allowing
+ * the derived relationships listed in the specification's relationship table.
+ *
+ * Returns null when the relationship or an element type is not part of the
+ * metamodel, since nothing can be said about custom types.
+ */
+export function isRelationshipAllowed(relationshipType: string, sourceType: string, targetType: string): boolean | null {
+  const source = typeFacts(sourceType);
+  const target = typeFacts(targetType);
+  if (!source || !target || !RELATIONSHIP_TYPE_NAMES.includes(relationshipType)) return null;
+
+  if (relationshipType === 'Association') return true;
+  if (relationshipType === 'Specialization') return sourceType === targetType;
+  if (source.aspect === 'junction' || target.aspect === 'junction') {
+    return JUNCTION_RELATIONSHIPS.has(relationshipType);
+  }
+  // Groupings and locations may aggregate or compose anything, and relate like their contents do
+  if (sourceType === 'Grouping' || targetType === 'Grouping') return true;
+  if (sourceType === 'Location') return relationshipType === 'Composition' || relationshipType === 'Aggregation';
+  if (sourceType === 'Plateau' && (relationshipType === 'Composition' || relationshipType === 'Aggregation')) {
+    return true;
+  }
+  if (sourceType === targetType && (relationshipType === 'Composition' || relationshipType === 'Aggregation')) {
+    return true;
+  }
+  return isAllowedBetween(relationshipType, source, target);
+}
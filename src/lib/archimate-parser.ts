@@ -1,8 +1,32 @@
 
+export type ArchimatePropertyType =
+  | 'string'
+  | 'boolean'
+  | 'currency'
+  | 'date'
+  | 'time'
+  | 'number';
+
+export type ArchimatePropertyValue = string | number | boolean;
+
+/**
+ * Properties keyed by their resolved property definition name
+ * (e.g. `{ Owner: 'Jane', Cost: 1200 }`).
+ */
+export type ArchimateProperties = Record<string, ArchimatePropertyValue>;
+
+export interface ArchimatePropertyDefinition {
+  identifier: string;
+  name: string;
+  type: ArchimatePropertyType;
+}
+
 export interface ArchimateElement {
   identifier: string;
   type: string;
   name: string;
+  documentation: string | null;
+  properties: ArchimateProperties;
 }
 
 export interface ArchimateRelationship {
@@ -11,80 +35,553 @@ export interface ArchimateRelationship {
   source: string;
   target: string;
   name: string | null;
+  documentation: string | null;
+  properties: ArchimateProperties;
+}
+
+export interface ArchimateBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A diagram node. Element nodes reference a model element; visual containers
+ * and notes carry only a label. Nested nodes are kept as children.
+ */
+export interface ArchimateViewNode {
+  identifier: string;
+  elementRef: string | null;
+  label: string | null;
+  bounds: ArchimateBounds | null;
+  children: ArchimateViewNode[];
+}
+
+/**
+ * A line drawn on a diagram. `source` and `target` are view node identifiers.
+ */
+export interface ArchimateViewConnection {
+  identifier: string;
+  relationshipRef: string | null;
+  source: string;
+  target: string;
 }
 
 export interface ArchimateView {
   identifier: string;
   name: string;
+  documentation: string | null;
+  properties: ArchimateProperties;
+  nodes: ArchimateViewNode[];
+  connections: ArchimateViewConnection[];
+  /** Every element referenced anywhere in the node tree, in document order */
   elementRefs: string[];
 }
 
+/**
+ * A folder of the model's organization tree. `itemRefs` lists the elements,
+ * relationships and views filed directly in this folder.
+ */
+export interface ArchimateFolder {
+  identifier: string | null;
+  label: string;
+  folders: ArchimateFolder[];
+  itemRefs: string[];
+}
+
 export interface ArchimateModel {
   elements: Map<string, ArchimateElement>;
   relationships: ArchimateRelationship[];
   views: Map<string, ArchimateView>;
+  propertyDefinitions: Map<string, ArchimatePropertyDefinition>;
+  organizations: ArchimateFolder[];
 }
 
-export function parseArchimateXML(xmlString: string): ArchimateModel {
-  try {
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(xmlString, 'application/xml');
+const PROPERTY_TYPES: ArchimatePropertyType[] = ['string', 'boolean', 'currency', 'date', 'time', 'number'];
+
+// Direct children only, so nested nodes never leak their names or properties to the parent
+function childElements(node: Element, localName: string): Element[] {
+  return Array.from(node.children).filter(child => child.localName === localName);
+}
+
+function firstChild(node: Element, localName: string): Element | null {
+  return childElements(node, localName)[0] ?? null;
+}
+
+// Lang strings may repeat per `xml:lang`; prefer English, then the first one present
+function readLangString(node: Element | null, localName: string): string | null {
+  if (!node) return null;
+  const candidates = childElements(node, localName);
+  if (candidates.length === 0) return null;
+  const preferred =
+    candidates.find(candidate => candidate.getAttribute('xml:lang')?.startsWith('en')) ?? candidates[0];
+  return preferred.textContent?.trim() || null;
+}
+
+function coercePropertyValue(raw: string, type: ArchimatePropertyType): ArchimatePropertyValue {
+  switch (type) {
+    case 'boolean':
+      return raw.trim().toLowerCase() === 'true';
+    case 'number':
+    case 'currency': {
+      const numeric = Number(raw);
+      return raw.trim() !== '' && Number.isFinite(numeric) ? numeric : raw;
+    }
+    default:
+      return raw;
+  }
+}
+
+function parsePropertyDefinitions(root: Element): Map<string, ArchimatePropertyDefinition> {
+  const propertyDefinitions = new Map<string, ArchimatePropertyDefinition>();
+  const container = firstChild(root, 'propertyDefinitions');
+  if (!container) return propertyDefinitions;
+
+  for (const node of childElements(container, 'propertyDefinition')) {
+    const identifier = node.getAttribute('identifier');
+    const name = readLangString(node, 'name');
+    const rawType = node.getAttribute('type') as ArchimatePropertyType | null;
+    const type = rawType && PROPERTY_TYPES.includes(rawType) ? rawType : 'string';
+    if (identifier && name) {
+      propertyDefinitions.set(identifier, { identifier, name, type });
+    }
+  }
+  return propertyDefinitions;
+}
+
+function parseProperties(
+  node: Element,
+  propertyDefinitions: Map<string, ArchimatePropertyDefinition>
+): ArchimateProperties {
+  const properties: ArchimateProperties = {};
+  const container = firstChild(node, 'properties');
+  if (!container) return properties;
+
+  for (const propertyNode of childElements(container, 'property')) {
+    const definitionRef = propertyNode.getAttribute('propertyDefinitionRef');
+    if (!definitionRef) continue;
+    // Fall back to the raw reference so values survive a missing definition
+    const definition = propertyDefinitions.get(definitionRef);
+    const key = definition?.name ?? definitionRef;
+    const raw = readLangString(propertyNode, 'value') ?? '';
+    properties[key] = coercePropertyValue(raw, definition?.type ?? 'string');
+  }
+  return properties;
+}
+
+function parseBounds(node: Element): ArchimateBounds | null {
+  if (!['x', 'y', 'w', 'h'].every(attr => node.hasAttribute(attr))) return null;
+  const [x, y, width, height] = ['x', 'y', 'w', 'h'].map(attr => Number(node.getAttribute(attr)));
+  if ([x, y, width, height].some(value => Number.isNaN(value))) return null;
+  return { x, y, width, height };
+}
+
+function parseViewNodes(parent: Element): ArchimateViewNode[] {
+  const nodes: ArchimateViewNode[] = [];
+  for (const node of childElements(parent, 'node')) {
+    const identifier = node.getAttribute('identifier');
+    if (!identifier) continue;
+    nodes.push({
+      identifier,
+      elementRef: node.getAttribute('elementRef'),
+      label: readLangString(node, 'label'),
+      bounds: parseBounds(node),
+      children: parseViewNodes(node),
+    });
+  }
+  return nodes;
+}
+
+function parseViewConnections(view: Element): ArchimateViewConnection[] {
+  const connections: ArchimateViewConnection[] = [];
+  for (const node of Array.from(view.getElementsByTagName('connection'))) {
+    const identifier = node.getAttribute('identifier');
+    const source = node.getAttribute('source');
+    const target = node.getAttribute('target');
+    if (identifier && source && target) {
+      connections.push({
+        identifier,
+        relationshipRef: node.getAttribute('relationshipRef'),
+        source,
+        target,
+      });
+    }
+  }
+  return connections;
+}
+
+// Organization items either reference a concept (`identifierRef`) or are folders holding more items
+function parseOrganizationFolders(parent: Element): ArchimateFolder[] {
+  return childElements(parent, 'item')
+    .filter(item => !item.hasAttribute('identifierRef'))
+    .map(item => ({
+      identifier: item.getAttribute('identifier'),
+      label: readLangString(item, 'label') ?? '',
+      folders: parseOrganizationFolders(item),
+      itemRefs: childElements(item, 'item')
+        .map(child => child.getAttribute('identifierRef'))
+        .filter((ref): ref is string => !!ref),
+    }));
+}
+
+export function flattenViewNodes(nodes: ArchimateViewNode[]): ArchimateViewNode[] {
+  return nodes.flatMap(node => [node, ...flattenViewNodes(node.children)]);
+}
+
+/**
+ * Raised when a document cannot be read as a model. `line` and `column` are
+ * 1-based and point at the offending spot of malformed XML when the browser
+ * reports it.
+ */
+export class ArchimateParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number | null = null,
+    public readonly column: number | null = null
+  ) {
+    super(message);
+    this.name = 'ArchimateParseError';
+  }
+}
+
+// Browsers word XML errors differently; each pattern captures line, column and, when present, the reason
+const PARSER_ERROR_LOCATIONS: RegExp[] = [
+  // Chrome and Safari: "error on line 3 at column 5: Opening and ending tag mismatch"
+  /error on line (\d+) at column (\d+):\s*([^\n]*)/,
+  // jsdom: "3:5: unexpected close tag."
+  /^\s*(\d+):(\d+):\s*([^\n]*)/,
+  // Firefox: "XML Parsing Error: mismatched tag ... Line Number 3, Column 5:"
+  /Line Number (\d+), Column (\d+)/,
+];
+
+function toParseError(parserError: Element): ArchimateParseError {
+  const text = parserError.textContent ?? '';
+  for (const pattern of PARSER_ERROR_LOCATIONS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const reason = match[3] ?? text.match(/XML Parsing Error:\s*([^\n]*)/)?.[1] ?? '';
+    return new ArchimateParseError(
+      `Failed to parse XML${reason ? `: ${reason.trim()}` : ''}`,
+      parseInt(match[1], 10),
+      parseInt(match[2], 10)
+    );
+  }
+  return new ArchimateParseError('Failed to parse XML');
+}
+
+function parseXMLDocument(xmlString: string): Document {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(xmlString, 'application/xml');
 
-    if (xmlDoc.getElementsByTagName('parsererror').length > 0) {
-      throw new Error('Failed to parse XML');
+  const parserError = xmlDoc.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    throw toParseError(parserError);
+  }
+  return xmlDoc;
+}
+
+function readExchangeModel(xmlDoc: Document): ArchimateModel {
+  const elements = new Map<string, ArchimateElement>();
+  const relationships: ArchimateRelationship[] = [];
+  const views = new Map<string, ArchimateView>();
+  const propertyDefinitions = parsePropertyDefinitions(xmlDoc.documentElement);
+
+  // Parse elements
+  const elementNodes = xmlDoc.getElementsByTagName('element');
+  for (const node of Array.from(elementNodes)) {
+    const identifier = node.getAttribute('identifier');
+    const type = node.getAttribute('xsi:type');
+    if (identifier && type) {
+      elements.set(identifier, {
+        identifier,
+        type,
+        // Junctions, and elements still being modelled, have no name
+        name: readLangString(node, 'name') ?? '',
+        documentation: readLangString(node, 'documentation'),
+        properties: parseProperties(node, propertyDefinitions),
+      });
     }
+  }
+
+  // Parse relationships
+  const relationshipNodes = xmlDoc.getElementsByTagName('relationship');
+  for (const node of Array.from(relationshipNodes)) {
+    const identifier = node.getAttribute('identifier');
+    const type = node.getAttribute('xsi:type');
+    const source = node.getAttribute('source');
+    const target = node.getAttribute('target');
+    const name = readLangString(node, 'name');
+    if (identifier && type && source && target) {
+      relationships.push({
+        identifier,
+        type,
+        source,
+        target,
+        name,
+        documentation: readLangString(node, 'documentation'),
+        properties: parseProperties(node, propertyDefinitions),
+      });
+    }
+  }
 
-    const elements = new Map<string, ArchimateElement>();
-    const relationships: ArchimateRelationship[] = [];
-    const views = new Map<string, ArchimateView>();
-
-    // Parse elements
-    const elementNodes = xmlDoc.getElementsByTagName('element');
-    for (const node of Array.from(elementNodes)) {
-      const identifier = node.getAttribute('identifier');
-      const type = node.getAttribute('xsi:type');
-      const name = node.getElementsByTagName('name')[0]?.textContent;
-      if (identifier && type && name) {
-        elements.set(identifier, { identifier, type, name });
-      }
+  // Parse views
+  const viewNodes = xmlDoc.getElementsByTagName('view');
+  for (const node of Array.from(viewNodes)) {
+    const identifier = node.getAttribute('identifier');
+    const name = readLangString(node, 'name');
+    if (identifier && name) {
+      const nodes = parseViewNodes(node);
+      const elementRefs = flattenViewNodes(nodes)
+        .map(viewNode => viewNode.elementRef)
+        .filter((ref): ref is string => !!ref);
+      views.set(identifier, {
+        identifier,
+        name,
+        documentation: readLangString(node, 'documentation'),
+        properties: parseProperties(node, propertyDefinitions),
+        nodes,
+        connections: parseViewConnections(node),
+        elementRefs,
+      });
     }
+  }
+
+  const organizationsNode = firstChild(xmlDoc.documentElement, 'organizations');
+  const organizations = organizationsNode ? parseOrganizationFolders(organizationsNode) : [];
+
+  return { elements, relationships, views, propertyDefinitions, organizations };
+}
+
+// --- Archi native format ---
+
+const ARCHI_NAMESPACE = 'http://www.archimatetool.com/archimate';
+const ARCHI_TYPE_PREFIX = 'archimate:';
+const ARCHI_VIEW_TYPE = 'ArchimateDiagramModel';
+// Sketch and canvas views ("archimate:SketchModel", "canvas:CanvasModel") hold no ArchiMate concepts
+const ARCHI_DIAGRAM_MODEL_SUFFIX = 'Model';
+const ARCHI_RELATIONSHIP_SUFFIX = 'Relationship';
+// Archi stores -1 for figures drawn at their default size
+const ARCHI_DEFAULT_WIDTH = 120;
+const ARCHI_DEFAULT_HEIGHT = 55;
+
+function readArchiDocumentation(node: Element): string | null {
+  const documentation = firstChild(node, 'documentation')?.textContent ?? node.getAttribute('documentation');
+  return documentation?.trim() || null;
+}
 
-    // Parse relationships
-    const relationshipNodes = xmlDoc.getElementsByTagName('relationship');
-    for (const node of Array.from(relationshipNodes)) {
-      const identifier = node.getAttribute('identifier');
-      const type = node.getAttribute('xsi:type');
+function readArchiProperties(
+  node: Element,
+  propertyDefinitions: Map<string, ArchimatePropertyDefinition>
+): ArchimateProperties {
+  const properties: ArchimateProperties = {};
+  for (const propertyNode of childElements(node, 'property')) {
+    const key = propertyNode.getAttribute('key');
+    if (!key) continue;
+    // Archi properties are untyped, so every key becomes a string definition
+    if (!propertyDefinitions.has(key)) {
+      propertyDefinitions.set(key, { identifier: key, name: key, type: 'string' });
+    }
+    properties[key] = propertyNode.getAttribute('value') ?? '';
+  }
+  return properties;
+}
+
+// Archi child bounds are relative to the parent figure; the exchange format uses absolute ones
+function readArchiBounds(node: Element, origin: { x: number; y: number }): ArchimateBounds | null {
+  const boundsNode = firstChild(node, 'bounds');
+  if (!boundsNode) return null;
+  const read = (attr: string, fallback: number) => {
+    const value = Number(boundsNode.getAttribute(attr) ?? fallback);
+    return Number.isNaN(value) || value < 0 ? fallback : value;
+  };
+  return {
+    x: origin.x + read('x', 0),
+    y: origin.y + read('y', 0),
+    width: read('width', ARCHI_DEFAULT_WIDTH),
+    height: read('height', ARCHI_DEFAULT_HEIGHT),
+  };
+}
+
+function readArchiViewNodes(parent: Element, origin: { x: number; y: number }): ArchimateViewNode[] {
+  const nodes: ArchimateViewNode[] = [];
+  for (const child of childElements(parent, 'child')) {
+    const identifier = child.getAttribute('id');
+    if (!identifier) continue;
+    const elementRef = child.getAttribute('archimateElement');
+    const bounds = readArchiBounds(child, origin);
+    const label = elementRef
+      ? null
+      : child.getAttribute('name') || firstChild(child, 'content')?.textContent?.trim() || null;
+    nodes.push({
+      identifier,
+      elementRef,
+      label,
+      bounds,
+      children: readArchiViewNodes(child, bounds ?? origin),
+    });
+  }
+  return nodes;
+}
+
+function readArchiConnections(view: Element): ArchimateViewConnection[] {
+  const connections: ArchimateViewConnection[] = [];
+  for (const node of Array.from(view.getElementsByTagName('sourceConnection'))) {
+    const identifier = node.getAttribute('id');
+    const source = node.getAttribute('source');
+    const target = node.getAttribute('target');
+    if (identifier && source && target) {
+      connections.push({
+        identifier,
+        relationshipRef: node.getAttribute('archimateRelationship'),
+        source,
+        target,
+      });
+    }
+  }
+  return connections;
+}
+
+// Map Archi type names onto the exchange format vocabulary
+function normalizeArchiElementType(node: Element, archiType: string): string {
+  if (archiType === 'Junction') {
+    return node.getAttribute('type') === 'or' ? 'OrJunction' : 'AndJunction';
+  }
+  return archiType;
+}
+
+function isArchiNonArchimateDiagram(node: Element): boolean {
+  const type = node.getAttribute('xsi:type') ?? '';
+  return type.endsWith(ARCHI_DIAGRAM_MODEL_SUFFIX) && type !== ARCHI_TYPE_PREFIX + ARCHI_VIEW_TYPE;
+}
+
+function readArchiFolders(parent: Element): ArchimateFolder[] {
+  return childElements(parent, 'folder').map(folder => ({
+    identifier: folder.getAttribute('id'),
+    label: folder.getAttribute('name') ?? '',
+    folders: readArchiFolders(folder),
+    itemRefs: childElements(folder, 'element')
+      .filter(element => !isArchiNonArchimateDiagram(element))
+      .map(element => element.getAttribute('id'))
+      .filter((ref): ref is string => !!ref),
+  }));
+}
+
+function readArchiModel(xmlDoc: Document): ArchimateModel {
+  const elements = new Map<string, ArchimateElement>();
+  const relationships: ArchimateRelationship[] = [];
+  const views = new Map<string, ArchimateView>();
+  const propertyDefinitions = new Map<string, ArchimatePropertyDefinition>();
+
+  // Elements, relationships and diagrams all share the <element> tag in Archi files
+  for (const node of Array.from(xmlDoc.getElementsByTagName('element'))) {
+    const identifier = node.getAttribute('id');
+    const rawType = node.getAttribute('xsi:type');
+    if (!identifier || !rawType?.startsWith(ARCHI_TYPE_PREFIX) || isArchiNonArchimateDiagram(node)) continue;
+
+    const archiType = rawType.slice(ARCHI_TYPE_PREFIX.length);
+    const name = node.getAttribute('name');
+    const documentation = readArchiDocumentation(node);
+    const properties = readArchiProperties(node, propertyDefinitions);
+
+    if (archiType === ARCHI_VIEW_TYPE) {
+      if (!name) continue;
+      const nodes = readArchiViewNodes(node, { x: 0, y: 0 });
+      const elementRefs = flattenViewNodes(nodes)
+        .map(viewNode => viewNode.elementRef)
+        .filter((ref): ref is string => !!ref);
+      views.set(identifier, {
+        identifier,
+        name,
+        documentation,
+        properties,
+        nodes,
+        connections: readArchiConnections(node),
+        elementRefs,
+      });
+    } else if (archiType.endsWith(ARCHI_RELATIONSHIP_SUFFIX)) {
       const source = node.getAttribute('source');
       const target = node.getAttribute('target');
-      const name = node.getElementsByTagName('name')[0]?.textContent || null;
-      if (identifier && type && source && target) {
-        relationships.push({ identifier, type, source, target, name });
-      }
+      if (!source || !target) continue;
+      relationships.push({
+        identifier,
+        type: archiType.slice(0, -ARCHI_RELATIONSHIP_SUFFIX.length),
+        source,
+        target,
+        name: name || null,
+        documentation,
+        properties,
+      });
+    } else {
+      elements.set(identifier, {
+        identifier,
+        type: normalizeArchiElementType(node, archiType),
+        name: name ?? '',
+        documentation,
+        properties,
+      });
     }
+  }
 
-    // Parse views
-    const viewNodes = xmlDoc.getElementsByTagName('view');
-    for (const node of Array.from(viewNodes)) {
-      const identifier = node.getAttribute('identifier');
-      const name = node.getElementsByTagName('name')[0]?.textContent;
-      if (identifier && name) {
-        const elementRefs: string[] = [];
-        const nodeRefs = node.getElementsByTagName('node');
-        for (const refNode of Array.from(nodeRefs)) {
-          const elementRef = refNode.getAttribute('elementRef');
-          if (elementRef) {
-            elementRefs.push(elementRef);
-          }
-        }
-        views.set(identifier, { identifier, name, elementRefs });
-      }
-    }
+  const organizations = readArchiFolders(xmlDoc.documentElement);
+
+  return { elements, relationships, views, propertyDefinitions, organizations };
+}
+
+// --- Public entry points ---
+
+export type ArchimateFormat = 'exchange' | 'archi';
+
+/**
+ * Tell the Archi native format apart from the Open Group exchange format, from
+ * the root element. Null when the document is neither.
+ */
+export function detectArchimateFormat(xmlDoc: Document): ArchimateFormat | null {
+  const root = xmlDoc.documentElement;
+  if (root.namespaceURI === ARCHI_NAMESPACE || root.tagName === 'archimate:model') return 'archi';
+  return root.localName === 'model' ? 'exchange' : null;
+}
 
-    return { elements, relationships, views };
+/**
+ * Parse an Open Group ArchiMate exchange format document.
+ */
+export function parseArchimateXML(xmlString: string): ArchimateModel {
+  try {
+    return readExchangeModel(parseXMLDocument(xmlString));
   } catch (error) {
     console.error('Error parsing Archimate XML:', error);
     throw error;
   }
 }
 
-    
\ No newline at end of file
+/**
+ * Parse a native Archi `.archimate` document.
+ */
+export function parseArchiXML(xmlString: string): ArchimateModel {
+  try {
+    return readArchiModel(parseXMLDocument(xmlString));
+  } catch (error) {
+    console.error('Error parsing Archi model:', error);
+    throw error;
+  }
+}
+
+/**
+ * Parse either supported format, detecting it from the document itself.
+ * Well-formed XML that is neither is rejected with an `ArchimateParseError`.
+ */
+export function parseArchimateModel(xmlString: string): ArchimateModel {
+  try {
+    const xmlDoc = parseXMLDocument(xmlString);
+    const format = detectArchimateFormat(xmlDoc);
+    if (!format) {
+      throw new ArchimateParseError(
+        `Not an ArchiMate model: expected a <model> or <archimate:model> root, found <${xmlDoc.documentElement.tagName}>`
+      );
+    }
+    return format === 'archi' ? readArchiModel(xmlDoc) : readExchangeModel(xmlDoc);
+  } catch (error) {
+    console.error('Error parsing Archimate model:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Archimate Model Validator
+ *
+ * Checks a parsed model for the problems architecture reviews keep finding:
+ * - Relationships whose source or target is not in the model
+ * - Relationships the ArchiMate 3.1 metamodel does not allow between the two element types
+ * - Elements without a name, or sharing their name with another element
+ * - Elements that appear in no view
+ *
+ * The report can be shown in the UI or inserted into a document as a Markdown table.
+ */
+
+import { isRelationshipAllowed } from './archimate-notation';
+import type { ArchimateElement, ArchimateModel, ArchimateRelationship } from './archimate-parser';
+import { humanizeType } from './mermaid-labels';
+import { renderMarkdownTable } from './markdown-table';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationRule =
+  | 'missing-endpoint'
+  | 'invalid-relationship'
+  | 'unnamed-element'
+  | 'duplicate-name'
+  | 'not-in-view';
+
+export interface ValidationIssue {
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  /** Identifier of the element or relationship the issue is about */
+  subject: string;
+  /** Readable name of the subject, e.g. "Shop → Orders (Serving)" */
+  subjectLabel: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export const VALIDATION_RULE_LABELS: Record<ValidationRule, string> = {
+  'missing-endpoint': 'Missing source or target',
+  'invalid-relationship': 'Relationship not allowed',
+  'unnamed-element': 'Unnamed element',
+  'duplicate-name': 'Duplicate name',
+  'not-in-view': 'Not in any view',
+};
+
+// Junctions are unnamed by design
+const isJunction = (element: ArchimateElement) => element.type === 'AndJunction' || element.type === 'OrJunction';
+
+function elementLabel(element: ArchimateElement): string {
+  return element.name.trim() || `${humanizeType(element.type)} ${element.identifier}`;
+}
+
+function relationshipSubject(
+  relationship: ArchimateRelationship,
+  source: ArchimateElement | undefined,
+  target: ArchimateElement | undefined
+): string {
+  const end = (element: ArchimateElement | undefined, identifier: string) => (element ? elementLabel(element) : identifier);
+  return `${end(source, relationship.source)} → ${end(target, relationship.target)} (${relationship.type})`;
+}
+
+function checkRelationships(model: ArchimateModel): ValidationIssue[] {
+  // Relationships may connect to other relationships, e.g. an association annotating an access
+  const relationshipIds = new Set(model.relationships.map(rel => rel.identifier));
+  const issues: ValidationIssue[] = [];
+
+  model.relationships.forEach(rel => {
+    const source = model.elements.get(rel.source);
+    const target = model.elements.get(rel.target);
+    const subjectLabel = relationshipSubject(rel, source, target);
+
+    const missing = [
+      !source && !relationshipIds.has(rel.source) && `source "${rel.source}"`,
+      !target && !relationshipIds.has(rel.target) && `target "${rel.target}"`,
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      issues.push({
+        rule: 'missing-endpoint',
+        severity: 'error',
+        subject: rel.identifier,
+        subjectLabel,
+        message: `The ${missing.join(' and ')} is not an element of the model.`,
+      });
+      return;
+    }
+
+    if (source && target && isRelationshipAllowed(rel.type, source.type, target.type) === false) {
+      issues.push({
+        rule: 'invalid-relationship',
+        severity: 'error',
+        subject: rel.identifier,
+        subjectLabel,
+        message: `ArchiMate 3.1 does not allow ${rel.type} from ${humanizeType(source.type)} to ${humanizeType(target.type)}.`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+function checkNames(elements: ArchimateElement[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const byName = new Map<string, ArchimateElement[]>();
+
+  elements.forEach(element => {
+    const name = element.name.trim();
+    if (!name) {
+      if (!isJunction(element)) {
+        issues.push({
+          rule: 'unnamed-element',
+          severity: 'warning',
+          subject: element.identifier,
+          subjectLabel: elementLabel(element),
+          message: 'The element has no name.',
+        });
+      }
+      return;
+    }
+    const key = name.toLowerCase();
+    byName.set(key, [...(byName.get(key) ?? []), element]);
+  });
+
+  byName.forEach(namesakes => {
+    if (namesakes.length < 2) return;
+    namesakes.forEach(element => {
+      const others = namesakes.filter(other => other !== element).map(other => humanizeType(other.type));
+      issues.push({
+        rule: 'duplicate-name',
+        severity: 'warning',
+        subject: element.identifier,
+        subjectLabel: elementLabel(element),
+        message: `${others.length} other element${others.length > 1 ? 's share' : ' shares'} this name (${others.join(', ')}).`,
+      });
+    });
+  });
+
+  return issues;
+}
+
+function checkViewCoverage(model: ArchimateModel, elements: ArchimateElement[]): ValidationIssue[] {
+  const inView = new Set<string>();
+  model.views.forEach(view => view.elementRefs.forEach(ref => inView.add(ref)));
+
+  return elements
+    .filter(element => !inView.has(element.identifier))
+    .map(element => ({
+      rule: 'not-in-view' as const,
+      severity: 'warning' as const,
+      subject: element.identifier,
+      subjectLabel: elementLabel(element),
+      message: 'The element does not appear in any view.',
+    }));
+}
+
+/**
+ * Run every check over the model. Issues are grouped by check, in the order
+ * of `VALIDATION_RULE_LABELS`, which puts errors first.
+ */
+export function validateArchimateModel(model: ArchimateModel): ValidationReport {
+  const elements = Array.from(model.elements.values());
+  const ruleOrder = Object.keys(VALIDATION_RULE_LABELS);
+  const issues = [
+    ...checkRelationships(model),
+    ...checkNames(elements),
+    ...checkViewCoverage(model, elements),
+  ].sort((a, b) => ruleOrder.indexOf(a.rule) - ruleOrder.indexOf(b.rule));
+
+  return {
+    issues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+  };
+}
+
+/**
+ * Render the report as a Markdown table for architecture review documents.
+ */
+export function validationReportToMarkdown(report: ValidationReport): string {
+  if (report.issues.length === 0) {
+    return 'No validation issues found.';
+  }
+
+  const rows = report.issues.map(issue => [
+    issue.severity === 'error' ? 'Error' : 'Warning',
+    VALIDATION_RULE_LABELS[issue.rule],
+    issue.subjectLabel,
+    issue.message,
+  ]);
+  return renderMarkdownTable(['Severity', 'Check', 'Subject', 'Details'], rows);
+}
@@ -0,0 +1,218 @@
+/**
+ * HTML Export
+ *
+ * Turns a Markdown document into one self-contained HTML file: the stylesheet
+ * is inlined, Mermaid diagrams are rendered to inline SVG, images are embedded
+ * as data URIs and a table of contents links to every section. The export
+ * renders from the Markdown string through the same pipeline as the preview,
+ * so it does not depend on what the preview currently shows.
+ */
+
+import { escapeHtml, renderMarkdown, SOURCE_POSITION_ATTRIBUTES } from '@/lib/markdown-pipeline';
+import type { MermaidRender } from '@/lib/preview-blocks';
+
+export interface HtmlExportOptions {
+  /** Document title; defaults to the text of the first heading */
+  title?: string;
+  /** Renders diagrams to SVG; without it, or when it fails, diagrams are kept as source */
+  renderMermaid?: MermaidRender;
+  /** Loads an image as a data URI; without it, or when it fails, images keep their URL */
+  loadImage?: (src: string) => Promise<string>;
+  /** Whether to start with a table of contents, on by default */
+  tableOfContents?: boolean;
+}
+
+// Headings listed in the table of contents
+const TOC_HEADINGS = 'h1, h2, h3';
+
+// The preview's `.prose-styles` rules and dark theme tokens from globals.css,
+// written out in plain CSS since the preview's are Tailwind utilities. The
+// diagrams are themed for the dark palette.
+const EXPORT_STYLES = `
+:root {
+  color-scheme: dark;
+  --background: 220 13% 18%;
+  --foreground: 210 40% 98%;
+  --card: 220 13% 15%;
+  --primary: 215 100% 73%;
+  --secondary: 217.2 32.6% 25.5%;
+  --muted-foreground: 215 20.2% 65.1%;
+  --accent: 283 69% 77%;
+  --border: 217.2 32.6% 25.5%;
+  --input: 217.2 32.6% 22.5%;
+}
+body { margin: 0; background: hsl(var(--background)); font-family: 'Inter', sans-serif; }
+.document { max-width: 960px; margin: 0 auto; padding: 2rem; }
+.prose-styles { color: hsl(var(--foreground) / 0.9); }
+.prose-styles h1, .prose-styles h2, .prose-styles h3, .prose-styles h4, .prose-styles h5, .prose-styles h6 {
+  font-family: 'Inter', sans-serif;
+  color: hsl(var(--foreground));
+  margin: 0 0 1rem;
+  font-weight: 600;
+}
+.prose-styles h1 { font-size: 2.25rem; line-height: 2.5rem; margin-top: 2rem; }
+.prose-styles h2 { font-size: 1.875rem; line-height: 2.25rem; margin-top: 1.75rem; }
+.prose-styles h3 { font-size: 1.5rem; line-height: 2rem; margin-top: 1.5rem; }
+.prose-styles p { margin: 0 0 1rem; line-height: 1.625; }
+.prose-styles a { color: hsl(var(--primary)); text-decoration: none; }
+.prose-styles a:hover { text-decoration: underline; }
+.prose-styles ul, .prose-styles ol { list-style-position: inside; margin: 0 0 1rem; padding-left: 1rem; }
+.prose-styles ul { list-style-type: disc; }
+.prose-styles ol { list-style-type: decimal; }
+.prose-styles li { margin-bottom: 0.5rem; }
+.prose-styles blockquote {
+  margin: 0 0 1rem;
+  padding-left: 1rem;
+  border-left: 4px solid hsl(var(--accent));
+  font-style: italic;
+  color: hsl(var(--muted-foreground));
+}
+.prose-styles code:not(pre > code) {
+  font-family: 'Source Code Pro', monospace;
+  color: hsl(var(--accent));
+  background: hsl(var(--input));
+  padding: 0.25rem 0.375rem;
+  border-radius: 0.25rem;
+}
+.prose-styles pre { background: hsl(var(--input)); padding: 1rem; border-radius: 0.375rem; margin: 0 0 1rem; overflow-x: auto; }
+.prose-styles pre code { font-family: 'Source Code Pro', monospace; color: hsl(var(--foreground) / 0.9); background: transparent; padding: 0; }
+.prose-styles table { width: 100%; border-collapse: collapse; margin-bottom: 1rem; }
+.prose-styles th, .prose-styles td { border: 1px solid hsl(var(--border)); padding: 0.5rem 1rem; text-align: left; }
+.prose-styles th { background: hsl(var(--secondary)); font-weight: 500; }
+.prose-styles hr { border: 0; border-top: 1px solid hsl(var(--border)); margin: 2rem 0; }
+img { max-width: 100%; }
+.mermaid { margin: 0 0 1rem; text-align: center; }
+.toc { margin-bottom: 2rem; padding: 1rem 1.5rem; background: hsl(var(--card)); border-radius: 0.375rem; }
+.toc h2 { font-size: 1.25rem; margin-top: 0; }
+.toc ul { list-style: none; margin: 0; padding-left: 0; }
+.toc li { margin-bottom: 0.25rem; }
+.toc .toc-h2 { padding-left: 1.25rem; }
+.toc .toc-h3 { padding-left: 2.5rem; }
+@media print {
+  .document { max-width: none; padding: 0; }
+  .toc, .mermaid, pre, table { break-inside: avoid; }
+}
+`;
+
+let exportCount = 0;
+
+/**
+ * Fetch an image and read it as a data URI, for `HtmlExportOptions.loadImage`.
+ */
+export async function fetchImageAsDataUri(src: string): Promise<string> {
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`Could not load ${src}: ${response.status}`);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * An anchor for a heading, unique within `taken`.
+ */
+export function headingSlug(text: string, taken: Set<string>): string {
+  const base =
+    text
+      .toLowerCase()
+      .trim()
+      .replace(/[^\p{L}\p{N}\s-]/gu, '')
+      .replace(/\s+/g, '-') || 'section';
+  let slug = base;
+  for (let suffix = 1; taken.has(slug); suffix++) slug = `${base}-${suffix}`;
+  taken.add(slug);
+  return slug;
+}
+
+// Diagrams that cannot be rendered are shown as their script
+function diagramSource(script: string): HTMLElement {
+  const pre = document.createElement('pre');
+  const code = document.createElement('code');
+  code.className = 'language-mermaid';
+  code.textContent = script;
+  pre.append(code);
+  return pre;
+}
+
+async function renderDiagrams(content: DocumentFragment, renderMermaid?: MermaidRender): Promise<void> {
+  // Mermaid does not render concurrently
+  for (const diagram of Array.from(content.querySelectorAll('.mermaid'))) {
+    const script = diagram.textContent ?? '';
+    try {
+      if (!renderMermaid) throw new Error('No Mermaid renderer');
+      const { svg } = await renderMermaid(`mermaid-export-${++exportCount}`, script);
+      diagram.innerHTML = svg;
+    } catch {
+      diagram.replaceWith(diagramSource(script));
+    }
+  }
+}
+
+async function embedImages(content: DocumentFragment, loadImage?: (src: string) => Promise<string>): Promise<void> {
+  if (!loadImage) return;
+  // Each image is loaded once, however often it appears
+  const loads = new Map<string, Promise<string | null>>();
+  await Promise.all(
+    Array.from(content.querySelectorAll('img')).map(async image => {
+      const src = image.getAttribute('src');
+      if (!src || src.startsWith('data:')) return;
+      if (!loads.has(src)) loads.set(src, loadImage(src).catch(() => null));
+      const dataUri = await loads.get(src);
+      if (dataUri) image.setAttribute('src', dataUri);
+    })
+  );
+}
+
+// Give headings anchors and list them, indented by level
+function tableOfContents(content: DocumentFragment): string {
+  const taken = new Set<string>();
+  const entries = Array.from(content.querySelectorAll(TOC_HEADINGS)).map(heading => {
+    const text = heading.textContent?.trim() ?? '';
+    const id = headingSlug(text, taken);
+    heading.setAttribute('id', id);
+    return `<li class="toc-${heading.tagName.toLowerCase()}"><a href="#${id}">${escapeHtml(text)}</a></li>`;
+  });
+  if (entries.length === 0) return '';
+  return `<nav class="toc"><h2>Contents</h2><ul>${entries.join('')}</ul></nav>`;
+}
+
+/**
+ * Export Markdown as a self-contained HTML document. Needs a DOM, as the
+ * preview does, but not the preview itself.
+ */
+export async function exportMarkdownToHtml(markdown: string, options: HtmlExportOptions = {}): Promise<string> {
+  const template = document.createElement('template');
+  template.innerHTML = renderMarkdown(markdown);
+  const content = template.content;
+
+  // Positions only mean something next to the editor
+  const positioned = SOURCE_POSITION_ATTRIBUTES.map(attribute => `[${attribute}]`).join(', ');
+  content.querySelectorAll(positioned).forEach(element =>
+    SOURCE_POSITION_ATTRIBUTES.forEach(attribute => element.removeAttribute(attribute))
+  );
+
+  await renderDiagrams(content, options.renderMermaid);
+  await embedImages(content, options.loadImage);
+
+  const title = options.title ?? content.querySelector('h1, h2, h3, h4, h5, h6')?.textContent?.trim() ?? 'Document';
+  const toc = options.tableOfContents === false ? '' : tableOfContents(content);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title || 'Document')}</title>`,
+    `<style>${EXPORT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<main class="document prose-styles">${toc}${template.innerHTML}</main>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
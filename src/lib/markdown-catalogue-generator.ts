@@ -0,0 +1,158 @@
+/**
+ * Markdown Catalogue Generator
+ *
+ * Turns an Archimate element set into Markdown tables for the catalogues of an
+ * architecture document, such as "Application Components" or "Technology Stack".
+ * Columns are picked from the element name, type, documentation and properties.
+ * Relationships can be listed in a second table, e.g. for integration points.
+ */
+
+import type { ArchimateElement, ArchimateRelationship } from './archimate-parser';
+import { LAYER_ORDER, getElementLayer } from './archimate-notation';
+import { humanizeType } from './mermaid-labels';
+import { renderMarkdownTable } from './markdown-table';
+
+/**
+ * A catalogue column: a built-in field, or a property as `property:<key>`
+ */
+export type CatalogueColumn = 'name' | 'type' | 'documentation' | `property:${string}`;
+
+export interface CatalogueOptions {
+  /** Columns of the element tables, in order */
+  columns?: CatalogueColumn[];
+  /** One table per element type, under a heading named after the type */
+  groupByType?: boolean;
+  /** Add a table of the relationships between the elements, with their source and target */
+  includeRelationships?: boolean;
+}
+
+type ResolvedCatalogueOptions = Required<CatalogueOptions>;
+
+export const DEFAULT_CATALOGUE_OPTIONS: ResolvedCatalogueOptions = {
+  columns: ['name', 'type', 'documentation'],
+  groupByType: true,
+  includeRelationships: false,
+};
+
+const PROPERTY_PREFIX = 'property:';
+
+export function propertyColumn(key: string): CatalogueColumn {
+  return `${PROPERTY_PREFIX}${key}`;
+}
+
+/**
+ * The header text of a column
+ */
+export function catalogueColumnLabel(column: CatalogueColumn): string {
+  switch (column) {
+    case 'name':
+      return 'Name';
+    case 'type':
+      return 'Type';
+    case 'documentation':
+      return 'Description';
+    default:
+      return column.slice(PROPERTY_PREFIX.length);
+  }
+}
+
+/**
+ * Every property key used by the given elements or relationships, sorted
+ */
+export function cataloguePropertyKeys(items: (ArchimateElement | ArchimateRelationship)[]): string[] {
+  const keys = new Set<string>();
+  items.forEach(item => Object.keys(item.properties).forEach(key => keys.add(key)));
+  return Array.from(keys).sort((a, b) => a.localeCompare(b));
+}
+
+function cellValue(item: ArchimateElement | ArchimateRelationship, column: CatalogueColumn): string {
+  switch (column) {
+    case 'name':
+      return item.name ?? '';
+    case 'type':
+      return humanizeType(item.type);
+    case 'documentation':
+      return item.documentation ?? '';
+    default: {
+      const value = item.properties[column.slice(PROPERTY_PREFIX.length)];
+      return value === undefined ? '' : String(value);
+    }
+  }
+}
+
+// "Application Component" -> "Application Components", "Business Process" -> "Business Processes"
+function pluralize(title: string): string {
+  if (/(Software|Equipment|Material)$/.test(title)) return title;
+  if (/(s|x|z|ch|sh)$/.test(title)) return `${title}es`;
+  if (/[^aeiou]y$/.test(title)) return `${title.slice(0, -1)}ies`;
+  return `${title}s`;
+}
+
+const byName = (a: { name: string | null }, b: { name: string | null }) =>
+  (a.name ?? '').localeCompare(b.name ?? '');
+
+function elementTable(elements: ArchimateElement[], columns: CatalogueColumn[]): string {
+  const rows = [...elements].sort(byName).map(element => columns.map(column => cellValue(element, column)));
+  return renderMarkdownTable(columns.map(catalogueColumnLabel), rows);
+}
+
+function relationshipTable(
+  relationships: ArchimateRelationship[],
+  entitiesById: Map<string, ArchimateElement>,
+  columns: CatalogueColumn[]
+): string {
+  const endName = (identifier: string) => entitiesById.get(identifier)?.name || identifier;
+  const rows = relationships
+    .map(rel => [endName(rel.source), endName(rel.target), ...columns.map(column => cellValue(rel, column))])
+    .sort((a, b) => a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]));
+  return renderMarkdownTable(['Source', 'Target', ...columns.map(catalogueColumnLabel)], rows);
+}
+
+/**
+ * Generate the catalogue tables for a set of elements and the relationships between them.
+ *
+ * @example
+ * generateMarkdownCatalogue(components, [], { columns: ['name', 'property:Owner'], groupByType: false })
+ * // Returns:
+ * // | Name | Owner |
+ * // | --- | --- |
+ * // | Customer Portal | Jane Doe |
+ */
+export function generateMarkdownCatalogue(
+  entities: ArchimateElement[],
+  relationships: ArchimateRelationship[],
+  options: CatalogueOptions = {}
+): string {
+  const { columns, groupByType, includeRelationships }: ResolvedCatalogueOptions = {
+    ...DEFAULT_CATALOGUE_OPTIONS,
+    ...options,
+  };
+  const tableColumns: CatalogueColumn[] = columns.length > 0 ? columns : ['name'];
+  const sections: string[] = [];
+
+  if (groupByType) {
+    const byType = new Map<string, ArchimateElement[]>();
+    entities.forEach(entity => byType.set(entity.type, [...(byType.get(entity.type) ?? []), entity]));
+
+    // Layers top to bottom, then types alphabetically, as in the diagrams
+    const types = Array.from(byType.keys()).sort(
+      (a, b) =>
+        LAYER_ORDER.indexOf(getElementLayer(a)) - LAYER_ORDER.indexOf(getElementLayer(b)) || a.localeCompare(b)
+    );
+    types.forEach(type => {
+      sections.push(`### ${pluralize(humanizeType(type))}\n\n${elementTable(byType.get(type)!, tableColumns)}`);
+    });
+  } else if (entities.length > 0) {
+    sections.push(elementTable(entities, tableColumns));
+  }
+
+  if (includeRelationships && relationships.length > 0) {
+    const entitiesById = new Map(entities.map(entity => [entity.identifier, entity]));
+    // The element type says nothing about a relationship, so the relationship type takes its place
+    const relationshipColumns = tableColumns.filter(column => column !== 'type');
+    const table = relationshipTable(relationships, entitiesById, ['type', ...relationshipColumns]);
+    sections.push(groupByType ? `### Relationships\n\n${table}` : table);
+  }
+
+  return sections.length > 0 ? sections.join('\n\n') : 'No elements selected.';
+}
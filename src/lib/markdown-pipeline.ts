@@ -0,0 +1,288 @@
+/**
+ * Markdown Pipeline
+ *
+ * Renders the editor's Markdown to HTML for the preview: marked parses it,
+ * registered extensions render their own fences and syntax, and DOMPurify
+ * sanitizes the result against an allowlist. Nothing outside the allowlist
+ * reaches the DOM, whether it came from raw HTML in the document or from an
+ * extension's renderer.
+ *
+ * Each top-level block is stamped with the source lines and offsets it came
+ * from, and so are list items, table cells and nested paragraphs and headings
+ * where they can be found in the source. Scroll sync and jumping from the
+ * preview to the source rely on these.
+ */
+
+import { Marked, Renderer, type Token, type Tokens, type TokenizerAndRendererExtension, type TokensList } from 'marked';
+import DOMPurify, { type Config, type DOMPurify as Purifier } from 'dompurify';
+
+/** Renders the body of a fenced code block; `info` is the rest of the fence's info string */
+export type FenceRenderer = (code: string, info: string) => string;
+
+/**
+ * A feature of the preview, such as diagrams, callouts or math. Extensions are
+ * registered with `registerMarkdownExtension` and apply to every render.
+ */
+export interface MarkdownExtension {
+  name: string;
+  /** Renderers for fenced code blocks, keyed by the fence's language */
+  fences?: Record<string, FenceRenderer>;
+  /** marked tokenizers and renderers for syntax of the extension's own */
+  syntax?: TokenizerAndRendererExtension[];
+  /** Tags and attributes the extension's output needs beyond the default allowlist */
+  allow?: { tags?: string[]; attributes?: string[] };
+}
+
+// Everything marked produces for CommonMark and GFM, plus common inline HTML
+const ALLOWED_TAGS = [
+  'a', 'abbr', 'b', 'blockquote', 'br', 'code', 'dd', 'del', 'details', 'div', 'dl', 'dt', 'em',
+  'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'input', 'ins',
+  'kbd', 'li', 'mark', 'ol', 'p', 'pre', 's', 'samp', 'small', 'span', 'strong', 'sub', 'summary',
+  'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul',
+];
+
+/** First source line of a rendered block, from 1 */
+export const LINE_NUMBER_ATTRIBUTE = 'data-line-number';
+/** Last source line of a rendered block */
+export const LINE_END_ATTRIBUTE = 'data-line-end';
+/** Source offset where a rendered element's Markdown starts */
+export const SOURCE_FROM_ATTRIBUTE = 'data-source-from';
+/** Source offset just past a rendered element's Markdown, trailing line breaks excluded */
+export const SOURCE_TO_ATTRIBUTE = 'data-source-to';
+
+/** Every attribute tying a rendered element to the source */
+export const SOURCE_POSITION_ATTRIBUTES = [
+  LINE_NUMBER_ATTRIBUTE,
+  LINE_END_ATTRIBUTE,
+  SOURCE_FROM_ATTRIBUTE,
+  SOURCE_TO_ATTRIBUTE,
+];
+
+const ALLOWED_ATTRIBUTES = [
+  'align', 'alt', 'checked', 'class', 'colspan', 'disabled', 'height', 'href', 'id', 'open',
+  'rowspan', 'src', 'start', 'title', 'type', 'width', ...SOURCE_POSITION_ATTRIBUTES,
+];
+
+interface SourceRange {
+  from: number;
+  to: number;
+}
+
+// Web, mail and phone links, and relative URLs. Images may also use data URIs.
+const ALLOWED_URI = /^(?:(?:https?|mailto|tel):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i;
+
+/**
+ * Render ```mermaid fences as containers holding the script, for the preview to render into.
+ */
+export const mermaidExtension: MarkdownExtension = {
+  name: 'mermaid',
+  fences: {
+    mermaid: code => `<div class="mermaid">${escapeHtml(code)}</div>`,
+  },
+};
+
+const registeredExtensions: MarkdownExtension[] = [mermaidExtension];
+
+// Built on first use and again after each registration
+let defaultRenderer: ((markdown: string) => string) | null = null;
+let purifier: Purifier | null = null;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Add an extension to every later `renderMarkdown` call. An extension with the
+ * name of a registered one replaces it.
+ */
+export function registerMarkdownExtension(extension: MarkdownExtension): void {
+  const index = registeredExtensions.findIndex(registered => registered.name === extension.name);
+  if (index === -1) {
+    registeredExtensions.push(extension);
+  } else {
+    registeredExtensions[index] = extension;
+  }
+  defaultRenderer = null;
+}
+
+/** The extensions `renderMarkdown` applies, in registration order */
+export function getMarkdownExtensions(): MarkdownExtension[] {
+  return [...registeredExtensions];
+}
+
+// One sanitizer for the pipeline, so its hook does not leak into other DOMPurify users
+function getPurifier(): Purifier {
+  if (!purifier) {
+    purifier = DOMPurify(window);
+    // Only the disabled checkboxes of GFM task lists survive as inputs
+    purifier.addHook('afterSanitizeAttributes', node => {
+      if (node.nodeName === 'INPUT') {
+        node.setAttribute('type', 'checkbox');
+        node.setAttribute('disabled', '');
+      }
+    });
+  }
+  return purifier;
+}
+
+/**
+ * Sanitize HTML against the allowlist, extended by the extensions' `allow` lists.
+ * Needs a DOM, so it runs in the browser or under jsdom.
+ */
+export function sanitizeHtml(html: string, extensions: MarkdownExtension[] = registeredExtensions): string {
+  const config: Config = {
+    ALLOWED_TAGS: [...ALLOWED_TAGS, ...extensions.flatMap(extension => extension.allow?.tags ?? [])],
+    ALLOWED_ATTR: [...ALLOWED_ATTRIBUTES, ...extensions.flatMap(extension => extension.allow?.attributes ?? [])],
+    ALLOWED_URI_REGEXP: ALLOWED_URI,
+    ALLOW_DATA_ATTR: false,
+    ALLOW_ARIA_ATTR: false,
+  };
+  return getPurifier().sanitize(html, config);
+}
+
+function lineBreaks(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+// Add attributes to the first tag of an element's HTML
+function stamp(html: string, attributes: Record<string, number>): string {
+  const stamped = Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${value}"`)
+    .join('');
+  return html.replace(/^\s*<([a-z][a-z0-9-]*)/i, `<$1${stamped}`);
+}
+
+// Find the cells of a table's header and body rows in its source lines
+function locateTableCells(table: Tokens.Table, range: SourceRange, source: string, ranges: WeakMap<object, SourceRange>) {
+  // The delimiter row has no cells
+  const rows = [table.header, null, ...table.rows];
+  let lineStart = range.from;
+  source
+    .slice(range.from, range.to)
+    .split('\n')
+    .forEach((line, index) => {
+      let cursor = 0;
+      rows[index]?.forEach(cell => {
+        const at = cell.text ? line.indexOf(cell.text, cursor) : -1;
+        if (at === -1) return;
+        ranges.set(cell, { from: lineStart + at, to: lineStart + at + cell.text.length });
+        cursor = at + cell.text.length;
+      });
+      lineStart += line.length + 1;
+    });
+}
+
+// Find the list items, cells and blocks inside a block in the source. Content
+// marked has dedented or unquoted spanning several lines is not found; it
+// takes the range of the block around it.
+function locateChildren(token: Token, range: SourceRange, source: string, ranges: WeakMap<object, SourceRange>) {
+  if (token.type === 'table') {
+    locateTableCells(token as Tokens.Table, range, source, ranges);
+    return;
+  }
+  const children: Token[] =
+    token.type === 'list' ? (token as Tokens.List).items : ['list_item', 'blockquote'].includes(token.type) ? (token as Tokens.Generic).tokens ?? [] : [];
+
+  let offset = range.from;
+  children.forEach(child => {
+    const raw = child.raw.replace(/\s+$/, '');
+    const at = raw ? source.indexOf(raw, offset) : -1;
+    if (at === -1 || at + raw.length > range.to) return;
+    const childRange = { from: at, to: at + raw.length };
+    ranges.set(child, childRange);
+    offset = childRange.to;
+    locateChildren(child, childRange, source, ranges);
+  });
+}
+
+/**
+ * Build a renderer applying `extensions`. Fences of a language no extension
+ * handles render as ordinary code blocks.
+ */
+export function createMarkdownRenderer(extensions: MarkdownExtension[]): (markdown: string) => string {
+  const fences = new Map<string, FenceRenderer>();
+  extensions.forEach(extension => {
+    Object.entries(extension.fences ?? {}).forEach(([language, render]) => fences.set(language, render));
+  });
+
+  // Ranges of the nested elements of the document being rendered
+  let nestedRanges = new WeakMap<object, SourceRange>();
+  const stampNested = (html: string, token: object): string => {
+    const range = nestedRanges.get(token);
+    return range ? stamp(html, { [SOURCE_FROM_ATTRIBUTE]: range.from, [SOURCE_TO_ATTRIBUTE]: range.to }) : html;
+  };
+
+  const marked = new Marked({
+    gfm: true,
+    extensions: extensions.flatMap(extension => extension.syntax ?? []),
+    renderer: {
+      code({ text, lang }) {
+        const [language = '', ...info] = (lang ?? '').trim().split(/\s+/);
+        const render = fences.get(language);
+        // false falls back to marked's own code block
+        return render ? render(text, info.join(' ')) : false;
+      },
+      paragraph(token) {
+        return stampNested(Renderer.prototype.paragraph.call(this, token), token);
+      },
+      heading(token) {
+        return stampNested(Renderer.prototype.heading.call(this, token), token);
+      },
+      listitem(item) {
+        return stampNested(Renderer.prototype.listitem.call(this, item), item);
+      },
+      tablecell(cell) {
+        return stampNested(Renderer.prototype.tablecell.call(this, cell), cell);
+      },
+    },
+  });
+
+  // Top-level blocks are rendered one by one, so each can be traced to its lines
+  const renderBlocks = (markdown: string): string => {
+    const source = markdown.replace(/\r\n?/g, '\n');
+    const tokens = marked.lexer(source);
+    let offset = 0;
+    let line = 1;
+    nestedRanges = new WeakMap();
+    return tokens
+      .map(token => {
+        // Link definitions leave no token, so each block is searched for
+        const found = source.indexOf(token.raw, offset);
+        const start = found === -1 ? offset : found;
+        line += lineBreaks(source.slice(offset, start));
+        const startLine = line;
+        line += lineBreaks(token.raw);
+        offset = start + token.raw.length;
+        if (token.type === 'space') return '';
+
+        const raw = token.raw.replace(/\n+$/, '');
+        const range = { from: start, to: start + raw.length };
+        locateChildren(token, range, source, nestedRanges);
+        const block: Token[] = [token];
+        const html = marked.parser(Object.assign(block, { links: tokens.links }) as TokensList);
+        return stamp(html, {
+          [LINE_NUMBER_ATTRIBUTE]: startLine,
+          [LINE_END_ATTRIBUTE]: startLine + lineBreaks(raw),
+          [SOURCE_FROM_ATTRIBUTE]: range.from,
+          [SOURCE_TO_ATTRIBUTE]: range.to,
+        });
+      })
+      .join('');
+  };
+
+  const snapshot = [...extensions];
+  return markdown => sanitizeHtml(renderBlocks(markdown), snapshot);
+}
+
+/**
+ * Render Markdown to sanitized HTML with the registered extensions.
+ */
+export function renderMarkdown(markdown: string): string {
+  if (!defaultRenderer) defaultRenderer = createMarkdownRenderer(registeredExtensions);
+  return defaultRenderer(markdown);
+}
@@ -0,0 +1,35 @@
+/**
+ * Markdown Table Rendering
+ *
+ * Renders rows of plain text as a GitHub-flavored Markdown table. Cell text is
+ * escaped so pipes and line breaks in model content cannot break the layout.
+ */
+
+/**
+ * Make text safe for a single table cell: pipes are escaped and line breaks
+ * become `<br>`, the only way to keep several lines in one cell.
+ */
+export function escapeTableCell(text: string): string {
+  return text
+    .trim()
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\r\n|\r|\n/g, '<br>');
+}
+
+/**
+ * Render a table with a header row. Rows shorter than the header are padded with empty cells.
+ *
+ * @example
+ * renderMarkdownTable(['Name', 'Type'], [['Shop', 'Application Component']])
+ * // Returns:
+ * // | Name | Type |
+ * // | --- | --- |
+ * // | Shop | Application Component |
+ */
+export function renderMarkdownTable(headers: string[], rows: string[][]): string {
+  const renderRow = (cells: string[]) =>
+    `| ${headers.map((_, index) => escapeTableCell(cells[index] ?? '')).join(' | ')} |`;
+
+  return [renderRow(headers), `| ${headers.map(() => '---').join(' | ')} |`, ...rows.map(renderRow)].join('\n');
+}
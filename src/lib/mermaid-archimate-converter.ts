@@ -0,0 +1,433 @@
+/**
+ * Mermaid to Archimate Converter
+ *
+ * The inverse of `generateMermaidFromArchimate`: reads a flowchart back into
+ * an `ArchimateModel` with one view, ready to be written as exchange XML.
+ *
+ * Element types are resolved, in order, from:
+ * - A `«Type»` (or `<<Type>>`) annotation at the end of the label, as LiveMate
+ *   writes with "Show element types"
+ * - A class named after the type, as LiveMate assigns in ArchiMate notation
+ * - The node shape, within the layer of an enclosing layer subgraph or layer
+ *   class (Application by default): `[ ]` active structure, `( )` behavior,
+ *   `([ ])` service, `> ]` event, `[( )]` passive structure, `{{ }}` motivation
+ *
+ * Relationship types come from an edge label naming the type (`Serving`,
+ * `reads (Access)`), else from the arrow and its `linkStyle`. Arrows whose
+ * relationship is not allowed between the resolved element types fall back to
+ * Association. Subgraphs other than layers become Groupings aggregating their members.
+ */
+
+import type {
+  ArchimateElement,
+  ArchimateModel,
+  ArchimateRelationship,
+  ArchimateView,
+  ArchimateViewNode,
+} from './archimate-parser';
+import {
+  ELEMENT_TYPE_NAMES,
+  LAYER_ORDER,
+  RELATIONSHIP_TYPE_NAMES,
+  isRelationshipAllowed,
+  type ArchimateAspect,
+  type ArchimateLayer,
+} from './archimate-notation';
+import { writeArchimateExchangeXML } from './archimate-exchange-writer';
+import {
+  parseMermaidFlowchart,
+  type FlowchartDirection,
+  type FlowchartEdge,
+  type FlowchartNode,
+  type FlowchartNodeShape,
+} from './mermaid-flowchart-parser';
+import { humanizeType } from './mermaid-labels';
+
+export interface MermaidConversionOptions {
+  /** Model name (default: "Mermaid Diagram") */
+  name?: string;
+  /** Name of the generated view (default: the model name) */
+  viewName?: string;
+}
+
+const SHAPE_ASPECTS: Record<FlowchartNodeShape, ArchimateAspect> = {
+  rectangle: 'active',
+  subroutine: 'active',
+  rounded: 'behavior',
+  stadium: 'service',
+  flag: 'event',
+  cylinder: 'passive',
+  parallelogram: 'passive',
+  hexagon: 'motivation',
+  circle: 'junction',
+  rhombus: 'junction',
+};
+
+type DefaultTypes = Partial<Record<'active' | 'behavior' | 'service' | 'event' | 'passive', string>>;
+
+// The most common type of each aspect per layer; missing aspects use the Application type
+const DEFAULT_TYPES: Partial<Record<ArchimateLayer, DefaultTypes>> = {
+  Strategy: { active: 'Resource', behavior: 'Capability' },
+  Business: {
+    active: 'BusinessActor',
+    behavior: 'BusinessProcess',
+    service: 'BusinessService',
+    event: 'BusinessEvent',
+    passive: 'BusinessObject',
+  },
+  Application: {
+    active: 'ApplicationComponent',
+    behavior: 'ApplicationFunction',
+    service: 'ApplicationService',
+    event: 'ApplicationEvent',
+    passive: 'DataObject',
+  },
+  Technology: {
+    active: 'Node',
+    behavior: 'TechnologyFunction',
+    service: 'TechnologyService',
+    event: 'TechnologyEvent',
+    passive: 'Artifact',
+  },
+  Implementation: { behavior: 'WorkPackage', event: 'ImplementationEvent', passive: 'Deliverable' },
+};
+
+// Relationship drawn by each arrow, keyed by line style and head
+const ARROW_RELATIONSHIPS: Record<string, string> = {
+  'normal>': 'Serving',
+  'normalo': 'Aggregation',
+  'normalx': 'Specialization',
+  'normal': 'Association',
+  'thick>': 'Assignment',
+  'thicko': 'Composition',
+  'thickx': 'Specialization',
+  'thick': 'Association',
+  'dotted>': 'Realization',
+  'dottedo': 'Influence',
+  'dottedx': 'Association',
+  'dotted': 'Access',
+};
+
+const NODE_SIZE = { width: 120, height: 55 };
+const SPACING = 40;
+const GROUP_PADDING = 20;
+// Room for the group name above its contents
+const GROUP_HEADER = 25;
+
+// Case- and space-insensitive lookup of a type name, e.g. "application component"
+function findTypeName(names: string[], text: string): string | undefined {
+  const key = text.replace(/\s+/g, '').toLowerCase();
+  return names.find(name => name.toLowerCase() === key);
+}
+
+function findLayer(text: string): ArchimateLayer | undefined {
+  return LAYER_ORDER.find(layer => layer.toLowerCase() === text.trim().toLowerCase());
+}
+
+/**
+ * Split a `«Type»` annotation off a label. Unknown types are left in the name.
+ */
+function readTypeAnnotation(label: string): { name: string; type: string | null } {
+  const match = label.match(/^([\s\S]*?)\s*(?:«([^»]+)»|<<([^>]+)>>)\s*$/);
+  const type = match ? findTypeName(ELEMENT_TYPE_NAMES, match[2] ?? match[3]) : undefined;
+  return type ? { name: match![1].trim(), type } : { name: label.trim(), type: null };
+}
+
+function defaultType(layer: ArchimateLayer, shape: FlowchartNodeShape): string {
+  const aspect = SHAPE_ASPECTS[shape];
+  if (aspect === 'junction') return shape === 'rhombus' ? 'OrJunction' : 'AndJunction';
+  if (aspect === 'motivation') return 'Requirement';
+  if (aspect === 'composite') return 'Grouping';
+  return DEFAULT_TYPES[layer]?.[aspect] ?? DEFAULT_TYPES.Application![aspect]!;
+}
+
+function arrowRelationship(edge: FlowchartEdge): string {
+  const link = edge.link.replace(/^</, '');
+  const line = link.includes('=') ? 'thick' : link.includes('.') ? 'dotted' : 'normal';
+  const head = /[>ox]$/.test(link) ? link.slice(-1) : '';
+  const type = ARROW_RELATIONSHIPS[`${line}${head}`];
+  // LiveMate draws Triggering and Flow with the Serving and Realization arrows, restyled
+  if (type === 'Serving' && edge.style?.includes('stroke-width')) return 'Triggering';
+  if (type === 'Realization' && edge.style?.includes('stroke-dasharray')) return 'Flow';
+  return type;
+}
+
+/**
+ * Read an edge label as a relationship type, "name (Type)", or a plain name.
+ */
+function readEdgeLabel(label: string | null): { name: string | null; type: string | null } {
+  if (!label) return { name: null, type: null };
+  const type = findTypeName(RELATIONSHIP_TYPE_NAMES, label);
+  if (type) return { name: null, type };
+  const named = label.match(/^([\s\S]+?)\s*\((\w+)\)$/);
+  const namedType = named ? findTypeName(RELATIONSHIP_TYPE_NAMES, named[2]) : undefined;
+  if (namedType) return { name: named![1], type: namedType };
+  return { name: label, type: null };
+}
+
+/**
+ * Allocate exchange identifiers, which must be XML names and unique across the model.
+ */
+function createIdentifierAllocator() {
+  const used = new Set<string>();
+  return (base: string) => {
+    const stem = `id-${base.replace(/[^\w.-]/g, '_')}`;
+    let identifier = stem;
+    for (let suffix = 2; used.has(identifier); suffix++) {
+      identifier = `${stem}-${suffix}`;
+    }
+    used.add(identifier);
+    return identifier;
+  };
+}
+
+interface LayoutItem {
+  viewNode: ArchimateViewNode;
+  /** Identifiers of the elements placed in this item, including nested ones */
+  elementRefs: Set<string>;
+}
+
+/**
+ * Position items in ranks along the diagram direction: an item is placed one
+ * rank after the furthest item with an edge into it. Edges in cycles stop
+ * pushing items once every item has been ranked, so cycles cannot loop forever.
+ * Items are moved with their contents to positions relative to (0, 0); returns
+ * the size of the arrangement.
+ */
+function arrangeItems(
+  items: LayoutItem[],
+  relationships: ArchimateRelationship[],
+  direction: FlowchartDirection
+): { width: number; height: number } {
+  const itemOf = (elementRef: string) => items.findIndex(item => item.elementRefs.has(elementRef));
+  const links = relationships
+    .map(rel => [itemOf(rel.source), itemOf(rel.target)])
+    .filter(([source, target]) => source !== -1 && target !== -1 && source !== target);
+
+  const ranks = items.map(() => 0);
+  for (let pass = 0; pass < items.length; pass++) {
+    let changed = false;
+    links.forEach(([source, target]) => {
+      if (ranks[target] < ranks[source] + 1) {
+        ranks[target] = ranks[source] + 1;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  const horizontal = direction === 'LR' || direction === 'RL';
+  const reversed = direction === 'BT' || direction === 'RL';
+  const rankCount = Math.max(0, ...ranks) + 1;
+  // Along: the direction of the edges; across: the items within one rank
+  const rankDepth: number[] = Array(rankCount).fill(0);
+  items.forEach((item, index) => {
+    const { width, height } = item.viewNode.bounds!;
+    rankDepth[ranks[index]] = Math.max(rankDepth[ranks[index]], horizontal ? width : height);
+  });
+  const rankOrder = reversed ? [...rankDepth.keys()].reverse() : [...rankDepth.keys()];
+  const rankOffset: number[] = [];
+  let along = 0;
+  rankOrder.forEach(rank => {
+    rankOffset[rank] = along;
+    along += rankDepth[rank] + SPACING * 2;
+  });
+
+  const acrossOffset: number[] = Array(rankCount).fill(0);
+  let across = 0;
+  items.forEach((item, index) => {
+    const bounds = item.viewNode.bounds!;
+    const offset = acrossOffset[ranks[index]];
+    const size = horizontal ? bounds.height : bounds.width;
+    const x = horizontal ? rankOffset[ranks[index]] : offset;
+    const y = horizontal ? offset : rankOffset[ranks[index]];
+    shiftBounds(item.viewNode, x - bounds.x, y - bounds.y);
+    acrossOffset[ranks[index]] = offset + size + SPACING;
+    across = Math.max(across, offset + size);
+  });
+
+  along -= SPACING * 2;
+  return horizontal ? { width: along, height: across } : { width: across, height: along };
+}
+
+// Move a view node together with everything nested in it
+function shiftBounds(node: ArchimateViewNode, dx: number, dy: number) {
+  node.bounds!.x += dx;
+  node.bounds!.y += dy;
+  node.children.forEach(child => shiftBounds(child, dx, dy));
+}
+
+/**
+ * Convert a Mermaid flowchart into a model with a single view. Throws when the
+ * script is not a flowchart or cannot be read.
+ */
+export function convertMermaidToArchimate(script: string, options: MermaidConversionOptions = {}): ArchimateModel {
+  const { name = 'Mermaid Diagram', viewName = name } = options;
+  const flowchart = parseMermaidFlowchart(script);
+  const allocate = createIdentifierAllocator();
+
+  const layerSubgraphs = new Map<string, ArchimateLayer>();
+  flowchart.subgraphs.forEach(subgraph => {
+    const layer = findLayer(subgraph.label);
+    if (layer) layerSubgraphs.set(subgraph.id, layer);
+  });
+  const subgraphsById = new Map(flowchart.subgraphs.map(subgraph => [subgraph.id, subgraph]));
+
+  // The closest enclosing subgraph that is not a layer frame
+  const groupOf = (parent: string | null): string | null => {
+    let current = parent;
+    while (current && layerSubgraphs.has(current)) current = subgraphsById.get(current)?.parent ?? null;
+    return current;
+  };
+  const layerOf = (node: FlowchartNode): ArchimateLayer => {
+    for (let current = node.parent; current; current = subgraphsById.get(current)?.parent ?? null) {
+      const layer = layerSubgraphs.get(current);
+      if (layer) return layer;
+    }
+    return node.classes.map(findLayer).find((layer): layer is ArchimateLayer => !!layer) ?? 'Application';
+  };
+
+  const elements = new Map<string, ArchimateElement>();
+  const identifiers = new Map<string, string>();
+  const addElement = (mermaidId: string, label: string, type: string) => {
+    const identifier = allocate(mermaidId);
+    identifiers.set(mermaidId, identifier);
+    // Exchange files drop nameless elements, so a bare junction is named after its type
+    elements.set(identifier, {
+      identifier,
+      type,
+      name: label || humanizeType(type),
+      documentation: null,
+      properties: {},
+    });
+  };
+
+  const groups = flowchart.subgraphs.filter(subgraph => !layerSubgraphs.has(subgraph.id));
+  groups.forEach(subgraph => {
+    const { name: groupName, type } = readTypeAnnotation(subgraph.label);
+    addElement(subgraph.id, groupName, type ?? 'Grouping');
+  });
+  flowchart.nodes.forEach(node => {
+    const annotated = readTypeAnnotation(node.label);
+    const type =
+      annotated.type ??
+      node.classes.map(className => findTypeName(ELEMENT_TYPE_NAMES, className)).find(Boolean) ??
+      defaultType(layerOf(node), node.shape);
+    addElement(node.id, annotated.name, type);
+  });
+
+  const relationships: ArchimateRelationship[] = [];
+  const addRelationship = (source: string, target: string, type: string, relName: string | null) => {
+    relationships.push({
+      identifier: allocate(`rel-${relationships.length + 1}`),
+      type,
+      source,
+      target,
+      name: relName,
+      documentation: null,
+      properties: {},
+    });
+  };
+
+  flowchart.edges.forEach(edge => {
+    const source = identifiers.get(edge.source);
+    const target = identifiers.get(edge.target);
+    if (!source || !target) return;
+    const { name: relName, type: labelledType } = readEdgeLabel(edge.label);
+    let type = labelledType ?? arrowRelationship(edge);
+    // A type drawn by the arrow alone is a guess; named types are kept for the validator to judge
+    if (!labelledType && isRelationshipAllowed(type, elements.get(source)!.type, elements.get(target)!.type) === false) {
+      type = 'Association';
+    }
+    addRelationship(source, target, type, relName);
+  });
+  const edgeCount = relationships.length;
+
+  // Membership of a group is an aggregation, unless an edge already relates the two
+  const members = [
+    ...groups.map(subgraph => ({ id: subgraph.id, parent: groupOf(subgraph.parent) })),
+    ...flowchart.nodes.map(node => ({ id: node.id, parent: groupOf(node.parent) })),
+  ];
+  members.forEach(member => {
+    if (!member.parent) return;
+    const group = identifiers.get(member.parent)!;
+    const element = identifiers.get(member.id)!;
+    if (!relationships.some(rel => rel.source === group && rel.target === element)) {
+      addRelationship(group, element, 'Aggregation', null);
+    }
+  });
+
+  // Build the view bottom-up: groups are sized after their laid-out members
+  const buildItems = (parent: string | null): LayoutItem[] =>
+    members
+      .filter(member => member.parent === parent)
+      .map(member => {
+        const identifier = identifiers.get(member.id)!;
+        const children = subgraphsById.has(member.id) ? buildItems(member.id) : [];
+        const viewNode: ArchimateViewNode = {
+          identifier: allocate(`node-${member.id}`),
+          elementRef: identifier,
+          label: null,
+          bounds: { x: 0, y: 0, ...NODE_SIZE },
+          children: children.map(child => child.viewNode),
+        };
+        const elementRefs = new Set([identifier, ...children.flatMap(child => Array.from(child.elementRefs))]);
+        if (children.length > 0) {
+          const size = arrangeItems(children, relationships, flowchart.direction);
+          children.forEach(child => shiftBounds(child.viewNode, GROUP_PADDING, GROUP_PADDING + GROUP_HEADER));
+          viewNode.bounds = {
+            x: 0,
+            y: 0,
+            width: Math.max(NODE_SIZE.width, size.width + GROUP_PADDING * 2),
+            height: size.height + GROUP_PADDING * 2 + GROUP_HEADER,
+          };
+        }
+        return { viewNode, elementRefs };
+      });
+
+  const topLevel = buildItems(null);
+  arrangeItems(topLevel, relationships, flowchart.direction);
+
+  const viewNodeOf = new Map<string, string>();
+  const collectViewNodes = (nodes: ArchimateViewNode[]) =>
+    nodes.forEach(node => {
+      viewNodeOf.set(node.elementRef!, node.identifier);
+      collectViewNodes(node.children);
+    });
+  const viewNodes = topLevel.map(item => item.viewNode);
+  collectViewNodes(viewNodes);
+
+  // Nesting already shows group membership, so only the flowchart's own edges are drawn
+  const drawn = relationships.slice(0, edgeCount);
+
+  const view: ArchimateView = {
+    identifier: allocate('view'),
+    name: viewName,
+    documentation: null,
+    properties: {},
+    nodes: viewNodes,
+    connections: drawn.map(rel => ({
+      identifier: allocate(`connection-${rel.identifier}`),
+      relationshipRef: rel.identifier,
+      source: viewNodeOf.get(rel.source)!,
+      target: viewNodeOf.get(rel.target)!,
+    })),
+    elementRefs: Array.from(viewNodeOf.keys()),
+  };
+
+  return {
+    elements,
+    relationships,
+    views: new Map([[view.identifier, view]]),
+    propertyDefinitions: new Map(),
+    organizations: [],
+  };
+}
+
+/**
+ * Convert a Mermaid flowchart straight to an exchange format document.
+ */
+export function convertMermaidToExchangeXML(script: string, options: MermaidConversionOptions = {}): string {
+  const model = convertMermaidToArchimate(script, options);
+  return writeArchimateExchangeXML(model, { name: options.name ?? 'Mermaid Diagram' });
+}
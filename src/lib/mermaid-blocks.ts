@@ -0,0 +1,150 @@
+/**
+ * Mermaid Blocks
+ *
+ * Locates the ```mermaid fences of a Markdown document and validates them.
+ * Validation results are cached by script, so a document with many diagrams
+ * only re-parses the blocks whose text changed since the previous run.
+ * Parse errors are traced back to the offending line of the document.
+ */
+
+export interface MermaidBlock {
+  /** Position of the block among the document's Mermaid blocks, from 0 */
+  index: number;
+  script: string;
+  /** Offset of the opening fence */
+  startCharIndex: number;
+  /** Offset just past the closing fence */
+  endCharIndex: number;
+}
+
+export interface MermaidError {
+  /** Index of the failing block, as in `MermaidBlock.index` */
+  blockIndex: number;
+  message: string;
+  startCharIndex: number;
+  endCharIndex: number;
+  /** Line of the diagram Mermaid reported, from 1, or null when it gave none */
+  line: number | null;
+  /** Document range of the offending line; the opening fence when the line is unknown */
+  from: number;
+  to: number;
+}
+
+/** What Mermaid reported about a script, independent of where the block sits */
+export interface MermaidParseFailure {
+  message: string;
+  line: number | null;
+}
+
+/** Parses a script, rejecting with Mermaid's error when it is invalid */
+export type MermaidParse = (script: string) => Promise<unknown>;
+
+/** Parse failure per script, or null for a script that parsed */
+export type MermaidValidationCache = Map<string, MermaidParseFailure | null>;
+
+// The opening fence line, which the script follows
+const OPENING_FENCE = '```mermaid\n';
+
+/**
+ * Find every Mermaid block of a document, in order.
+ */
+export function findMermaidBlocks(markdown: string): MermaidBlock[] {
+  const mermaidRegex = /```mermaid\n([\s\S]*?)\n```/g;
+  const blocks: MermaidBlock[] = [];
+  let match;
+  while ((match = mermaidRegex.exec(markdown)) !== null) {
+    blocks.push({
+      index: blocks.length,
+      script: match[1],
+      startCharIndex: match.index,
+      endCharIndex: match.index + match[0].length,
+    });
+  }
+  return blocks;
+}
+
+/**
+ * The Mermaid block containing a position, fences included.
+ */
+export function findMermaidBlockAt(markdown: string, pos: number): MermaidBlock | null {
+  return findMermaidBlocks(markdown).find(block => pos >= block.startCharIndex && pos <= block.endCharIndex) ?? null;
+}
+
+// What Mermaid's jison parser attaches to its errors, when they come from the parser
+interface MermaidErrorDetails {
+  str?: unknown;
+  message?: unknown;
+  hash?: { line?: unknown; loc?: { first_line?: unknown } };
+}
+
+/**
+ * Read the message and line of a Mermaid error. Parser errors name the line in
+ * their message ("Parse error on line 3:"); the jison `hash` is the fallback.
+ */
+export function describeMermaidError(error: unknown): MermaidParseFailure {
+  const details: MermaidErrorDetails = error && typeof error === 'object' ? error : {};
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : null);
+  const message = text(details.str) ?? text(details.message) ?? 'Unknown Mermaid error';
+  const stated = message.match(/on line (\d+)/);
+  if (stated) return { message, line: Number(stated[1]) };
+  const hash = details.hash;
+  if (typeof hash?.loc?.first_line === 'number') return { message, line: hash.loc.first_line };
+  // hash.line counts from 0
+  if (typeof hash?.line === 'number') return { message, line: hash.line + 1 };
+  return { message, line: null };
+}
+
+// Document range of a line of the block's script, clamped to the script
+function lineRange(block: MermaidBlock, line: number | null): { from: number; to: number } {
+  if (line === null) {
+    return { from: block.startCharIndex, to: block.startCharIndex + OPENING_FENCE.length - 1 };
+  }
+  const lines = block.script.split('\n');
+  const index = Math.min(Math.max(line, 1), lines.length) - 1;
+  const lineStart = lines.slice(0, index).reduce((sum, text) => sum + text.length + 1, 0);
+  const from = block.startCharIndex + OPENING_FENCE.length + lineStart;
+  return { from, to: from + lines[index].length };
+}
+
+/**
+ * Validate the blocks, parsing only scripts missing from `cache`. The cache is
+ * pruned to the scripts of `blocks`, so it does not grow with every keystroke.
+ * Empty blocks are never reported.
+ */
+export async function validateMermaidBlocks(
+  blocks: MermaidBlock[],
+  parse: MermaidParse,
+  cache: MermaidValidationCache
+): Promise<MermaidError[]> {
+  const errors: MermaidError[] = [];
+  for (const block of blocks) {
+    if (block.script.trim() === '') continue;
+
+    if (!cache.has(block.script)) {
+      try {
+        await parse(block.script);
+        cache.set(block.script, null);
+      } catch (error) {
+        cache.set(block.script, describeMermaidError(error));
+      }
+    }
+
+    const failure = cache.get(block.script);
+    if (failure) {
+      errors.push({
+        blockIndex: block.index,
+        message: failure.message,
+        startCharIndex: block.startCharIndex,
+        endCharIndex: block.endCharIndex,
+        line: failure.line,
+        ...lineRange(block, failure.line),
+      });
+    }
+  }
+
+  const scripts = new Set(blocks.map(block => block.script));
+  Array.from(cache.keys()).forEach(script => {
+    if (!scripts.has(script)) cache.delete(script);
+  });
+  return errors;
+}
@@ -0,0 +1,147 @@
+/**
+ * Mermaid C4 Generator
+ *
+ * Maps an Archimate element set onto Mermaid C4 diagrams:
+ * - Business actors and roles become `Person`
+ * - Application components become `System` (context) or `Container` (container)
+ * - Nodes, devices and system software become `System` (context) or a
+ *   `Boundary` around the components they host (container)
+ *
+ * Other element types have no C4 counterpart and are left out, together with
+ * the relationships that touch them.
+ */
+
+import type { ArchimateElement, ArchimateRelationship } from './archimate-parser';
+import type { MermaidGeneratorOptions } from './mermaid-generator';
+import type { MermaidIdTable } from './mermaid-ids';
+import { relationshipLabel, truncateLabel } from './mermaid-labels';
+
+export type C4DiagramLevel = 'c4Context' | 'c4Container';
+
+const PERSON_TYPES = ['BusinessActor', 'BusinessRole'];
+const APPLICATION_TYPES = ['ApplicationComponent'];
+const INFRASTRUCTURE_TYPES = ['Node', 'Device', 'SystemSoftware'];
+
+// Relationships through which a node is considered to host an application component
+const HOSTING_TYPES = ['Composition', 'Aggregation', 'Assignment', 'Realization'];
+
+const TECHNOLOGY_PROPERTY = 'Technology';
+const MAX_DESCRIPTION_LENGTH = 120;
+
+const TITLES: Record<C4DiagramLevel, string> = {
+  c4Context: 'System Context',
+  c4Container: 'Containers',
+};
+
+// C4 arguments are double-quoted strings without an escape syntax
+function toC4String(text: string): string {
+  return `"${text.replace(/"/g, "'").replace(/\s+/g, ' ').trim()}"`;
+}
+
+function describe(entity: ArchimateElement): string {
+  return toC4String(truncateLabel(entity.documentation ?? '', MAX_DESCRIPTION_LENGTH));
+}
+
+/**
+ * Find the node hosting each application component, keyed by component identifier
+ */
+function findHosts(
+  components: ArchimateElement[],
+  hosts: ArchimateElement[],
+  relationships: ArchimateRelationship[]
+): Map<string, string> {
+  const componentIds = new Set(components.map(component => component.identifier));
+  const hostIds = new Set(hosts.map(host => host.identifier));
+  const hostByComponent = new Map<string, string>();
+
+  relationships
+    .filter(rel => HOSTING_TYPES.includes(rel.type))
+    .forEach(rel => {
+      const [host, component] = hostIds.has(rel.source) ? [rel.source, rel.target] : [rel.target, rel.source];
+      if (hostIds.has(host) && componentIds.has(component) && !hostByComponent.has(component)) {
+        hostByComponent.set(component, host);
+      }
+    });
+  return hostByComponent;
+}
+
+/**
+ * Generate a Mermaid `C4Context` or `C4Container` diagram.
+ */
+export function generateC4FromArchimate(
+  entities: ArchimateElement[],
+  relationships: ArchimateRelationship[],
+  level: C4DiagramLevel,
+  options: Required<MermaidGeneratorOptions>,
+  ids: MermaidIdTable
+): string {
+  const toAlias = (identifier: string) => ids.idFor(identifier);
+  const label = (entity: ArchimateElement) => toC4String(truncateLabel(entity.name, options.maxLabelLength));
+  const people = entities.filter(entity => PERSON_TYPES.includes(entity.type));
+  const components = entities.filter(entity => APPLICATION_TYPES.includes(entity.type));
+  const infrastructure = entities.filter(entity => INFRASTRUCTURE_TYPES.includes(entity.type));
+
+  const header = level === 'c4Context' ? 'C4Context' : 'C4Container';
+  if (people.length + components.length + infrastructure.length === 0) {
+    return `${header}\n  title No actors, application components or nodes selected\n`;
+  }
+
+  let script = `${header}\n  title ${TITLES[level]}\n\n`;
+  people.forEach(person => {
+    script += `  Person(${toAlias(person.identifier)}, ${label(person)}, ${describe(person)})\n`;
+  });
+
+  // Relationships between a boundary and its contents are expressed by the nesting itself
+  const hiddenRelationships = new Set<string>();
+
+  if (level === 'c4Context') {
+    [...components, ...infrastructure].forEach(system => {
+      script += `  System(${toAlias(system.identifier)}, ${label(system)}, ${describe(system)})\n`;
+    });
+  } else {
+    const hostByComponent = findHosts(components, infrastructure, relationships);
+    const container = (component: ArchimateElement, indent: string) => {
+      const technology = component.properties[TECHNOLOGY_PROPERTY];
+      const technologyText = toC4String(technology === undefined ? '' : String(technology));
+      return `${indent}Container(${toAlias(component.identifier)}, ${label(component)}, ${technologyText}, ${describe(component)})\n`;
+    };
+
+    components
+      .filter(component => !hostByComponent.has(component.identifier))
+      .forEach(component => {
+        script += container(component, '  ');
+      });
+    infrastructure.forEach(host => {
+      const hosted = components.filter(component => hostByComponent.get(component.identifier) === host.identifier);
+      if (hosted.length === 0) {
+        script += `  Container(${toAlias(host.identifier)}, ${label(host)}, ${toC4String(host.type)}, ${describe(host)})\n`;
+        return;
+      }
+      script += `  Boundary(${toAlias(host.identifier)}, ${label(host)}, ${toC4String(host.type)}) {\n`;
+      hosted.forEach(component => {
+        script += container(component, '    ');
+      });
+      script += '  }\n';
+    });
+
+    relationships.forEach(rel => {
+      if (hostByComponent.get(rel.source) === rel.target || hostByComponent.get(rel.target) === rel.source) {
+        hiddenRelationships.add(rel.identifier);
+      }
+    });
+  }
+
+  const emitted = new Set([...people, ...components, ...infrastructure].map(entity => entity.identifier));
+  const visibleRelationships = relationships.filter(
+    rel => emitted.has(rel.source) && emitted.has(rel.target) && !hiddenRelationships.has(rel.identifier)
+  );
+  if (visibleRelationships.length > 0) {
+    script += '\n';
+  }
+  visibleRelationships.forEach(rel => {
+    const text = relationshipLabel(rel, options.edgeLabels, options.maxLabelLength) ?? '';
+    script += `  Rel(${toAlias(rel.source)}, ${toAlias(rel.target)}, ${toC4String(text)})\n`;
+  });
+
+  return script;
+}
@@ -0,0 +1,83 @@
+/**
+ * Mermaid Class Diagram Generator
+ *
+ * Draws the information model of an Archimate element set: business objects,
+ * contracts and data objects become classes, and the structural relationships
+ * between them become class diagram associations.
+ */
+
+import type { ArchimateElement, ArchimateRelationship } from './archimate-parser';
+import type { MermaidDirection, MermaidGeneratorOptions } from './mermaid-generator';
+import type { MermaidIdTable } from './mermaid-ids';
+import { relationshipLabel, truncateLabel } from './mermaid-labels';
+
+const CLASS_TYPES = ['BusinessObject', 'Contract', 'DataObject'];
+
+// Mermaid relation syntax per ArchiMate relationship, written `source <arrow> target`
+const CLASS_RELATIONS: Record<string, string> = {
+  Composition: '*--',
+  Aggregation: 'o--',
+  Association: '--',
+  Access: '..>',
+};
+
+const DEFAULT_RELATION = '..>';
+
+// Class diagrams use TB where flowcharts accept TD
+const CLASS_DIRECTIONS: Record<MermaidDirection, string> = {
+  TD: 'TB',
+  LR: 'LR',
+  BT: 'BT',
+  RL: 'RL',
+};
+
+function toClassLabel(name: string): string {
+  return `"${name.replace(/"/g, "'").replace(/[\r\n]+/g, ' ')}"`;
+}
+
+/**
+ * Generate a Mermaid `classDiagram` from the data objects of an element set.
+ */
+export function generateClassDiagramFromArchimate(
+  entities: ArchimateElement[],
+  relationships: ArchimateRelationship[],
+  options: Required<MermaidGeneratorOptions>,
+  ids: MermaidIdTable
+): string {
+  // Class names are plain identifiers; the element name is shown as the label instead
+  const toClassId = (identifier: string) => ids.idFor(identifier);
+  const classes = entities.filter(entity => CLASS_TYPES.includes(entity.type));
+  let script = `classDiagram\n  direction ${CLASS_DIRECTIONS[options.direction]}\n`;
+
+  if (classes.length === 0) {
+    return `${script}  class Empty["No business or data objects selected"]\n`;
+  }
+
+  script += '\n';
+  classes.forEach(entity => {
+    // Mermaid rejects an empty label; unnamed classes show their ID
+    const name = truncateLabel(entity.name, options.maxLabelLength);
+    script += name.trim()
+      ? `  class ${toClassId(entity.identifier)}[${toClassLabel(name)}]\n`
+      : `  class ${toClassId(entity.identifier)}\n`;
+  });
+
+  const classIds = new Set(classes.map(entity => entity.identifier));
+  const classRelationships = relationships.filter(rel => classIds.has(rel.source) && classIds.has(rel.target));
+  if (classRelationships.length > 0) {
+    script += '\n';
+  }
+  classRelationships.forEach(rel => {
+    const source = toClassId(rel.source);
+    const target = toClassId(rel.target);
+    const label = relationshipLabel(rel, options.edgeLabels, options.maxLabelLength);
+    const labelText = label ? ` : ${label.replace(/[\r\n:]+/g, ' ')}` : '';
+    // In ArchiMate the source specializes the target; Mermaid puts the parent first
+    const relation = rel.type === 'Specialization'
+      ? `${target} <|-- ${source}`
+      : `${source} ${CLASS_RELATIONS[rel.type] ?? DEFAULT_RELATION} ${target}`;
+    script += `  ${relation}${labelText}\n`;
+  });
+
+  return script;
+}
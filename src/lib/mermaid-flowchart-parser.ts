@@ -0,0 +1,344 @@
+/**
+ * Mermaid Flowchart Parser
+ *
+ * Reads the structure of a `graph` / `flowchart` block: nodes with their
+ * labels, shapes and classes, edges with their arrow and label, and subgraphs.
+ * It covers the syntax LiveMate generates and the common hand-written forms
+ * (`A[Start] --> B{Decision?}`, `A -- text --> B`, `A & B --> C`), not every
+ * corner of the Mermaid grammar. Styling statements are skipped, except for
+ * `linkStyle`, which LiveMate uses to tell apart relationships sharing an arrow.
+ */
+
+import { unescapeMermaidText } from './mermaid-labels';
+
+export type FlowchartDirection = 'TD' | 'TB' | 'BT' | 'LR' | 'RL';
+
+export type FlowchartNodeShape =
+  | 'rectangle'
+  | 'rounded'
+  | 'stadium'
+  | 'subroutine'
+  | 'cylinder'
+  | 'circle'
+  | 'flag'
+  | 'rhombus'
+  | 'hexagon'
+  | 'parallelogram';
+
+export interface FlowchartNode {
+  id: string;
+  /** Unescaped label text; the id when the node has no label */
+  label: string;
+  shape: FlowchartNodeShape;
+  /** Classes from `:::name` and `class` statements */
+  classes: string[];
+  /** Innermost subgraph the node was declared in */
+  parent: string | null;
+}
+
+export interface FlowchartEdge {
+  source: string;
+  target: string;
+  /** The arrow as written, without its label, e.g. `-->` or `-.->` */
+  link: string;
+  label: string | null;
+  /** CSS from `linkStyle` statements, e.g. `stroke-width:3px` */
+  style: string | null;
+}
+
+export interface FlowchartSubgraph {
+  id: string;
+  label: string;
+  parent: string | null;
+}
+
+export interface ParsedFlowchart {
+  direction: FlowchartDirection;
+  /** Nodes in order of first appearance */
+  nodes: FlowchartNode[];
+  edges: FlowchartEdge[];
+  subgraphs: FlowchartSubgraph[];
+}
+
+// Longest openings first, so `([` is not read as `(`
+const SHAPES: { open: string; close: string; shape: FlowchartNodeShape }[] = [
+  { open: '(((', close: ')))', shape: 'circle' },
+  { open: '([', close: '])', shape: 'stadium' },
+  { open: '[[', close: ']]', shape: 'subroutine' },
+  { open: '[(', close: ')]', shape: 'cylinder' },
+  { open: '((', close: '))', shape: 'circle' },
+  { open: '{{', close: '}}', shape: 'hexagon' },
+  { open: '[/', close: '/]', shape: 'parallelogram' },
+  { open: '[\\', close: '\\]', shape: 'parallelogram' },
+  { open: '[', close: ']', shape: 'rectangle' },
+  { open: '(', close: ')', shape: 'rounded' },
+  { open: '{', close: '}', shape: 'rhombus' },
+  { open: '>', close: ']', shape: 'flag' },
+];
+
+const NODE_ID = /^[\w$]+(?:-[\w$]+)*/;
+// Arrows such as -->, ---, -.->, -.-, ==>, --o, --x and the bidirectional <-->
+const LINK = /^<?(?:-{2,}|={2,}|-\.+-)[>ox]?/;
+// Arrows with inline text: "-- text -->", "== text ==>", "-. text .->"
+const TEXT_LINK = /^(<?)(--|==|-\.)\s+(.+?)\s+(-{2,}[>ox]?|={2,}[>ox]?|\.-+[>ox]?)(?=\s|$|[\w$])/;
+const SKIPPED_STATEMENTS = /^(classDef|style|click|direction|accTitle|accDescr)\b/;
+
+/**
+ * Split a script into statements at line breaks and semicolons outside quotes.
+ * Entity codes such as `#quot;` end in a semicolon but only appear in quoted labels.
+ */
+function splitStatements(script: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of script) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (char === '\n' || char === ';')) {
+      statements.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  statements.push(current.trim());
+  return statements.filter(statement => statement && !statement.startsWith('%%'));
+}
+
+// Text inside brackets or pipes: quoted strings are taken verbatim, bare text is trimmed
+function readLabel(text: string): string {
+  const trimmed = text.trim();
+  const quoted = trimmed.match(/^"([\s\S]*)"$/);
+  return unescapeMermaidText(quoted ? quoted[1] : trimmed);
+}
+
+interface Cursor {
+  text: string;
+  pos: number;
+}
+
+function skipSpaces(cursor: Cursor) {
+  while (cursor.pos < cursor.text.length && /\s/.test(cursor.text[cursor.pos])) cursor.pos++;
+}
+
+function rest(cursor: Cursor): string {
+  return cursor.text.slice(cursor.pos);
+}
+
+// Read up to the closing token, skipping over a quoted label
+function readDelimited(cursor: Cursor, close: string): string | null {
+  const start = cursor.pos;
+  let inQuotes = false;
+  while (cursor.pos < cursor.text.length) {
+    const char = cursor.text[cursor.pos];
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && cursor.text.startsWith(close, cursor.pos)) {
+      const content = cursor.text.slice(start, cursor.pos);
+      cursor.pos += close.length;
+      return content;
+    }
+    cursor.pos++;
+  }
+  return null;
+}
+
+interface NodeReference {
+  id: string;
+  label: string | null;
+  shape: FlowchartNodeShape | null;
+  classes: string[];
+}
+
+function readNodeReference(cursor: Cursor): NodeReference | null {
+  skipSpaces(cursor);
+  const idMatch = rest(cursor).match(NODE_ID);
+  if (!idMatch) return null;
+  cursor.pos += idMatch[0].length;
+
+  const reference: NodeReference = { id: idMatch[0], label: null, shape: null, classes: [] };
+  const shape = SHAPES.find(candidate => cursor.text.startsWith(candidate.open, cursor.pos));
+  if (shape) {
+    cursor.pos += shape.open.length;
+    const content = readDelimited(cursor, shape.close);
+    if (content === null) {
+      throw new Error(`Unclosed label for node "${reference.id}"`);
+    }
+    reference.label = readLabel(content);
+    reference.shape = shape.shape;
+  }
+
+  const classMatch = rest(cursor).match(/^:::([\w-]+)/);
+  if (classMatch) {
+    cursor.pos += classMatch[0].length;
+    reference.classes.push(classMatch[1]);
+  }
+  return reference;
+}
+
+// Nodes joined with "&" act as one end of an edge
+function readNodeGroup(cursor: Cursor): NodeReference[] | null {
+  const first = readNodeReference(cursor);
+  if (!first) return null;
+  const group = [first];
+  for (;;) {
+    skipSpaces(cursor);
+    if (cursor.text[cursor.pos] !== '&') return group;
+    cursor.pos++;
+    const next = readNodeReference(cursor);
+    if (!next) throw new Error('Expected a node after "&"');
+    group.push(next);
+  }
+}
+
+function readLink(cursor: Cursor): { link: string; label: string | null } | null {
+  skipSpaces(cursor);
+  const textLink = rest(cursor).match(TEXT_LINK);
+  if (textLink) {
+    cursor.pos += textLink[0].length;
+    const [, back, start, text, end] = textLink;
+    // The closing part carries the arrow, except that "-. text .->" is the dotted arrow "-.->"
+    return { link: `${back}${start === '-.' ? `-${end}` : end}`, label: readLabel(text) };
+  }
+
+  const linkMatch = rest(cursor).match(LINK);
+  if (!linkMatch) return null;
+  cursor.pos += linkMatch[0].length;
+
+  let label: string | null = null;
+  const labelStart = cursor.pos;
+  skipSpaces(cursor);
+  if (cursor.text[cursor.pos] !== '|') cursor.pos = labelStart;
+  if (cursor.text[cursor.pos] === '|') {
+    cursor.pos++;
+    const content = readDelimited(cursor, '|');
+    if (content === null) throw new Error('Unclosed edge label');
+    label = readLabel(content);
+  }
+  return { link: linkMatch[0], label };
+}
+
+function parseSubgraphHeader(header: string, index: number): { id: string; label: string } {
+  const cursor: Cursor = { text: header, pos: 0 };
+  skipSpaces(cursor);
+  if (header.startsWith('"')) {
+    // subgraph "Title" has no id of its own
+    return { id: `subgraph${index}`, label: readLabel(header) };
+  }
+  const reference = readNodeReference(cursor);
+  if (!reference) return { id: `subgraph${index}`, label: header };
+  skipSpaces(cursor);
+  // Mermaid also accepts a space before the bracket: subgraph id ["Title"]
+  if (reference.label === null && cursor.text[cursor.pos] === '[') {
+    cursor.pos++;
+    const content = readDelimited(cursor, ']');
+    if (content !== null) reference.label = readLabel(content);
+  }
+  return { id: reference.id, label: reference.label ?? reference.id };
+}
+
+/**
+ * Parse a flowchart script. Throws when the script is not a flowchart or a
+ * statement cannot be read.
+ */
+export function parseMermaidFlowchart(script: string): ParsedFlowchart {
+  const statements = splitStatements(script);
+  const header = statements.shift()?.match(/^(?:graph|flowchart)(?:\s+(TD|TB|BT|LR|RL))?$/);
+  if (!header) {
+    throw new Error('Only Mermaid flowcharts (graph or flowchart blocks) can be converted.');
+  }
+
+  const flowchart: ParsedFlowchart = {
+    direction: (header[1] as FlowchartDirection | undefined) ?? 'TD',
+    nodes: [],
+    edges: [],
+    subgraphs: [],
+  };
+  const nodesById = new Map<string, FlowchartNode>();
+  const subgraphStack: string[] = [];
+  // linkStyle may come before the edges it refers to, so styles are applied at the end
+  const linkStyles: { indexes: number[]; style: string }[] = [];
+
+  const declare = (reference: NodeReference) => {
+    const parent = subgraphStack[subgraphStack.length - 1] ?? null;
+    let node = nodesById.get(reference.id);
+    if (!node) {
+      node = { id: reference.id, label: reference.id, shape: 'rectangle', classes: [], parent };
+      nodesById.set(reference.id, node);
+      flowchart.nodes.push(node);
+    }
+    // A later declaration with a label or shape completes an earlier bare reference
+    if (reference.label !== null) node.label = reference.label;
+    if (reference.shape !== null) {
+      node.shape = reference.shape;
+      node.parent = parent;
+    }
+    node.classes.push(...reference.classes.filter(name => !node!.classes.includes(name)));
+  };
+
+  statements.forEach(statement => {
+    if (SKIPPED_STATEMENTS.test(statement)) return;
+
+    const linkStyle = statement.match(/^linkStyle\s+(\d+(?:\s*,\s*\d+)*)\s+(.+)$/);
+    if (linkStyle) {
+      linkStyles.push({ indexes: linkStyle[1].split(',').map(Number), style: linkStyle[2].trim() });
+      return;
+    }
+    // "linkStyle default" styles every edge alike and tells nothing apart
+    if (statement.startsWith('linkStyle')) return;
+
+    if (statement === 'end') {
+      subgraphStack.pop();
+      return;
+    }
+
+    const subgraph = statement.match(/^subgraph\s+(.+)$/);
+    if (subgraph) {
+      const { id, label } = parseSubgraphHeader(subgraph[1], flowchart.subgraphs.length + 1);
+      flowchart.subgraphs.push({ id, label, parent: subgraphStack[subgraphStack.length - 1] ?? null });
+      subgraphStack.push(id);
+      return;
+    }
+
+    const classAssignment = statement.match(/^class\s+([\w$,\s-]+?)\s+([\w-]+)$/);
+    if (classAssignment) {
+      classAssignment[1].split(',').forEach(id => {
+        const node = nodesById.get(id.trim());
+        if (node && !node.classes.includes(classAssignment[2])) node.classes.push(classAssignment[2]);
+      });
+      return;
+    }
+
+    const cursor: Cursor = { text: statement, pos: 0 };
+    let sources = readNodeGroup(cursor);
+    if (!sources) throw new Error(`Cannot read "${statement}"`);
+    sources.forEach(declare);
+
+    for (;;) {
+      const link = readLink(cursor);
+      if (!link) break;
+      const targets = readNodeGroup(cursor);
+      if (!targets) throw new Error(`Expected a node after "${link.link}" in "${statement}"`);
+      targets.forEach(declare);
+      sources.forEach(source =>
+        targets.forEach(target => flowchart.edges.push({ source: source.id, target: target.id, ...link, style: null }))
+      );
+      sources = targets;
+    }
+
+    skipSpaces(cursor);
+    if (cursor.pos < statement.length) {
+      throw new Error(`Cannot read "${statement.slice(cursor.pos)}" in "${statement}"`);
+    }
+  });
+
+  linkStyles.forEach(({ indexes, style }) =>
+    indexes.forEach(index => {
+      const edge = flowchart.edges[index];
+      if (edge) edge.style = edge.style ? `${edge.style},${style}` : style;
+    })
+  );
+
+  // Edges may connect subgraphs; a bare reference to one is not a node
+  const subgraphIds = new Set(flowchart.subgraphs.map(subgraph => subgraph.id));
+  flowchart.nodes = flowchart.nodes.filter(node => !(subgraphIds.has(node.id) && node.label === node.id));
+  return flowchart;
+}
@@ -2,43 +2,341 @@
 import type {
   ArchimateElement,
   ArchimateRelationship,
+  ArchimateView,
+  ArchimateViewNode,
 } from './archimate-parser';
+import {
+  LAYER_COLORS,
+  LAYER_ORDER,
+  getElementAspect,
+  getElementLayer,
+  type ArchimateAspect,
+  type ArchimateLayer,
+} from './archimate-notation';
+import {
+  escapeMermaidText,
+  humanizeType,
+  quoteMermaidLabel,
+  relationshipLabel,
+  truncateLabel,
+  type MermaidEdgeLabel,
+} from './mermaid-labels';
+import { createMermaidIdTable, toMermaidId, type MermaidIdTable } from './mermaid-ids';
+import { generateC4FromArchimate } from './mermaid-c4-generator';
+import { generateClassDiagramFromArchimate } from './mermaid-class-generator';
 
-// Helper to sanitize names for Mermaid node labels
-function sanitizeName(name: string): string {
-  // Mermaid labels need to be in quotes if they contain special characters
-  // Replacing double quotes inside the name to avoid breaking the label
-  return `"${name.replace(/"/g, '#quot;')}"`;
+export type { MermaidEdgeLabel } from './mermaid-labels';
+
+export type MermaidNotation = 'plain' | 'archimate';
+
+export type MermaidDirection = 'TD' | 'LR' | 'BT' | 'RL';
+
+/**
+ * `flowchart` is the Archimate-shaped graph; `c4Context` and `c4Container`
+ * target the C4 model; `class` draws data objects as a class diagram.
+ */
+export type MermaidDiagramFormat = 'flowchart' | 'c4Context' | 'c4Container' | 'class';
+
+export interface MermaidGeneratorOptions {
+  /** Which kind of Mermaid diagram to emit (default: flowchart) */
+  format?: MermaidDiagramFormat;
+  /**
+   * `plain` draws identical boxes for every element type.
+   * `archimate` groups elements into layer subgraphs and styles nodes and edges
+   * after the ArchiMate notation.
+   */
+  notation?: MermaidNotation;
+  /** Flowchart direction (default: TD) */
+  direction?: MermaidDirection;
+  /** What to write on edges: relationship name, type, both or nothing (default: type) */
+  edgeLabels?: MermaidEdgeLabel;
+  /** Append the element type below each node name (default: false) */
+  showElementType?: boolean;
+  /** Truncate names and edge labels longer than this, 0 to disable (default: 0) */
+  maxLabelLength?: number;
+}
+
+type ResolvedGeneratorOptions = Required<MermaidGeneratorOptions>;
+
+export const DEFAULT_GENERATOR_OPTIONS: ResolvedGeneratorOptions = {
+  format: 'flowchart',
+  notation: 'plain',
+  direction: 'TD',
+  edgeLabels: 'type',
+  showElementType: false,
+  maxLabelLength: 0,
+};
+
+/**
+ * A node of the diagram being generated. Nodes with children become subgraphs.
+ * `id` is the element or view node identifier, translated through the ID table
+ * when rendered. `type` is the element type, or null for frames such as groups and layers.
+ */
+interface LayoutNode {
+  id: string;
+  label: string;
+  type: string | null;
+  children: LayoutNode[];
+}
+
+// Opening and closing brackets of the Mermaid node shape used for each aspect
+const NODE_SHAPES: Record<ArchimateAspect, [string, string]> = {
+  active: ['[', ']'],
+  behavior: ['(', ')'],
+  service: ['([', '])'],
+  event: ['>', ']'],
+  passive: ['[(', ')]'],
+  motivation: ['{{', '}}'],
+  composite: ['[', ']'],
+  junction: ['((', '))'],
+};
+
+interface EdgeStyle {
+  link: string;
+  /** Extra `linkStyle` for types that share a Mermaid arrow with another type */
+  linkStyle?: string;
+}
+
+// Mermaid flowcharts only offer a handful of arrow heads, so line weight and
+// dash patterns keep each ArchiMate relationship type visually distinct
+const RELATIONSHIP_EDGES: Record<string, EdgeStyle> = {
+  Composition: { link: '==o' },
+  Aggregation: { link: '--o' },
+  Assignment: { link: '==>' },
+  Realization: { link: '-.->' },
+  Serving: { link: '-->' },
+  Access: { link: '-.-' },
+  Influence: { link: '-.-o' },
+  Triggering: { link: '-->', linkStyle: 'stroke-width:3px' },
+  Flow: { link: '-.->', linkStyle: 'stroke-dasharray:8 4' },
+  Specialization: { link: '--x' },
+  Association: { link: '---' },
+};
+
+const DEFAULT_EDGE: EdgeStyle = { link: '-->' };
+
+// Top-to-bottom, then left-to-right, so declaration order follows the drawn layout
+function compareByBounds(a: ArchimateViewNode, b: ArchimateViewNode): number {
+  if (!a.bounds || !b.bounds) return 0;
+  return a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x;
+}
+
+function toLayoutNode(entity: ArchimateElement, children: LayoutNode[] = []): LayoutNode {
+  return { id: entity.identifier, label: entity.name, type: entity.type, children };
+}
+
+/**
+ * Convert view nodes into layout nodes. Nodes whose element is filtered out are
+ * dropped but their children are hoisted to the closest visible ancestor, and
+ * an element shown in several places is only placed at its first occurrence.
+ */
+function buildLayout(
+  viewNodes: ArchimateViewNode[],
+  entitiesById: Map<string, ArchimateElement>,
+  placed: Set<string>
+): LayoutNode[] {
+  const layout: LayoutNode[] = [];
+  for (const viewNode of [...viewNodes].sort(compareByBounds)) {
+    const entity = viewNode.elementRef ? entitiesById.get(viewNode.elementRef) : undefined;
+    if (entity && !placed.has(entity.identifier)) {
+      placed.add(entity.identifier);
+      const children = buildLayout(viewNode.children, entitiesById, placed);
+      layout.push(toLayoutNode(entity, children));
+      continue;
+    }
+
+    const children = buildLayout(viewNode.children, entitiesById, placed);
+    // Visual groups without an element keep their frame as long as they still contain something
+    if (!viewNode.elementRef && viewNode.label && children.length > 0) {
+      layout.push({ id: viewNode.identifier, label: viewNode.label, type: null, children });
+    } else {
+      layout.push(...children);
+    }
+  }
+  return layout;
+}
+
+function flattenLayout(nodes: LayoutNode[]): LayoutNode[] {
+  return nodes.flatMap(node => [node, ...flattenLayout(node.children)]);
+}
+
+/**
+ * Regroup every element of the layout into one subgraph per ArchiMate layer,
+ * keeping the order in which elements were laid out.
+ */
+function groupByLayer(layout: LayoutNode[]): LayoutNode[] {
+  const elements = flattenLayout(layout).filter(node => node.type !== null);
+  // Identifiers cannot contain spaces, so layer keys never clash with elements
+  return LAYER_ORDER.map(layer => ({
+    id: `layer ${layer}`,
+    label: layer,
+    type: null,
+    children: elements
+      .filter(node => getElementLayer(node.type!) === layer)
+      .map(node => ({ ...node, children: [] })),
+  })).filter(layer => layer.children.length > 0);
+}
+
+// The quoted label of a node, escaped except for the line break before the type
+function nodeLabel(node: LayoutNode, options: ResolvedGeneratorOptions): string {
+  const label = escapeMermaidText(truncateLabel(node.label, options.maxLabelLength));
+  const text = options.showElementType && node.type ? `${label}<br/>«${humanizeType(node.type)}»` : label;
+  return `"${text}"`;
+}
+
+function nodeDeclaration(node: LayoutNode, ids: MermaidIdTable, options: ResolvedGeneratorOptions): string {
+  const label = nodeLabel(node, options);
+  if (options.notation === 'plain' || !node.type) {
+    return `${ids.idFor(node.id)}[${label}]`;
+  }
+  const [open, close] = NODE_SHAPES[getElementAspect(node.type)];
+  return `${ids.idFor(node.id)}${open}${label}${close}`;
+}
+
+function renderLayout(
+  nodes: LayoutNode[],
+  depth: number,
+  ids: MermaidIdTable,
+  options: ResolvedGeneratorOptions
+): string {
+  const indent = '  '.repeat(depth);
+  return nodes
+    .map(node => {
+      if (node.children.length === 0) {
+        return `${indent}${nodeDeclaration(node, ids, options)};\n`;
+      }
+      return (
+        `${indent}subgraph ${ids.idFor(node.id)}[${nodeLabel(node, options)}]\n` +
+        renderLayout(node.children, depth + 1, ids, options) +
+        `${indent}end\n`
+      );
+    })
+    .join('');
+}
+
+/**
+ * One `classDef` per element type present, colored after its layer, plus the
+ * `class` assignments and layer frame styles.
+ */
+function renderNotationStyles(layout: LayoutNode[], ids: MermaidIdTable): string {
+  const idsByType = new Map<string, string[]>();
+  flattenLayout(layout).forEach(node => {
+    if (!node.type) return;
+    idsByType.set(node.type, [...(idsByType.get(node.type) ?? []), ids.idFor(node.id)]);
+  });
+
+  let styles = '\n  %% ArchiMate notation\n';
+  idsByType.forEach((nodeIds, type) => {
+    const { fill, stroke } = LAYER_COLORS[getElementLayer(type)];
+    const className = toMermaidId(type);
+    styles += `  classDef ${className} fill:${fill},stroke:${stroke},color:#000;\n`;
+    styles += `  class ${nodeIds.join(',')} ${className};\n`;
+  });
+  layout.forEach(layer => {
+    const { stroke } = LAYER_COLORS[layer.label as ArchimateLayer];
+    styles += `  style ${ids.idFor(layer.id)} fill:transparent,stroke:${stroke};\n`;
+  });
+  return styles;
 }
 
+/**
+ * Generate a Mermaid flowchart for the given entities and relationships.
+ *
+ * When views are given, the diagram mirrors them: nested view nodes become
+ * subgraphs and only relationships drawn as connections in those views are
+ * emitted. Relationships touching entities that appear in none of the views
+ * are always kept. In `archimate` notation the view nesting gives way to
+ * layer subgraphs, but the view order and connections are still honored.
+ *
+ * Identifiers are translated to Mermaid IDs through `idTable`; pass a table to
+ * read the mapping back afterwards.
+ */
 export function generateMermaidFromArchimate(
   entities: ArchimateElement[],
-  relationships: ArchimateRelationship[]
+  relationships: ArchimateRelationship[],
+  views: ArchimateView[] = [],
+  options: MermaidGeneratorOptions = {},
+  idTable?: MermaidIdTable
 ): string {
+  const resolved: ResolvedGeneratorOptions = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+  const { notation, direction } = resolved;
+  const ids = idTable ?? createMermaidIdTable();
+
   if (entities.length === 0) {
-    return 'graph TD;\n  subgraph "Empty Diagram"\n    A["No elements selected"];\n  end';
+    return `graph ${direction};\n  subgraph "Empty Diagram"\n    A["No elements selected"];\n  end`;
   }
 
-  let script = 'graph TD;\n';
+  let script = `graph ${direction};\n`;
+
+  const entitiesById = new Map(entities.map(entity => [entity.identifier, entity]));
+  const placed = new Set<string>();
+  let layout = views.flatMap(view => buildLayout(view.nodes, entitiesById, placed));
+  const inViews = new Set(placed);
+  entities
+    .filter(entity => !placed.has(entity.identifier))
+    .forEach(entity => layout.push(toLayoutNode(entity)));
+  if (notation === 'archimate') {
+    layout = groupByLayer(layout);
+  }
 
   // Add entities (nodes)
   script += '\n  %% Entities\n';
-  entities.forEach(entity => {
-    // Mermaid node IDs should be unique. The original identifier is perfect for this.
-    // Modern Mermaid handles hyphens in IDs without issue.
-    const safeId = entity.identifier;
-    script += `  ${safeId}["${sanitizeName(entity.name)}"];\n`;
-  });
+  script += renderLayout(layout, 1, ids, resolved);
+
+  const drawnRelationships = new Set(
+    views.flatMap(view => view.connections.map(connection => connection.relationshipRef))
+  );
+  const visibleRelationships = views.length === 0
+    ? relationships
+    : relationships.filter(rel =>
+        drawnRelationships.has(rel.identifier) || !inViews.has(rel.source) || !inViews.has(rel.target)
+      );
 
   // Add relationships (links)
   script += '\n  %% Relationships\n';
-  relationships.forEach(rel => {
-    const sourceSafeId = rel.source;
-    const targetSafeId = rel.target;
-    const label = rel.type;
+  const linkIndexesByStyle = new Map<string, number[]>();
+  visibleRelationships.forEach((rel, index) => {
+    const sourceSafeId = ids.idFor(rel.source);
+    const targetSafeId = ids.idFor(rel.target);
+    const label = relationshipLabel(rel, resolved.edgeLabels, resolved.maxLabelLength);
+    const edge = notation === 'archimate' ? RELATIONSHIP_EDGES[rel.type] ?? DEFAULT_EDGE : DEFAULT_EDGE;
+    if (edge.linkStyle) {
+      linkIndexesByStyle.set(edge.linkStyle, [...(linkIndexesByStyle.get(edge.linkStyle) ?? []), index]);
+    }
 
-    script += `  ${sourceSafeId} -->|"${label}"| ${targetSafeId};\n`;
+    const labelText = label ? `|${quoteMermaidLabel(label)}|` : '';
+    script += `  ${sourceSafeId} ${edge.link}${labelText} ${targetSafeId};\n`;
+  });
+  linkIndexesByStyle.forEach((indexes, style) => {
+    script += `  linkStyle ${indexes.join(',')} ${style};\n`;
   });
 
+  if (notation === 'archimate') {
+    script += renderNotationStyles(layout, ids);
+  }
+
   return script;
 }
+
+/**
+ * Generate a Mermaid diagram in the format chosen by `options.format`.
+ * Views only shape flowcharts; the other formats work on the element set alone.
+ */
+export function generateMermaidDiagram(
+  entities: ArchimateElement[],
+  relationships: ArchimateRelationship[],
+  views: ArchimateView[] = [],
+  options: MermaidGeneratorOptions = {},
+  idTable: MermaidIdTable = createMermaidIdTable()
+): string {
+  const resolved: ResolvedGeneratorOptions = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+  switch (resolved.format) {
+    case 'c4Context':
+    case 'c4Container':
+      return generateC4FromArchimate(entities, relationships, resolved.format, resolved, idTable);
+    case 'class':
+      return generateClassDiagramFromArchimate(entities, relationships, resolved, idTable);
+    default:
+      return generateMermaidFromArchimate(entities, relationships, views, resolved, idTable);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Mermaid Identifiers
+ *
+ * Archimate identifiers can contain any character, while Mermaid node IDs must
+ * be plain words that are not diagram keywords. The ID table turns every
+ * identifier into a safe Mermaid ID once and remembers the mapping both ways,
+ * so the same model and selection always produce the same IDs and a Mermaid ID
+ * can be traced back to its element.
+ */
+
+// Words that end or start statements in flowchart, C4 and class diagram syntax
+const RESERVED_IDS = new Set([
+  'end',
+  'graph',
+  'flowchart',
+  'subgraph',
+  'direction',
+  'style',
+  'linkStyle',
+  'classDef',
+  'class',
+  'cssClass',
+  'click',
+  'call',
+  'callback',
+  'href',
+  'link',
+  'default',
+  'interpolate',
+  'namespace',
+  'note',
+  'classDiagram',
+  'accTitle',
+  'accDescr',
+  'title',
+  // Arrow ends: "o" is the class diagram aggregation, "o" and "x" end flowchart links
+  'o',
+  'x',
+]);
+
+export interface MermaidIdTable {
+  /** The Mermaid ID of an Archimate identifier, allocated on first use */
+  idFor(identifier: string): string;
+  /** The Archimate identifier behind a Mermaid ID, if it was allocated by this table */
+  identifierFor(id: string): string | undefined;
+  /** Every allocated mapping, from Archimate identifier to Mermaid ID */
+  entries(): [string, string][];
+}
+
+/**
+ * Reduce an identifier to letters, digits and underscores, keeping it readable.
+ * Identifiers that are empty, start with a digit or clash with a keyword get a prefix.
+ */
+export function toMermaidId(identifier: string): string {
+  const id = identifier.replace(/[^A-Za-z0-9_]/g, '_');
+  if (id === '' || /^[0-9]/.test(id) || RESERVED_IDS.has(id.toLowerCase()) || RESERVED_IDS.has(id)) {
+    return `n_${id}`;
+  }
+  return id;
+}
+
+/**
+ * Create an empty ID table. Two identifiers that reduce to the same Mermaid ID
+ * are told apart by a numeric suffix, in the order they are first seen.
+ */
+export function createMermaidIdTable(): MermaidIdTable {
+  const ids = new Map<string, string>();
+  const identifiers = new Map<string, string>();
+
+  return {
+    idFor(identifier) {
+      const known = ids.get(identifier);
+      if (known) return known;
+
+      const base = toMermaidId(identifier);
+      let id = base;
+      for (let suffix = 2; identifiers.has(id); suffix++) {
+        id = `${base}_${suffix}`;
+      }
+      ids.set(identifier, id);
+      identifiers.set(id, identifier);
+      return id;
+    },
+    identifierFor(id) {
+      return identifiers.get(id);
+    },
+    entries() {
+      return Array.from(ids.entries());
+    },
+  };
+}
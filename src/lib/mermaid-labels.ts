@@ -0,0 +1,89 @@
+/**
+ * Mermaid Label Helpers
+ *
+ * Label formatting shared by the Archimate diagram emitters
+ * (flowchart, C4 and class diagrams).
+ */
+
+import type { ArchimateRelationship } from './archimate-parser';
+
+export type MermaidEdgeLabel = 'name' | 'type' | 'both' | 'none';
+
+/**
+ * Shorten a label to `maxLength` characters, ending it with an ellipsis.
+ * A `maxLength` of 0 or less disables truncation.
+ */
+export function truncateLabel(label: string, maxLength: number): string {
+  if (maxLength <= 0 || label.length <= maxLength) return label;
+  return `${label.slice(0, Math.max(maxLength - 1, 1)).trimEnd()}…`;
+}
+
+/**
+ * Escape text for use inside a double-quoted flowchart label. Characters with
+ * a meaning in Mermaid or HTML become entity codes and line breaks become `<br/>`.
+ * Mermaid rejects empty quoted strings, so empty text becomes a non-breaking space.
+ */
+export function escapeMermaidText(text: string): string {
+  if (text === '') return '#nbsp;';
+  return text
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/`/g, '#96;')
+    .replace(/\r?\n|\r/g, '<br/>');
+}
+
+const NAMED_ENTITIES: Record<string, string> = { quot: '"', lt: '<', gt: '>', amp: '&', nbsp: ' ' };
+
+/**
+ * Read back label text written by `escapeMermaidText`, or by hand with Mermaid
+ * entity codes (`#quot;`, `#35;`) and `<br>` line breaks.
+ */
+export function unescapeMermaidText(text: string): string {
+  if (text === '#nbsp;') return '';
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    // One pass, so a decoded "#" never starts another entity
+    .replace(/#(\d+|[a-z]+);/gi, (entity, code: string) =>
+      /^\d+$/.test(code) ? String.fromCharCode(parseInt(code, 10)) : NAMED_ENTITIES[code.toLowerCase()] ?? entity
+    );
+}
+
+/**
+ * Escape and double-quote a flowchart label, e.g. for `id["label"]` or `-->|"label"|`
+ */
+export function quoteMermaidLabel(text: string): string {
+  return `"${escapeMermaidText(text)}"`;
+}
+
+/**
+ * `ApplicationComponent` -> `Application Component`
+ */
+export function humanizeType(type: string): string {
+  return type.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+/**
+ * Build the text shown on an edge for a relationship, or null for no label
+ */
+export function relationshipLabel(
+  rel: ArchimateRelationship,
+  mode: MermaidEdgeLabel,
+  maxLength: number
+): string | null {
+  let label: string | null;
+  switch (mode) {
+    case 'none':
+      return null;
+    case 'name':
+      label = rel.name;
+      break;
+    case 'both':
+      label = rel.name ? `${rel.name} (${rel.type})` : rel.type;
+      break;
+    default:
+      label = rel.type;
+  }
+  return label ? truncateLabel(label, maxLength) : null;
+}
@@ -0,0 +1,348 @@
+/**
+ * Mermaid Language Mode
+ *
+ * A CodeMirror language for the inside of ```mermaid fences:
+ * - Highlighting of the keywords of flowchart, sequence, class, state, ER,
+ *   gantt and C4 diagrams, plus comments, labels, arrows and numbers
+ * - Completion of the node IDs already used in the same block
+ * - Snippets for common constructs (subgraph, participant, alt/else, classDef, ...)
+ *
+ * The keyword set follows the diagram type named on the block's first line.
+ */
+
+import {
+  LanguageDescription,
+  LanguageSupport,
+  StreamLanguage,
+  type StreamParser,
+  type StringStream,
+} from '@codemirror/language';
+import {
+  snippetCompletion,
+  type Completion,
+  type CompletionContext,
+  type CompletionResult,
+} from '@codemirror/autocomplete';
+import { findMermaidBlockAt } from './mermaid-blocks';
+
+export type MermaidDiagramKind = 'flowchart' | 'sequence' | 'class' | 'state' | 'er' | 'gantt' | 'c4';
+
+// Header keywords and the diagram kind each one starts
+const DIAGRAM_HEADERS: Record<string, MermaidDiagramKind> = {
+  graph: 'flowchart',
+  flowchart: 'flowchart',
+  sequenceDiagram: 'sequence',
+  classDiagram: 'class',
+  stateDiagram: 'state',
+  'stateDiagram-v2': 'state',
+  erDiagram: 'er',
+  gantt: 'gantt',
+  C4Context: 'c4',
+  C4Container: 'c4',
+  C4Component: 'c4',
+  C4Dynamic: 'c4',
+  C4Deployment: 'c4',
+};
+
+const COMMON_KEYWORDS = ['title', 'accTitle', 'accDescr', 'direction'];
+
+const DIAGRAM_KEYWORDS: Record<MermaidDiagramKind, string[]> = {
+  flowchart: ['subgraph', 'end', 'classDef', 'class', 'style', 'linkStyle', 'click', 'TD', 'TB', 'BT', 'LR', 'RL'],
+  sequence: [
+    'participant', 'actor', 'as', 'loop', 'alt', 'else', 'opt', 'par', 'and', 'critical', 'option', 'break',
+    'rect', 'end', 'Note', 'note', 'over', 'left', 'right', 'of', 'activate', 'deactivate', 'autonumber',
+    'box', 'create', 'destroy', 'link', 'links',
+  ],
+  class: ['class', 'namespace', 'note', 'for', 'classDef', 'cssClass', 'style', 'click', 'callback', 'link'],
+  state: ['state', 'note', 'as', 'end', 'left', 'right', 'of', 'classDef', 'class', 'style'],
+  er: [],
+  gantt: [
+    'dateFormat', 'axisFormat', 'tickInterval', 'excludes', 'includes', 'todayMarker', 'section', 'weekday',
+    'done', 'active', 'crit', 'milestone', 'after', 'until',
+  ],
+  c4: [
+    'Person', 'Person_Ext', 'System', 'System_Ext', 'SystemDb', 'SystemDb_Ext', 'SystemQueue', 'SystemQueue_Ext',
+    'Container', 'Container_Ext', 'ContainerDb', 'ContainerDb_Ext', 'ContainerQueue', 'ContainerQueue_Ext',
+    'Component', 'Component_Ext', 'ComponentDb', 'ComponentDb_Ext', 'ComponentQueue', 'ComponentQueue_Ext',
+    'Boundary', 'Enterprise_Boundary', 'System_Boundary', 'Container_Boundary', 'Deployment_Node', 'Node',
+    'Rel', 'BiRel', 'Rel_U', 'Rel_Up', 'Rel_D', 'Rel_Down', 'Rel_L', 'Rel_Left', 'Rel_R', 'Rel_Right', 'Rel_Back',
+    'UpdateElementStyle', 'UpdateRelStyle', 'UpdateLayoutConfig',
+  ],
+};
+
+const keywordsOf = (kind: MermaidDiagramKind | null) =>
+  kind ? [...DIAGRAM_KEYWORDS[kind], ...COMMON_KEYWORDS] : Object.keys(DIAGRAM_HEADERS);
+
+/**
+ * The diagram kind a header line starts, e.g. `graph TD` -> flowchart
+ */
+export function detectDiagramKind(header: string): MermaidDiagramKind | null {
+  const keyword = header.trim().split(/\s+/)[0];
+  return DIAGRAM_HEADERS[keyword] ?? null;
+}
+
+// --- Highlighting ---
+
+interface MermaidState {
+  kind: MermaidDiagramKind | null;
+  /** True once the header line has been read */
+  started: boolean;
+}
+
+// Closing bracket of each flowchart label opening
+const LABEL_CLOSERS: Record<string, string> = { '[': ']', '(': ')', '{': '}', '>': ']' };
+
+function readLabel(stream: StringStream, close: string): string {
+  while (!stream.eol()) {
+    if (stream.peek() === '"') {
+      stream.next();
+      stream.skipTo('"') ? stream.next() : stream.skipToEnd();
+    } else if (stream.next() === close && !stream.match(close, false)) {
+      break;
+    }
+  }
+  return 'string';
+}
+
+const mermaidParser: StreamParser<MermaidState> = {
+  name: 'mermaid',
+  startState: () => ({ kind: null, started: false }),
+  token(stream, state) {
+    if (stream.eatSpace()) return null;
+    if (stream.match('%%{')) {
+      stream.skipTo('}%%') ? stream.match('}%%') : stream.skipToEnd();
+      return 'meta';
+    }
+    if (stream.match('%%')) {
+      stream.skipToEnd();
+      return 'comment';
+    }
+
+    if (!state.started) {
+      const header = stream.match(/^[\w-]+/) as RegExpMatchArray | null;
+      if (header) {
+        state.started = true;
+        state.kind = detectDiagramKind(header[0]);
+        return state.kind ? 'keyword' : 'variableName';
+      }
+    }
+
+    if (stream.peek() === '"') {
+      stream.next();
+      stream.skipTo('"') ? stream.next() : stream.skipToEnd();
+      return 'string';
+    }
+    // Message and relationship text runs to the end of the line
+    if (state.kind !== 'flowchart' && state.kind !== 'gantt' && stream.match(/^:(?!::)/)) {
+      stream.skipToEnd();
+      return 'string';
+    }
+    if (state.kind === 'flowchart') {
+      if (stream.match(':::')) {
+        stream.match(/^[\w-]+/);
+        return 'typeName';
+      }
+      if (stream.peek() === '|') {
+        stream.next();
+        stream.skipTo('|') ? stream.next() : stream.skipToEnd();
+        return 'string';
+      }
+      // A label follows a node ID directly: A[...], B(...), C{...}, D>...], or a subgraph ID after a space
+      const previous = stream.string.charAt(stream.pos - 1);
+      const opening = stream.peek() ?? '';
+      const isSubgraphTitle = opening === '[' && /^\s*subgraph\b/.test(stream.string);
+      if (LABEL_CLOSERS[opening] && (/[\w$]/.test(previous) || isSubgraphTitle)) {
+        stream.next();
+        return readLabel(stream, LABEL_CLOSERS[opening]);
+      }
+    }
+
+    if (stream.match(/^#[0-9a-fA-F]{3,8}\b/) || stream.match(/^\d+(\.\d+)?(px|d|h|w|%)?\b/)) return 'number';
+    const word = stream.match(/^[A-Za-z_][\w]*(?:-[A-Za-z]\w*)*/) as RegExpMatchArray | null;
+    if (word) {
+      return keywordsOf(state.kind).includes(word[0]) ? 'keyword' : 'variableName';
+    }
+    // Pipes delimit flowchart edge labels, but are part of ER and class arrows
+    const operator = state.kind === 'flowchart' ? /^[-=.<>ox*+{}()[\]\\/~]+/ : /^[-=.<>ox|*+{}()[\]\\/~]+/;
+    if (stream.match(operator)) return 'operator';
+    stream.next();
+    return null;
+  },
+  languageData: {
+    commentTokens: { line: '%%' },
+  },
+};
+
+// --- Completion ---
+
+// Statements that style or link rather than declare, skipped when collecting IDs
+const NON_DECLARING = /^(classDef|style|linkStyle|click|class\s+[\w,\s]+\s+\w+$|title|accTitle|accDescr|dateFormat|axisFormat|tickInterval|excludes|includes|todayMarker|section|autonumber)\b/;
+
+/**
+ * The node IDs used in a block, in order of first use. Labels, messages and
+ * styling statements are ignored, so only identifiers remain: flowchart nodes,
+ * sequence participants, classes, states, ER entities, gantt task IDs and C4 aliases.
+ */
+export function collectMermaidIds(script: string): string[] {
+  const lines = script.split('\n');
+  const kind = detectDiagramKind(lines.find(line => line.trim() && !line.trim().startsWith('%%')) ?? '');
+  const keywords = new Set(keywordsOf(kind));
+  const ids: string[] = [];
+  const add = (id: string) => {
+    if (!keywords.has(id) && !DIAGRAM_HEADERS[id] && !ids.includes(id)) ids.push(id);
+  };
+
+  let headerSeen = false;
+  let depth = 0;
+  lines.forEach(rawLine => {
+    let line = rawLine.trim();
+    if (!line || line.startsWith('%%')) return;
+    if (!headerSeen) {
+      headerSeen = true;
+      return;
+    }
+
+    if (kind === 'c4') {
+      // Person(alias, "Label", ...): the alias is the ID
+      const alias = line.match(/^\w+\(\s*([A-Za-z_]\w*)/);
+      if (alias && !/^(Rel|BiRel|Update)/.test(line)) add(alias[1]);
+      return;
+    }
+    if (kind === 'gantt') {
+      line.match(/:\s*(?:(?:done|active|crit|milestone)\s*,\s*)*([A-Za-z_][\w-]*)\s*,/)?.slice(1).forEach(add);
+      return;
+    }
+
+    // Class members and ER attributes live inside braces opened at the end of a line;
+    // ER cardinalities such as ||--o{ are braces too, but mid-line
+    if (kind === 'class' || kind === 'er') {
+      if (depth > 0) {
+        if (line.startsWith('}')) depth--;
+        return;
+      }
+      if (/\{\s*$/.test(line)) {
+        depth++;
+        line = line.replace(/\{\s*$/, '');
+      }
+    }
+    if (NON_DECLARING.test(line)) return;
+
+    line = line
+      .replace(/"[^"]*"/g, ' ')
+      .replace(/:::[\w-]+/g, ' ')
+      .replace(/<<[^>]*>>/g, ' ');
+    if (kind === 'flowchart') {
+      line = line
+        .replace(/\|[^|]*\|/g, ' ')
+        .replace(/(--|==|-\.)\s+[^>ox-]*?\s+(-{2,}|={2,}|\.-)/g, '$2')
+        .replace(/(\[[^\]]*\]|\([^)]*\)|\{[^}]*\}|(?<=[\w$])>[^\]]*\])/g, ' ');
+    } else {
+      line = line.replace(/:.*$/, '').replace(/\bas\s+.*$/, '').replace(/\[\*\]/g, ' ');
+    }
+    line.match(/(?<![\w-])[A-Za-z_]\w*(?:-[A-Za-z_]\w*)*/g)?.forEach(add);
+  });
+  return ids;
+}
+
+const snippet = (template: string, label: string, detail: string) =>
+  snippetCompletion(template, { label, detail, type: 'keyword', boost: -1 });
+
+const SNIPPETS: Record<MermaidDiagramKind, Completion[]> = {
+  flowchart: [
+    snippet('subgraph ${1:id} [${2:Title}]\n\t${3}\nend', 'subgraph', 'group nodes'),
+    snippet('classDef ${1:name} fill:${2:#f9f9f9},stroke:${3:#333333}', 'classDef', 'define a style class'),
+    snippet('class ${1:nodes} ${2:name}', 'class', 'apply a style class'),
+    snippet('linkStyle ${1:0} stroke:${2:#ff3333}', 'linkStyle', 'style a link'),
+    snippet('click ${1:node} href "${2:https://}"', 'click', 'link a node'),
+  ],
+  sequence: [
+    snippet('participant ${1:A} as ${2:Alice}', 'participant', 'declare a participant'),
+    snippet('actor ${1:A} as ${2:User}', 'actor', 'declare an actor'),
+    snippet('alt ${1:condition}\n\t${2}\nelse ${3:otherwise}\n\t${4}\nend', 'alt/else', 'alternative paths'),
+    snippet('opt ${1:condition}\n\t${2}\nend', 'opt', 'optional path'),
+    snippet('loop ${1:every minute}\n\t${2}\nend', 'loop', 'repeated messages'),
+    snippet('par ${1:first}\n\t${2}\nand ${3:second}\n\t${4}\nend', 'par/and', 'parallel messages'),
+    snippet('Note over ${1:A},${2:B}: ${3:text}', 'note', 'note over participants'),
+  ],
+  class: [
+    snippet('class ${1:Name} {\n\t${2:+String attribute}\n\t${3:+method()}\n}', 'class', 'class with members'),
+    snippet('${1:Parent} <|-- ${2:Child}', 'inheritance', 'inheritance relationship'),
+    snippet('classDef ${1:name} fill:${2:#f9f9f9},stroke:${3:#333333}', 'classDef', 'define a style class'),
+    snippet('note for ${1:Name} "${2:text}"', 'note', 'note on a class'),
+  ],
+  state: [
+    snippet('state ${1:Composite} {\n\t[*] --> ${2:First}\n}', 'state', 'composite state'),
+    snippet('state ${1:choice} <<choice>>', 'choice', 'choice pseudo-state'),
+    snippet('note right of ${1:State}\n\t${2:text}\nend note', 'note', 'note on a state'),
+    snippet('classDef ${1:name} fill:${2:#f9f9f9},stroke:${3:#333333}', 'classDef', 'define a style class'),
+  ],
+  er: [
+    snippet('${1:ENTITY} {\n\t${2:string} ${3:name}\n}', 'entity', 'entity with attributes'),
+    snippet('${1:CUSTOMER} ||--o{ ${2:ORDER} : ${3:places}', 'relationship', 'one to many'),
+  ],
+  gantt: [
+    snippet('section ${1:Phase}\n${2:Task} :${3:t1}, ${4:2024-01-01}, ${5:7d}', 'section', 'section with a task'),
+    snippet('${1:Task} :${2:t2}, after ${3:t1}, ${4:3d}', 'task', 'task after another'),
+  ],
+  c4: [
+    snippet('Person(${1:alias}, "${2:Label}", "${3:Description}")', 'Person', 'person'),
+    snippet('System(${1:alias}, "${2:Label}", "${3:Description}")', 'System', 'software system'),
+    snippet('Container(${1:alias}, "${2:Label}", "${3:Technology}", "${4:Description}")', 'Container', 'container'),
+    snippet('System_Boundary(${1:alias}, "${2:Label}") {\n\t${3}\n}', 'System_Boundary', 'boundary'),
+    snippet('Rel(${1:from}, ${2:to}, "${3:Uses}")', 'Rel', 'relationship'),
+  ],
+};
+
+const OPENING_FENCE_LENGTH = '```mermaid\n'.length;
+
+/**
+ * Complete keywords, snippets and the IDs already used in the block around the cursor.
+ */
+export function mermaidCompletionSource(context: CompletionContext): CompletionResult | null {
+  const word = context.matchBefore(/[\w-]*/);
+  if (!word || (word.from === word.to && !context.explicit)) return null;
+
+  const doc = context.state.doc.toString();
+  const block = findMermaidBlockAt(doc, context.pos);
+  if (!block) return null;
+  const scriptStart = block.startCharIndex + OPENING_FENCE_LENGTH;
+  // The word being typed is not yet an ID of the block
+  const script = doc.slice(scriptStart, word.from) + doc.slice(word.to, scriptStart + block.script.length);
+
+  // The first word of the block names the diagram type
+  const before = script.slice(0, word.from - scriptStart);
+  if (!before.split('\n').some(line => line.trim() && !line.trim().startsWith('%%'))) {
+    return {
+      from: word.from,
+      options: Object.keys(DIAGRAM_HEADERS).map(label => ({ label, type: 'keyword', detail: 'diagram type' })),
+      validFor: /^[\w-]*$/,
+    };
+  }
+
+  const header = script.split('\n').find(line => line.trim() && !line.trim().startsWith('%%'));
+  const kind = detectDiagramKind(header ?? '');
+  const options: Completion[] = [
+    ...collectMermaidIds(script).map(label => ({ label, type: 'variable', detail: 'node' })),
+    ...keywordsOf(kind).map(label => ({ label, type: 'keyword' })),
+    ...(kind ? SNIPPETS[kind] : []),
+  ];
+  return { from: word.from, options, validFor: /^[\w-]*$/ };
+}
+
+export const mermaidLanguage = StreamLanguage.define({
+  ...mermaidParser,
+  languageData: { ...mermaidParser.languageData, autocomplete: mermaidCompletionSource },
+});
+
+export function mermaid(): LanguageSupport {
+  return new LanguageSupport(mermaidLanguage);
+}
+
+/**
+ * Description for `markdown({ codeLanguages })`, so ```mermaid fences use this mode
+ */
+export const mermaidLanguageDescription = LanguageDescription.of({
+  name: 'mermaid',
+  alias: ['mmd'],
+  support: mermaid(),
+});
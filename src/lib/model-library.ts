@@ -0,0 +1,142 @@
+/**
+ * Archimate Model Library
+ *
+ * Keeps uploaded ArchiMate models in the browser's IndexedDB so they survive
+ * closing the dialog and reloading the page. Models are stored as the original
+ * file content and parsed when loaded, so they benefit from parser updates.
+ */
+
+import { parseArchimateModel, type ArchimateModel } from './archimate-parser';
+
+export interface StoredModelSummary {
+  id: string;
+  name: string;
+  fileName: string;
+  /** When the model was first added to the library, in milliseconds since the epoch */
+  createdAt: number;
+  /** When the current file content was uploaded */
+  uploadedAt: number;
+}
+
+export interface StoredModel extends StoredModelSummary {
+  /** Raw exchange XML or .archimate content */
+  content: string;
+}
+
+const DATABASE_NAME = 'livemate-model-library';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'models';
+
+type LibraryListener = () => void;
+const listeners = new Set<LibraryListener>();
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('The model library needs IndexedDB, which this browser does not provide.'));
+  }
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error ?? new Error('Failed to open the model library.'));
+      };
+    });
+  }
+  return databasePromise;
+}
+
+// Run one request against the model store and resolve with its result once the transaction commits
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = createRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The model library transaction was aborted.'));
+  });
+}
+
+function notifyListeners() {
+  listeners.forEach(listener => listener());
+}
+
+function createModelId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `model-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Subscribe to additions, replacements and deletions. Returns the unsubscribe function.
+ */
+export function subscribeToModelLibrary(listener: LibraryListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * List the stored models, most recently uploaded first, without their content.
+ */
+export async function listStoredModels(): Promise<StoredModelSummary[]> {
+  const models = await runRequest<StoredModel[]>('readonly', store => store.getAll());
+  return models
+    .map(({ content, ...summary }) => summary)
+    .sort((a, b) => b.uploadedAt - a.uploadedAt);
+}
+
+export async function getStoredModel(id: string): Promise<StoredModel | null> {
+  const model = await runRequest<StoredModel | undefined>('readonly', store => store.get(id));
+  return model ?? null;
+}
+
+/**
+ * Load and parse a stored model. Resolves with null when the id is unknown.
+ */
+export async function loadArchimateModel(id: string): Promise<ArchimateModel | null> {
+  const stored = await getStoredModel(id);
+  return stored ? parseArchimateModel(stored.content) : null;
+}
+
+/**
+ * Add a model to the library. The content is parsed first, so files that are
+ * not ArchiMate models are rejected with the parser's error.
+ */
+export async function addStoredModel(name: string, fileName: string, content: string): Promise<StoredModelSummary> {
+  parseArchimateModel(content);
+  const now = Date.now();
+  const summary: StoredModelSummary = { id: createModelId(), name, fileName, createdAt: now, uploadedAt: now };
+  await runRequest('readwrite', store => store.add({ ...summary, content }));
+  notifyListeners();
+  return summary;
+}
+
+/**
+ * Replace the content of a stored model with a newer upload, keeping its name.
+ */
+export async function replaceStoredModel(id: string, fileName: string, content: string): Promise<void> {
+  parseArchimateModel(content);
+  const existing = await getStoredModel(id);
+  if (!existing) {
+    throw new Error('The model to replace is no longer in the library.');
+  }
+  await runRequest('readwrite', store => store.put({ ...existing, fileName, content, uploadedAt: Date.now() }));
+  notifyListeners();
+}
+
+export async function deleteStoredModel(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id));
+  notifyListeners();
+}
@@ -0,0 +1,178 @@
+/**
+ * Preview Blocks
+ *
+ * Updates the preview in place instead of replacing all of it. Rendered HTML is
+ * compared with the preview block by block, so only blocks whose HTML changed
+ * are swapped, and everything else, rendered diagrams included, stays in the DOM.
+ * Diagrams that do need rendering reuse cached SVGs keyed by a hash of their
+ * source, so a diagram is only laid out again when its own script changed.
+ * Source positions are not part of a block's identity: a block that only moved
+ * down the document is kept and given its new positions.
+ */
+
+import { SOURCE_POSITION_ATTRIBUTES } from '@/lib/markdown-pipeline';
+
+/** Renders a script to SVG, rejecting with Mermaid's error when it is invalid */
+export type MermaidRender = (id: string, script: string) => Promise<{ svg: string }>;
+
+/** Rendered SVG per source hash */
+export type MermaidSvgCache = Map<string, string>;
+
+// Attribute holding the source hash of a diagram that has been rendered or queued
+const SOURCE_HASH_ATTRIBUTE = 'data-source-hash';
+
+// An element and its descendants carrying source positions, in document order
+const positionedSelector = SOURCE_POSITION_ATTRIBUTES.map(attribute => `[${attribute}]`).join(', ');
+const positioned = (element: Element): Element[] => [element, ...Array.from(element.querySelectorAll(positionedSelector))];
+
+// Key of each preview node: a hash of the HTML it was created from. Diagrams
+// change their own markup once rendered, so the key cannot be read off the DOM.
+const blockKeys = new WeakMap<Node, string>();
+
+let renderCount = 0;
+
+// Every render goes through one queue: Mermaid does not render concurrently, and
+// a run started by a later preview update may overlap one that is still going
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+function queueRender(render: MermaidRender, id: string, script: string): Promise<{ svg: string }> {
+  const rendered = renderQueue.then(() => render(id, script));
+  renderQueue = rendered.catch(() => undefined);
+  return rendered;
+}
+
+/**
+ * 53-bit hash of a string (cyrb53), as hex. Collisions are unlikely enough for
+ * telling blocks and diagrams apart.
+ */
+export function hashSource(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+function nodeKey(node: Node): string {
+  if (!(node instanceof Element)) return `#${node.nodeType}:${node.textContent ?? ''}`;
+  const unstamped = node.cloneNode(true) as Element;
+  positioned(unstamped).forEach(element =>
+    SOURCE_POSITION_ATTRIBUTES.forEach(attribute => element.removeAttribute(attribute))
+  );
+  return hashSource(unstamped.outerHTML);
+}
+
+// Blocks with the same key differ in positions only, so their positioned
+// elements pair up. A rendered diagram has none below its container.
+function copyPositions(from: Node, to: Node): void {
+  if (!(from instanceof Element) || !(to instanceof Element)) return;
+  const targets = positioned(to);
+  positioned(from).forEach((source, index) => {
+    const target = targets[index];
+    if (!target) return;
+    SOURCE_POSITION_ATTRIBUTES.forEach(attribute => {
+      const value = source.getAttribute(attribute);
+      if (value === null) {
+        target.removeAttribute(attribute);
+      } else if (target.getAttribute(attribute) !== value) {
+        target.setAttribute(attribute, value);
+      }
+    });
+  });
+}
+
+/**
+ * Bring `container` in line with `html`, keeping the nodes of top-level blocks
+ * whose HTML did not change. Returns the nodes that were inserted.
+ */
+export function patchPreview(container: HTMLElement, html: string): Node[] {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  // Current nodes by key, in document order, so repeated blocks are reused in turn
+  const available = new Map<string, Node[]>();
+  Array.from(container.childNodes).forEach(node => {
+    const key = blockKeys.get(node);
+    if (key === undefined) return;
+    available.set(key, [...(available.get(key) ?? []), node]);
+  });
+
+  const inserted: Node[] = [];
+  const wanted = Array.from(template.content.childNodes).map(fresh => {
+    const key = nodeKey(fresh);
+    const reused = available.get(key)?.shift();
+    if (reused) {
+      copyPositions(fresh, reused);
+      return reused;
+    }
+    blockKeys.set(fresh, key);
+    inserted.push(fresh);
+    return fresh;
+  });
+
+  const kept = new Set(wanted);
+  Array.from(container.childNodes).forEach(node => {
+    if (!kept.has(node)) node.remove();
+  });
+  wanted.forEach((node, index) => {
+    const current = container.childNodes[index];
+    if (current !== node) container.insertBefore(node, current ?? null);
+  });
+
+  return inserted;
+}
+
+/**
+ * Render the diagrams of `container` that have not been rendered yet. Cached
+ * SVGs are filled in at once; the rest are rendered one after the other, queued
+ * behind the renders of any earlier run. The cache is pruned to the diagrams in
+ * `container`. Returns the diagrams that failed to render.
+ */
+export async function renderMermaidDiagrams(
+  container: HTMLElement,
+  render: MermaidRender,
+  cache: MermaidSvgCache
+): Promise<Element[]> {
+  const pending: { diagram: Element; script: string; hash: string }[] = [];
+  container.querySelectorAll(`.mermaid:not([${SOURCE_HASH_ATTRIBUTE}])`).forEach(diagram => {
+    const script = diagram.textContent ?? '';
+    const hash = hashSource(script);
+    // Marked before rendering, so a run starting meanwhile leaves the diagram alone
+    diagram.setAttribute(SOURCE_HASH_ATTRIBUTE, hash);
+    const svg = cache.get(hash);
+    if (svg !== undefined) {
+      diagram.innerHTML = svg;
+    } else {
+      pending.push({ diagram, script, hash });
+    }
+  });
+
+  const failed: Element[] = [];
+  for (const { diagram, script, hash } of pending) {
+    const id = `mermaid-preview-${++renderCount}`;
+    try {
+      const { svg } = await queueRender(render, id, script);
+      cache.set(hash, svg);
+      diagram.innerHTML = svg;
+    } catch {
+      // Mermaid 10 can leave the scratch element of a failed render behind
+      document.getElementById(`d${id}`)?.remove();
+      failed.push(diagram);
+    }
+  }
+
+  const hashes = new Set(
+    Array.from(container.querySelectorAll(`[${SOURCE_HASH_ATTRIBUTE}]`)).map(diagram =>
+      diagram.getAttribute(SOURCE_HASH_ATTRIBUTE)
+    )
+  );
+  Array.from(cache.keys()).forEach(hash => {
+    if (!hashes.has(hash)) cache.delete(hash);
+  });
+  return failed;
+}
@@ -0,0 +1,120 @@
+/**
+ * Preview Source
+ *
+ * Traces an element of the rendered preview back to the Markdown it came from,
+ * using the source offsets the Markdown pipeline stamps on blocks, list items
+ * and table cells. Inside a rendered Mermaid diagram, the clicked node is
+ * traced to the line of the fence declaring it.
+ */
+
+import { SOURCE_FROM_ATTRIBUTE, SOURCE_TO_ATTRIBUTE } from '@/lib/markdown-pipeline';
+import { findMermaidBlockAt } from '@/lib/mermaid-blocks';
+
+/** A range of the Markdown source, as editor offsets */
+export interface SourceRange {
+  from: number;
+  to: number;
+}
+
+/** Something a clicked diagram element names: a node ID or the text of a label */
+export interface MermaidNodeHint {
+  kind: 'id' | 'label';
+  value: string;
+}
+
+// DOM IDs Mermaid gives nodes: "flowchart-orders-3", "classId-Animal-0", "state-Idle-2"
+const NODE_DOM_ID = /^(?:flowchart|classId|state|entity)-(.+)-\d+$/;
+
+// Keywords that declare a node of the word after them
+const DECLARING_KEYWORDS = /^\s*(?:participant|actor|class|state|entity|subgraph)\s+$/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The source range of the innermost stamped element around `element`.
+ */
+export function sourceRangeOf(element: Element): SourceRange | null {
+  const stamped = element.closest(`[${SOURCE_FROM_ATTRIBUTE}]`);
+  if (!stamped) return null;
+  const from = Number(stamped.getAttribute(SOURCE_FROM_ATTRIBUTE));
+  const to = Number(stamped.getAttribute(SOURCE_TO_ATTRIBUTE) ?? from);
+  return Number.isFinite(from) && Number.isFinite(to) ? { from, to } : null;
+}
+
+/**
+ * What an element of a rendered diagram says about its node, from the element
+ * itself up to the SVG: node IDs first, then the text of the clicked label.
+ */
+export function mermaidNodeHints(element: Element): MermaidNodeHint[] {
+  const ids: string[] = [];
+  let current: Element | null = element;
+  for (; current && current.tagName.toLowerCase() !== 'svg'; current = current.parentElement) {
+    // Flowchart nodes carry their ID; sequence actors their name
+    const dataId = current.getAttribute('data-id');
+    const name = current.getAttribute('name');
+    const domId = current.getAttribute('id')?.match(NODE_DOM_ID)?.[1];
+    [dataId, name, domId].forEach(id => {
+      if (id && !ids.includes(id)) ids.push(id);
+    });
+  }
+  const hints: MermaidNodeHint[] = ids.map(value => ({ kind: 'id', value }));
+  // The SVG's own text is every label of the diagram
+  const label = element.tagName.toLowerCase() === 'svg' ? '' : element.textContent?.trim();
+  if (label) hints.push({ kind: 'label', value: label });
+  return hints;
+}
+
+/**
+ * The line of a script (from 0) declaring the node a hint names: preferably a
+ * line giving it a shape or declaring it with a keyword, otherwise the first
+ * line using it. Labels are found as plain text. Comments and the header line
+ * are skipped.
+ */
+export function findMermaidDeclarationLine(script: string, hints: MermaidNodeHint[]): number | null {
+  const lines = script.split('\n');
+  const searchable = (index: number) => index > 0 && !lines[index].trim().startsWith('%%');
+
+  for (const hint of hints) {
+    if (hint.kind === 'label') {
+      const index = lines.findIndex((line, i) => searchable(i) && line.includes(hint.value));
+      if (index !== -1) return index;
+      continue;
+    }
+
+    const word = new RegExp(`(?<![\\w$])${escapeRegExp(hint.value)}(?![\\w$])`);
+    let firstUse: number | null = null;
+    for (let index = 0; index < lines.length; index++) {
+      if (!searchable(index)) continue;
+      const match = word.exec(lines[index]);
+      if (!match) continue;
+      const before = lines[index].slice(0, match.index);
+      const after = lines[index].slice(match.index + hint.value.length);
+      if (DECLARING_KEYWORDS.test(before) || /^\s*[[({>]/.test(after)) return index;
+      firstUse ??= index;
+    }
+    if (firstUse !== null) return firstUse;
+  }
+  return null;
+}
+
+/**
+ * The source range behind a preview element: the declaration line of a
+ * diagram node, without its indentation, or the Markdown of the innermost
+ * stamped element.
+ */
+export function findPreviewSourceRange(element: Element, markdown: string): SourceRange | null {
+  const range = sourceRangeOf(element);
+  if (!range) return null;
+
+  if (!element.closest('.mermaid svg')) return range;
+
+  const block = findMermaidBlockAt(markdown, range.from);
+  const line = block ? findMermaidDeclarationLine(block.script, mermaidNodeHints(element)) : null;
+  if (!block || line === null) return range;
+
+  const scriptStart = markdown.indexOf('\n', block.startCharIndex) + 1;
+  const lines = block.script.split('\n');
+  const lineStart = scriptStart + lines.slice(0, line).reduce((sum, text) => sum + text.length + 1, 0);
+  const indent = lines[line].length - lines[line].trimStart().length;
+  return { from: lineStart + indent, to: lineStart + lines[line].trimEnd().length };
+}
@@ -0,0 +1,82 @@
+/**
+ * Scroll Anchors
+ *
+ * Maps source lines to preview scroll offsets and back through the preview's
+ * blocks, each stamped with the source lines it was rendered from. Positions
+ * inside a block, or between two blocks, are interpolated, so a tall diagram or
+ * table takes up as much scrolling in the preview as its few source lines do
+ * in the editor, instead of the two panes drifting apart.
+ *
+ * Lines are fractional and count from 1: 12.5 is halfway through line 12.
+ */
+
+import { LINE_END_ATTRIBUTE, LINE_NUMBER_ATTRIBUTE } from '@/lib/markdown-pipeline';
+
+/** A preview block and the source lines it came from */
+export interface ScrollAnchor {
+  startLine: number;
+  endLine: number;
+  /** Top and bottom edges, as scroll offsets of the preview */
+  top: number;
+  bottom: number;
+}
+
+interface AnchorPoint {
+  line: number;
+  offset: number;
+}
+
+/**
+ * Read the anchors of the stamped blocks inside a scrolling container.
+ */
+export function collectScrollAnchors(container: HTMLElement): ScrollAnchor[] {
+  const containerTop = container.getBoundingClientRect().top - container.scrollTop;
+  return Array.from(container.querySelectorAll(`[${LINE_NUMBER_ATTRIBUTE}]`)).flatMap(element => {
+    const startLine = Number(element.getAttribute(LINE_NUMBER_ATTRIBUTE));
+    const endLine = Number(element.getAttribute(LINE_END_ATTRIBUTE) ?? startLine);
+    if (!Number.isFinite(startLine) || !Number.isFinite(endLine)) return [];
+    const rect = element.getBoundingClientRect();
+    return [{ startLine, endLine, top: rect.top - containerTop, bottom: rect.bottom - containerTop }];
+  });
+}
+
+// Where each block starts and ends, in line and offset. Points that would run
+// backwards in either (nested or overlapping blocks) are dropped.
+function anchorPoints(anchors: ScrollAnchor[]): AnchorPoint[] {
+  const points: AnchorPoint[] = [{ line: 1, offset: 0 }];
+  anchors.forEach(anchor => {
+    [
+      { line: anchor.startLine, offset: anchor.top },
+      { line: anchor.endLine + 1, offset: anchor.bottom },
+    ].forEach(point => {
+      const last = points[points.length - 1];
+      if (point.line >= last.line && point.offset >= last.offset) points.push(point);
+    });
+  });
+  return points;
+}
+
+// Piecewise-linear lookup along the points, clamped to the last one
+function interpolate(points: AnchorPoint[], value: number, from: keyof AnchorPoint, to: keyof AnchorPoint): number {
+  let index = 0;
+  while (index + 1 < points.length && points[index + 1][from] <= value) index++;
+  const point = points[index];
+  const next = points[index + 1];
+  if (!next || next[from] === point[from]) return point[to];
+  const ratio = Math.max(0, (value - point[from]) / (next[from] - point[from]));
+  return point[to] + ratio * (next[to] - point[to]);
+}
+
+/**
+ * The preview scroll offset at which a source line sits at the top.
+ */
+export function lineToScrollOffset(anchors: ScrollAnchor[], line: number): number {
+  return interpolate(anchorPoints(anchors), line, 'line', 'offset');
+}
+
+/**
+ * The source line shown at a preview scroll offset.
+ */
+export function scrollOffsetToLine(anchors: ScrollAnchor[], offset: number): number {
+  return interpolate(anchorPoints(anchors), offset, 'offset', 'line');
+}
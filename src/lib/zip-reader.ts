@@ -0,0 +1,106 @@
+/**
+ * Zip Reader
+ *
+ * Minimal reader for `.zip` archives, enough to pull a model file out of an
+ * archive in the browser. Stored entries are copied and deflated entries are
+ * inflated with the built-in `DecompressionStream`, so no library is needed.
+ * Encryption, ZIP64 and multi-disk archives are not supported.
+ */
+
+export interface ZipEntry {
+  /** Path of the entry inside the archive, with forward slashes */
+  name: string;
+  isDirectory: boolean;
+  /** Uncompressed size in bytes */
+  size: number;
+  /** Decompress the entry */
+  read: () => Promise<Uint8Array>;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+// The end record may be followed by a comment of up to 64 KiB
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8_NAMES = 0x800;
+
+/**
+ * Tell whether the bytes start with a zip local file header ("PK\x03\x04").
+ */
+export function isZipSignature(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const lowest = Math.max(0, view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('The file is not a valid zip archive.');
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress zip archives.');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function decodeName(bytes: Uint8Array, utf8: boolean): string {
+  // Names without the UTF-8 flag are in the IBM code page; ASCII reads the same either way
+  return utf8 ? new TextDecoder().decode(bytes) : String.fromCharCode(...Array.from(bytes));
+}
+
+/**
+ * List the entries of a zip archive. Entry contents are only decompressed when read.
+ */
+export function readZipEntries(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('The zip archive is damaged.');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decodeName(bytes.subarray(offset + 46, offset + 46 + nameLength), (flags & FLAG_UTF8_NAMES) !== 0);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const read = async (): Promise<Uint8Array> => {
+      if (flags & FLAG_ENCRYPTED) {
+        throw new Error(`"${name}" is encrypted, which is not supported.`);
+      }
+      if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+        throw new Error('The zip archive is damaged.');
+      }
+      // The local header repeats the name and may carry a different extra field
+      const dataStart =
+        localHeaderOffset + 30 + view.getUint16(localHeaderOffset + 26, true) + view.getUint16(localHeaderOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === METHOD_STORED) return data.slice();
+      if (method === METHOD_DEFLATED) return inflateRaw(data);
+      throw new Error(`"${name}" uses an unsupported compression method.`);
+    };
+
+    entries.push({ name, isDirectory: name.endsWith('/'), size, read });
+  }
+  return entries;
+}
@@ -5,14 +5,6 @@
 
 declare global {
   interface Window {
-    /**
-     * marked.js - Markdown parser
-     * Library is loaded globally and provides markdown parsing
-     */
-    marked: {
-      parse: (markdown: string) => string;
-    };
-
     /**
      * mermaid.js - Diagram rendering engine
      * Library is loaded globally and provides diagram generation
@@ -28,11 +20,17 @@ declare global {
        */
       initialize: (config: any) => void;
 
+      /**
+       * Render a single diagram to an SVG string
+       * Rejects when the diagram has a syntax error
+       */
+      render: (id: string, text: string) => Promise<{ svg: string }>;
+
       /**
        * Render mermaid diagrams in the DOM
        * When called without arguments, processes all .mermaid elements
        */
-      run: (config?: { nodes?: NodeListOf<Element> }) => void;
+      run: (config?: { nodes?: ArrayLike<Element> }) => Promise<void>;
     };
   }
 }